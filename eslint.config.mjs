@@ -18,6 +18,7 @@ export default [
         clearTimeout: "readonly",
         setInterval: "readonly",
         clearInterval: "readonly",
+        setImmediate: "readonly",
         performance: "readonly",
         fetch: "readonly",
         NodeJS: "readonly",
@@ -33,7 +34,8 @@ export default [
     languageOptions: {
       parser: tsParser,
       parserOptions: {
-        project: "./tsconfig.json",
+        // tsconfig.json leaves tests out of the build, lint them too
+        project: "./tsconfig.eslint.json",
         ecmaVersion: 2020,
         sourceType: "module",
       },
@@ -0,0 +1,127 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { BeforeSendPipeline } from "./BeforeSendPipeline";
+import { createLogger, LogLevel } from "../logger";
+import type { BeforeSendHook, TelemetryEvent } from "../types";
+
+const logger = createLogger({ level: LogLevel.SILENT });
+
+const event: TelemetryEvent = {
+  eventType: "custom",
+  eventName: "signup",
+  payload: { email: "jane@example.com" },
+  timestamp: "2026-01-01T00:00:00.000Z",
+};
+
+const scrub: BeforeSendHook = current => ({
+  ...current,
+  payload: { ...current.payload, email: "[redacted]" },
+});
+
+const run = async (pipeline: BeforeSendPipeline, input = event) => {
+  const delivered: TelemetryEvent[] = [];
+  pipeline.process(input, processed => delivered.push(processed));
+  await pipeline.waitForPending();
+  return delivered;
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("BeforeSendPipeline", () => {
+  it("runs hooks in order and delivers synchronous chains immediately", () => {
+    const pipeline = new BeforeSendPipeline(logger, [
+      current => ({ ...current, eventName: `${current.eventName}:a` }),
+      current => ({ ...current, eventName: `${current.eventName}:b` }),
+    ]);
+    const delivered: TelemetryEvent[] = [];
+
+    pipeline.process(event, processed => delivered.push(processed));
+
+    expect(delivered.map(e => e.eventName)).toEqual(["signup:a:b"]);
+  });
+
+  it("waits for async hooks before running the rest of the chain", async () => {
+    const order: string[] = [];
+    const pipeline = new BeforeSendPipeline(logger, [
+      async current => {
+        await Promise.resolve();
+        order.push("async");
+        return scrub(current);
+      },
+      current => {
+        order.push("sync");
+        return current;
+      },
+    ]);
+
+    const delivered = await run(pipeline);
+
+    expect(order).toEqual(["async", "sync"]);
+    expect(delivered[0].payload.email).toBe("[redacted]");
+  });
+
+  it("drops events a hook returns null for", async () => {
+    const later = vi.fn(scrub);
+    const pipeline = new BeforeSendPipeline(logger, [() => null, later]);
+
+    expect(await run(pipeline)).toEqual([]);
+    expect(later).not.toHaveBeenCalled();
+    expect(pipeline.getStats()[0].dropped).toBe(1);
+  });
+
+  it("drops events whose hook throws or rejects", async () => {
+    const pipeline = new BeforeSendPipeline(logger, [
+      function failingScrub() {
+        throw new Error("scrubber crashed");
+      },
+    ]);
+    const rejecting = new BeforeSendPipeline(logger, [
+      () => Promise.reject(new Error("scrubber crashed")),
+    ]);
+
+    expect(await run(pipeline)).toEqual([]);
+    expect(await run(rejecting)).toEqual([]);
+    expect(pipeline.getStats()[0]).toMatchObject({
+      name: "failingScrub",
+      errors: 1,
+    });
+  });
+
+  it("drops events whose hook times out", async () => {
+    vi.useFakeTimers();
+    const pipeline = new BeforeSendPipeline(logger, [
+      () => new Promise<TelemetryEvent>(() => {}),
+    ]);
+    const delivered: TelemetryEvent[] = [];
+
+    pipeline.process(event, processed => delivered.push(processed));
+    expect(pipeline.getPendingCount()).toBe(1);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(pipeline.getPendingCount()).toBe(0);
+    expect(delivered).toEqual([]);
+    expect(pipeline.getStats()[0].errors).toBe(1);
+  });
+
+  it("passes the event on past failed hooks in pass mode", async () => {
+    const pipeline = new BeforeSendPipeline(
+      logger,
+      [
+        () => {
+          throw new Error("enrichment failed");
+        },
+        () => Promise.reject(new Error("enrichment failed")),
+        scrub,
+      ],
+      1000,
+      50,
+      "pass"
+    );
+
+    const delivered = await run(pipeline);
+
+    expect(delivered).toHaveLength(1);
+    expect(delivered[0].payload.email).toBe("[redacted]");
+  });
+});
@@ -0,0 +1,263 @@
+import type {
+  TelemetryEvent,
+  Logger,
+  BeforeSendHook,
+  BeforeSendStats,
+  BeforeSendErrorMode,
+} from "../types";
+
+type ProcessorEntry = {
+  hook: BeforeSendHook;
+  stats: BeforeSendStats;
+};
+
+const now = (): number =>
+  typeof performance !== "undefined" ? performance.now() : Date.now();
+
+export class BeforeSendPipeline {
+  private processors: ProcessorEntry[] = [];
+  private pending = new Set<Promise<void>>();
+  private logger: Logger;
+  private timeout: number;
+  private slowThreshold: number;
+  private onHookError: BeforeSendErrorMode;
+
+  constructor(
+    logger: Logger,
+    hooks: BeforeSendHook[] = [],
+    timeout: number = 1000, // Max time an async hook may take before it counts as failed
+    slowThreshold: number = 50, // Log hooks slower than this many milliseconds
+    onHookError: BeforeSendErrorMode = "drop" // A failed scrubbing hook must not let the event through
+  ) {
+    // Validate parameters
+    if (timeout <= 0) {
+      throw new Error("timeout must be greater than 0");
+    }
+    if (slowThreshold < 0) {
+      throw new Error("slowThreshold must be non-negative");
+    }
+
+    this.logger = logger;
+    this.timeout = timeout;
+    this.slowThreshold = slowThreshold;
+    this.onHookError = onHookError;
+    hooks.forEach(hook => this.add(hook));
+  }
+
+  /**
+   * Append a hook to the end of the chain
+   * @returns A function that removes the hook again
+   */
+  add(hook: BeforeSendHook): () => void {
+    if (typeof hook !== "function") {
+      throw new Error("beforeSend hook must be a function");
+    }
+    this.processors.push({
+      hook,
+      stats: {
+        name: hook.name || `beforeSend#${this.processors.length}`,
+        invocations: 0,
+        dropped: 0,
+        errors: 0,
+        totalDuration: 0,
+        maxDuration: 0,
+      },
+    });
+    return () => this.remove(hook);
+  }
+
+  remove(hook: BeforeSendHook): boolean {
+    const index = this.processors.findIndex(entry => entry.hook === hook);
+    if (index === -1) {
+      return false;
+    }
+    this.processors.splice(index, 1);
+    return true;
+  }
+
+  getStats(): BeforeSendStats[] {
+    return this.processors.map(entry => ({ ...entry.stats }));
+  }
+
+  getPendingCount(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Resolves once every event waiting on an async hook has been delivered or dropped
+   */
+  async waitForPending(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all(this.pending);
+    }
+  }
+
+  /**
+   * Run an event through the chain and hand the result to deliver.
+   * Synchronous chains deliver before returning so event order is preserved.
+   */
+  process(
+    event: TelemetryEvent,
+    deliver: (event: TelemetryEvent) => void
+  ): void {
+    if (this.processors.length === 0) {
+      deliver(event);
+      return;
+    }
+    // Snapshot so hooks added or removed mid-flight don't affect this event
+    this.runFrom([...this.processors], 0, event, deliver);
+  }
+
+  private runFrom(
+    processors: ProcessorEntry[],
+    startIndex: number,
+    event: TelemetryEvent,
+    deliver: (event: TelemetryEvent) => void
+  ): void {
+    let current = event;
+
+    for (let i = startIndex; i < processors.length; i++) {
+      const entry = processors[i];
+      const startTime = now();
+      let result: ReturnType<BeforeSendHook>;
+
+      try {
+        result = entry.hook(current);
+      } catch (error) {
+        this.recordDuration(entry, current, startTime);
+        this.recordError(entry, current, error);
+        if (this.onHookError === "drop") {
+          return;
+        }
+        continue;
+      }
+
+      if (result instanceof Promise) {
+        const eventBeforeHook = current;
+        const task = this.withTimeout(result)
+          .then(
+            resolved => this.applyResult(entry, eventBeforeHook, resolved),
+            error => {
+              this.recordError(entry, eventBeforeHook, error);
+              return this.onHookError === "drop" ? null : eventBeforeHook;
+            }
+          )
+          .then(next => {
+            this.recordDuration(entry, eventBeforeHook, startTime);
+            if (next) {
+              this.runFrom(processors, i + 1, next, deliver);
+            }
+          })
+          .catch(error => {
+            this.logger.error("beforeSend pipeline failed", {
+              error: error instanceof Error ? error.message : String(error),
+            });
+          })
+          .finally(() => {
+            this.pending.delete(task);
+          });
+        this.pending.add(task);
+        return;
+      }
+
+      this.recordDuration(entry, current, startTime);
+      const next = this.applyResult(entry, current, result);
+      if (!next) {
+        return;
+      }
+      current = next;
+    }
+
+    deliver(current);
+  }
+
+  private applyResult(
+    entry: ProcessorEntry,
+    event: TelemetryEvent,
+    result: TelemetryEvent | null
+  ): TelemetryEvent | null {
+    entry.stats.invocations++;
+
+    if (result === null) {
+      entry.stats.dropped++;
+      this.logger.debug("Event dropped by beforeSend hook", {
+        hook: entry.stats.name,
+        eventType: event.eventType,
+        eventName: event.eventName,
+      });
+      return null;
+    }
+
+    if (
+      !result ||
+      typeof result !== "object" ||
+      typeof result.eventType !== "string" ||
+      typeof result.eventName !== "string"
+    ) {
+      // Most likely a hook that forgot to return the event, keep it unchanged
+      entry.stats.errors++;
+      this.logger.warn("beforeSend hook returned an invalid event, ignoring", {
+        hook: entry.stats.name,
+        eventType: event.eventType,
+        eventName: event.eventName,
+      });
+      return event;
+    }
+
+    return result;
+  }
+
+  private recordError(
+    entry: ProcessorEntry,
+    event: TelemetryEvent,
+    error: unknown
+  ): void {
+    entry.stats.invocations++;
+    entry.stats.errors++;
+    this.logger.error(
+      this.onHookError === "drop"
+        ? "beforeSend hook failed, dropping the event"
+        : "beforeSend hook failed, skipping it for this event",
+      {
+        hook: entry.stats.name,
+        eventType: event.eventType,
+        eventName: event.eventName,
+        error: error instanceof Error ? error.message : String(error),
+      }
+    );
+  }
+
+  private recordDuration(
+    entry: ProcessorEntry,
+    event: TelemetryEvent,
+    startTime: number
+  ): void {
+    const duration = now() - startTime;
+    entry.stats.totalDuration += duration;
+    entry.stats.maxDuration = Math.max(entry.stats.maxDuration, duration);
+    if (duration > this.slowThreshold) {
+      this.logger.warn("Slow beforeSend hook", {
+        hook: entry.stats.name,
+        eventType: event.eventType,
+        eventName: event.eventName,
+        duration,
+      });
+    }
+  }
+
+  private withTimeout<T>(promise: Promise<T>): Promise<T> {
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(
+        () =>
+          reject(
+            new Error(`beforeSend hook timed out after ${this.timeout}ms`)
+          ),
+        this.timeout
+      );
+    });
+    return Promise.race([promise, timeout]).finally(() =>
+      clearTimeout(timeoutId)
+    );
+  }
+}
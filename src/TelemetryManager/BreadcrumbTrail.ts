@@ -0,0 +1,113 @@
+import type {
+  Breadcrumb,
+  BreadcrumbCategory,
+  BreadcrumbConfig,
+  BreadcrumbInput,
+  Logger,
+  TelemetryEvent,
+} from "../types";
+import { measureEvent } from "./EventBatcher";
+import { sanitizePayload, toBreadcrumb } from "./utils";
+
+const MAX_MESSAGE_LENGTH = 200;
+// Serialized size of the trail attached to an event, half the 8KB Hyperlook properties cap
+const MAX_TRAIL_BYTES = 4096;
+
+/**
+ * Keeps the most recent breadcrumbs in a fixed-size ring buffer
+ */
+export class BreadcrumbTrail {
+  private logger: Logger;
+  private maxBreadcrumbs: number;
+  private categories: Set<BreadcrumbCategory> | null;
+  private slots: (Breadcrumb | undefined)[];
+  private next = 0; // Slot the next breadcrumb is written to
+  private size = 0;
+
+  constructor(logger: Logger, config: BreadcrumbConfig = {}) {
+    const maxBreadcrumbs = config.maxBreadcrumbs ?? 30;
+
+    // Validate parameters
+    if (!Number.isInteger(maxBreadcrumbs) || maxBreadcrumbs < 1) {
+      throw new Error("maxBreadcrumbs must be a positive integer");
+    }
+
+    this.logger = logger;
+    this.maxBreadcrumbs = maxBreadcrumbs;
+    this.categories = config.categories ? new Set(config.categories) : null;
+    this.slots = new Array<Breadcrumb | undefined>(maxBreadcrumbs);
+  }
+
+  add(input: BreadcrumbInput, timestamp = new Date().toISOString()): void {
+    const category = input.category ?? "custom";
+    if (!this.isRecorded(category)) {
+      return;
+    }
+    try {
+      const message = String(input.message);
+      this.push({
+        category,
+        message:
+          message.length > MAX_MESSAGE_LENGTH
+            ? `${message.slice(0, MAX_MESSAGE_LENGTH)}...`
+            : message,
+        level: input.level ?? "info",
+        timestamp,
+        ...(input.data && { data: sanitizePayload(input.data) }),
+      });
+    } catch (error) {
+      this.logger.warn("Failed to add breadcrumb", {
+        category,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Record a breadcrumb for a captured click, page view, console or network event
+   */
+  recordEvent(event: TelemetryEvent): void {
+    const breadcrumb = toBreadcrumb(event);
+    if (breadcrumb && this.isRecorded(breadcrumb.category)) {
+      this.push(breadcrumb);
+    }
+  }
+
+  /**
+   * @returns Breadcrumbs oldest first, dropping the oldest ones once the
+   * serialized trail would exceed maxBytes
+   */
+  getAll(maxBytes: number = MAX_TRAIL_BYTES): Breadcrumb[] {
+    const breadcrumbs: Breadcrumb[] = [];
+    let bytes = 2; // []
+    for (let i = 1; i <= this.size; i++) {
+      const breadcrumb =
+        this.slots[(this.next - i + this.maxBreadcrumbs) % this.maxBreadcrumbs];
+      if (!breadcrumb) {
+        continue;
+      }
+      bytes += measureEvent(breadcrumb) + (breadcrumbs.length > 0 ? 1 : 0);
+      if (bytes > maxBytes) {
+        break;
+      }
+      breadcrumbs.push(breadcrumb);
+    }
+    return breadcrumbs.reverse();
+  }
+
+  clear(): void {
+    this.slots = new Array<Breadcrumb | undefined>(this.maxBreadcrumbs);
+    this.next = 0;
+    this.size = 0;
+  }
+
+  private isRecorded(category: BreadcrumbCategory): boolean {
+    return !this.categories || this.categories.has(category);
+  }
+
+  private push(breadcrumb: Breadcrumb): void {
+    this.slots[this.next] = breadcrumb;
+    this.next = (this.next + 1) % this.maxBreadcrumbs;
+    this.size = Math.min(this.size + 1, this.maxBreadcrumbs);
+  }
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { EventBatcher, measureEvent } from "./EventBatcher";
+import type { TelemetryEvent } from "../types";
+
+const createEvent = (eventName: string, text = ""): TelemetryEvent => ({
+  eventType: "custom",
+  eventName,
+  payload: { text },
+  timestamp: "2026-01-01T00:00:00.000Z",
+});
+
+const names = (batches: TelemetryEvent[][]) =>
+  batches.map(batch => batch.map(event => event.eventName));
+
+const serializedSize = (events: TelemetryEvent[]) =>
+  new TextEncoder().encode(JSON.stringify({ events })).length;
+
+describe("measureEvent", () => {
+  it("counts UTF-8 bytes, not characters", () => {
+    const event = createEvent("unicode", "é€🚀");
+
+    expect(measureEvent(event)).toBe(
+      new TextEncoder().encode(JSON.stringify(event)).length
+    );
+  });
+});
+
+describe("EventBatcher", () => {
+  it("cuts batches at the event count", () => {
+    const events = ["a", "b", "c", "d", "e"].map(name => createEvent(name));
+
+    expect(
+      names(EventBatcher.split(events, { maxEvents: 2, maxBytes: 100000 }))
+    ).toEqual([["a", "b"], ["c", "d"], ["e"]]);
+  });
+
+  it("keeps every batch's serialized JSON within the byte budget", () => {
+    const events = Array.from({ length: 20 }, (_, i) =>
+      createEvent(`event-${i}`, "é".repeat(i * 10))
+    );
+    const maxBytes = 1000;
+
+    const batches = EventBatcher.split(events, { maxEvents: 50, maxBytes });
+
+    expect(batches.flat()).toEqual(events);
+    batches.forEach(batch =>
+      expect(serializedSize(batch)).toBeLessThanOrEqual(maxBytes)
+    );
+  });
+
+  it("fills a batch exactly up to the byte budget", () => {
+    const events = [createEvent("a"), createEvent("b")];
+
+    expect(
+      EventBatcher.split(events, {
+        maxEvents: 50,
+        maxBytes: serializedSize(events),
+      })
+    ).toHaveLength(1);
+    expect(
+      EventBatcher.split(events, {
+        maxEvents: 50,
+        maxBytes: serializedSize(events) - 1,
+      })
+    ).toHaveLength(2);
+  });
+
+  it("sends an event larger than the budget in a batch of its own", () => {
+    const events = [
+      createEvent("small"),
+      createEvent("large", "x".repeat(2000)),
+      createEvent("after"),
+    ];
+
+    expect(
+      names(EventBatcher.split(events, { maxEvents: 50, maxBytes: 500 }))
+    ).toEqual([["small"], ["large"], ["after"]]);
+  });
+
+  it("rejects empty budgets", () => {
+    expect(() => new EventBatcher({ maxEvents: 0, maxBytes: 100 })).toThrow();
+    expect(() => new EventBatcher({ maxEvents: 1, maxBytes: 0 })).toThrow();
+  });
+});
@@ -0,0 +1,118 @@
+import type { TelemetryEvent } from "../types";
+import type { BatchLimits } from "./types";
+
+// {"events":[]} around the serialized events
+const ENVELOPE_BYTES = 13;
+
+/**
+ * UTF-8 length of a string, without encoding it
+ */
+export const utf8Length = (value: string): number => {
+  let length = 0;
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    if (code < 0x80) {
+      length += 1;
+    } else if (code < 0x800) {
+      length += 2;
+    } else if (code >= 0xd800 && code <= 0xdbff) {
+      // Surrogate pair, 4 bytes for both halves
+      length += 4;
+      i++;
+    } else {
+      length += 3;
+    }
+  }
+  return length;
+};
+
+/**
+ * Serialized size of an event in bytes
+ */
+export const measureEvent = (event: unknown): number => {
+  try {
+    return utf8Length(JSON.stringify(event) ?? "");
+  } catch {
+    return 0;
+  }
+};
+
+/**
+ * Groups events into batches that stay within both a count and a byte budget,
+ * tracking the serialized size incrementally as events are added. An event
+ * larger than the byte budget gets a batch of its own.
+ */
+export class EventBatcher {
+  private events: TelemetryEvent[] = [];
+  private bytes = ENVELOPE_BYTES;
+  private limits: BatchLimits;
+  private measure: (event: TelemetryEvent) => number;
+
+  constructor(
+    limits: BatchLimits,
+    measure: (event: TelemetryEvent) => number = measureEvent // Size as the exporter serializes it
+  ) {
+    // Validate parameters
+    if (limits.maxEvents < 1) {
+      throw new Error("maxEvents must be at least 1");
+    }
+    if (limits.maxBytes < 1) {
+      throw new Error("maxBytes must be at least 1");
+    }
+
+    this.limits = limits;
+    this.measure = measure;
+  }
+
+  /**
+   * Split events into batches, keeping their order
+   */
+  static split(
+    events: TelemetryEvent[],
+    limits: BatchLimits,
+    measure?: (event: TelemetryEvent) => number
+  ): TelemetryEvent[][] {
+    const batcher = new EventBatcher(limits, measure);
+    const batches: TelemetryEvent[][] = [];
+    for (const event of events) {
+      const closed = batcher.add(event);
+      if (closed) {
+        batches.push(closed);
+      }
+    }
+    const last = batcher.take();
+    if (last.length > 0) {
+      batches.push(last);
+    }
+    return batches;
+  }
+
+  /**
+   * Add an event to the current batch
+   * @returns The batch the event closed because it didn't fit, or null
+   */
+  add(event: TelemetryEvent): TelemetryEvent[] | null {
+    // Events are separated by a comma
+    const size = this.measure(event) + (this.events.length > 0 ? 1 : 0);
+    const closed =
+      this.events.length > 0 &&
+      (this.events.length >= this.limits.maxEvents ||
+        this.bytes + size > this.limits.maxBytes)
+        ? this.take()
+        : null;
+
+    this.bytes += closed ? size - 1 : size;
+    this.events.push(event);
+    return closed;
+  }
+
+  /**
+   * Remove and return the current batch
+   */
+  take(): TelemetryEvent[] {
+    const batch = this.events;
+    this.events = [];
+    this.bytes = ENVELOPE_BYTES;
+    return batch;
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { EventProcessor } from "./EventProcessor";
+import { TelemetryState } from "./types";
+import { createLogger, LogLevel } from "../logger";
+import { hashString } from "../utils/hashString";
+import type { TelemetryEvent } from "../types";
+
+const logger = createLogger({ level: LogLevel.SILENT });
+
+const createEvent = (): TelemetryEvent => ({
+  eventType: "custom",
+  eventName: "test",
+  payload: {},
+  timestamp: new Date().toISOString(),
+});
+
+// First ID of the given prefix that the hash keeps (or drops) at a 0.5 rate
+const findId = (prefix: string, kept: boolean): string => {
+  for (let index = 0; ; index++) {
+    const id = `${prefix}_${index}`;
+    if (hashString(id) < 0.5 === kept) {
+      return id;
+    }
+  }
+};
+
+const createProcessor = (sessionId: string, userId?: string) =>
+  new EventProcessor(
+    logger,
+    TelemetryState.RUNNING,
+    0.5,
+    50,
+    sessionId,
+    userId,
+    [],
+    "user"
+  );
+
+describe("EventProcessor user sampling", () => {
+  it("keeps the session's decision when identify() is called mid-session", () => {
+    const processor = createProcessor(findId("session", true));
+
+    expect(processor.capture(createEvent())).not.toBeNull();
+    processor.setUserId(findId("user", false));
+    expect(processor.capture(createEvent())).not.toBeNull();
+  });
+
+  it("samples by user ID from the next session on", () => {
+    const processor = createProcessor(findId("session", true));
+    processor.setUserId(findId("user", false));
+    processor.setSessionId(findId("next_session", true));
+
+    expect(processor.capture(createEvent())).toBeNull();
+  });
+
+  it("samples by the user ID known at session start", () => {
+    const processor = createProcessor(
+      findId("session", false),
+      findId("user", true)
+    );
+
+    expect(processor.capture(createEvent())).not.toBeNull();
+    expect(processor.isSessionSampled()).toBe(true);
+  });
+});
@@ -1,7 +1,16 @@
-import type { TelemetryEvent, Logger } from "../types";
+import type {
+  TelemetryEvent,
+  Logger,
+  SamplingRule,
+  SamplingMode,
+} from "../types";
 import { TelemetryState } from "./types";
-import { sanitizeString, sanitizePayload } from "./utils";
+import { sanitizeString, sanitizePayload, MAX_PAYLOAD_KEYS } from "./utils";
 import { getCurrentVersion } from "../utils/versionUtils";
+import type { Redactor } from "./redaction";
+import { Sampler } from "./Sampler";
+import { measureEvent } from "./EventBatcher";
+import { MAX_BATCH_SIZE_BYTES } from "../constants";
 
 export class EventProcessor {
   private eventQueue: TelemetryEvent[] = [];
@@ -9,10 +18,18 @@ export class EventProcessor {
   private isProcessingQueue = false;
   private logger: Logger;
   private state: TelemetryState;
-  private samplingRate: number;
+  private sampler: Sampler;
   private batchSize: number;
+  private maxBatchBytes: number;
+  private bufferBytes = 0; // Serialized size of the buffer, kept up to date as it changes
   private sessionId: string;
   private userId?: string;
+  private anonymousId?: string;
+  private globalContext: Record<string, unknown> = {};
+  private contextScopes: Record<string, unknown>[] = [];
+  // User mode keys each session by the user ID known when it started, so identify() doesn't flip its decision
+  private sessionSamplingKeys = new Map<string, string>();
+  private redactor: Redactor | null = null;
   private readonly MAX_QUEUE_SIZE = 10000; // Prevent unbounded queue growth
   private readonly MAX_BUFFER_SIZE = 5000; // Prevent unbounded buffer growth
 
@@ -22,7 +39,10 @@ export class EventProcessor {
     samplingRate: number,
     batchSize: number,
     sessionId: string,
-    userId?: string
+    userId?: string,
+    samplingRules: SamplingRule[] = [],
+    samplingMode: SamplingMode = "random",
+    maxBatchBytes: number = MAX_BATCH_SIZE_BYTES
   ) {
     // Validate parameters
     if (samplingRate < 0 || samplingRate > 1) {
@@ -31,18 +51,23 @@ export class EventProcessor {
     if (batchSize < 1) {
       throw new Error("batchSize must be at least 1");
     }
+    if (maxBatchBytes < 1024) {
+      throw new Error("maxBatchBytes must be at least 1KB");
+    }
     if (!sessionId || typeof sessionId !== "string") {
       throw new Error("sessionId is required and must be a string");
     }
 
     this.logger = logger;
     this.state = state;
-    this.samplingRate = samplingRate;
+    this.sampler = new Sampler(samplingRate, samplingRules, samplingMode);
     this.batchSize = batchSize;
+    this.maxBatchBytes = maxBatchBytes;
     this.sessionId = sessionId;
     if (userId !== undefined) {
       this.userId = userId;
     }
+    this.startSamplingSession(sessionId);
   }
 
   validateEvent(event: TelemetryEvent): TelemetryEvent {
@@ -75,27 +100,51 @@ export class EventProcessor {
     return sanitizedEvent;
   }
 
-  capture(event: TelemetryEvent): boolean {
+  /**
+   * @param context - Context to merge into the payload, snapshot it with getContext()
+   * when the event was captured before async processing
+   * @returns The event as queued, sampled, redacted and enriched, or null if it was dropped
+   */
+  capture(
+    event: TelemetryEvent,
+    context: Record<string, unknown> = this.getContext()
+  ): TelemetryEvent | null {
     try {
       this.validateState();
 
-      const validatedEvent = this.validateEvent(event);
-      if (Math.random() > this.samplingRate) {
+      const validatedEvent = this.validateEvent(
+        this.applyContext(event, context)
+      );
+      // Events stamped before a session rotation keep the session they happened in
+      const sessionId = validatedEvent.sessionId ?? this.sessionId;
+      const sampling = this.sampler.sample(
+        validatedEvent,
+        this.getSamplingKey(sessionId)
+      );
+      if (!sampling.sampled) {
         this.logger.debug("Event dropped due to sampling", {
           eventType: validatedEvent.eventType,
           eventName: validatedEvent.eventName,
-          samplingRate: this.samplingRate,
+          samplingRate: sampling.rate,
         });
-        return false;
+        return null;
       }
 
+      const redactedEvent = this.redactor
+        ? this.redactor.redactEvent(validatedEvent)
+        : validatedEvent;
+
       const enrichedEvent: TelemetryEvent = {
-        ...validatedEvent,
-        sessionId: this.sessionId,
+        ...redactedEvent,
+        sessionId,
         ...(this.userId && { userId: this.userId }),
+        ...(this.anonymousId && { anonymousId: this.anonymousId }),
         // Preserve existing sdkMetadata (for early events) or add new one
-        sdkMetadata: validatedEvent.sdkMetadata || {
-          version: getCurrentVersion(),
+        sdkMetadata: {
+          ...(validatedEvent.sdkMetadata || { version: getCurrentVersion() }),
+          // Lets the backend extrapolate true counts from sampled events
+          samplingRate: sampling.rate,
+          samplingWeight: 1 / sampling.rate,
         },
       };
 
@@ -115,11 +164,11 @@ export class EventProcessor {
         eventType: validatedEvent.eventType,
         eventName: validatedEvent.eventName,
         queueSize: this.eventQueue.length,
-        sessionId: this.sessionId,
+        sessionId,
         userId: this.userId,
       });
 
-      return true;
+      return enrichedEvent;
     } catch (error) {
       this.logger.error("Failed to capture event", {
         eventType: event.eventType,
@@ -127,7 +176,7 @@ export class EventProcessor {
         error: error instanceof Error ? error.message : String(error),
         stack: error instanceof Error ? error.stack : undefined,
       });
-      return false;
+      return null;
     }
   }
 
@@ -149,10 +198,12 @@ export class EventProcessor {
               bufferSize: this.buffer.length,
               maxBufferSize: this.MAX_BUFFER_SIZE,
             });
-            this.buffer.shift(); // Remove oldest event
+            const dropped = this.buffer.shift(); // Remove oldest event
+            this.bufferBytes -= dropped ? measureEvent(dropped) : 0;
           }
 
           this.buffer.push(event);
+          this.bufferBytes += measureEvent(event);
           this.logger.debug("Event processed and added to buffer", {
             eventType: event.eventType,
             eventName: event.eventName,
@@ -170,16 +221,30 @@ export class EventProcessor {
   }
 
   getBatchForExport(): TelemetryEvent[] {
+    this.bufferBytes = 0;
     return this.buffer.splice(0);
   }
 
   returnBatchToBuffer(batch: TelemetryEvent[]): void {
     // Add events to the end of the buffer to maintain FIFO order
     this.buffer.push(...batch);
+    for (const event of batch) {
+      this.bufferBytes += measureEvent(event);
+    }
   }
 
+  /**
+   * Whether the buffer holds a full batch, by event count or serialized size
+   */
   isBufferFull(): boolean {
-    return this.buffer.length >= this.batchSize;
+    return (
+      this.buffer.length >= this.batchSize ||
+      this.bufferBytes >= this.maxBatchBytes
+    );
+  }
+
+  getBufferBytes(): number {
+    return this.bufferBytes;
   }
 
   getBufferSize(): number {
@@ -201,10 +266,143 @@ export class EventProcessor {
     }
   }
 
+  /**
+   * Whether the current session is kept for session replay.
+   * Always true in random mode, where each replay event is sampled on its own.
+   */
+  isSessionSampled(): boolean {
+    if (this.sampler.getMode() === "random") {
+      return true;
+    }
+    return this.sampler.isSampledAt(
+      this.sampler.getRate("session_replay"),
+      this.getSamplingKey()
+    );
+  }
+
+  private getSamplingKey(sessionId: string = this.sessionId): string {
+    return this.sampler.getMode() === "user"
+      ? (this.sessionSamplingKeys.get(sessionId) ?? sessionId)
+      : sessionId;
+  }
+
+  /**
+   * Fix the user mode sampling key of a new session. Sessions started before
+   * identify() fall back to the session ID.
+   */
+  private startSamplingSession(sessionId: string): void {
+    if (this.sessionSamplingKeys.has(sessionId)) {
+      return;
+    }
+    this.sessionSamplingKeys.set(sessionId, this.userId ?? sessionId);
+    // Only events stamped just before a rotation still need the previous key
+    const [oldest] = this.sessionSamplingKeys.keys();
+    if (this.sessionSamplingKeys.size > 2 && oldest !== undefined) {
+      this.sessionSamplingKeys.delete(oldest);
+    }
+  }
+
+  setRedactor(redactor: Redactor | null): void {
+    this.redactor = redactor;
+  }
+
   setState(state: TelemetryState): void {
     this.state = state;
   }
 
+  setSessionId(sessionId: string): void {
+    if (!sessionId || typeof sessionId !== "string") {
+      throw new Error("sessionId is required and must be a string");
+    }
+    this.sessionId = sessionId;
+    this.startSamplingSession(sessionId);
+    this.logger.debug("EventProcessor sessionId updated", { sessionId });
+  }
+
+  setGlobalContext(context: Record<string, unknown>): void {
+    this.globalContext = sanitizePayload(context);
+  }
+
+  getGlobalContext(): Record<string, unknown> {
+    return { ...this.globalContext };
+  }
+
+  /**
+   * Add a context layered over the global one until popContextScope is called
+   */
+  pushContextScope(context: Record<string, unknown>): void {
+    this.contextScopes.push(sanitizePayload(context));
+  }
+
+  popContextScope(): void {
+    this.contextScopes.pop();
+  }
+
+  /**
+   * The global context with the active scopes layered over it
+   */
+  getContext(): Record<string, unknown> {
+    return this.contextScopes.reduce(
+      (merged, scope) => ({ ...merged, ...scope }),
+      { ...this.globalContext }
+    );
+  }
+
+  /**
+   * Merge context into the payload. Payload keys win, and context keys
+   * that would push the payload past MAX_PAYLOAD_KEYS are dropped.
+   */
+  private applyContext(
+    event: TelemetryEvent,
+    context: Record<string, unknown>
+  ): TelemetryEvent {
+    // Replay payloads have a fixed shape the player relies on
+    if (event.eventType === "session_replay") {
+      return event;
+    }
+
+    const contextKeys = Object.keys(context);
+    // Invalid payloads are left for validateEvent to reject
+    if (
+      contextKeys.length === 0 ||
+      !event.payload ||
+      typeof event.payload !== "object"
+    ) {
+      return event;
+    }
+
+    const payload = { ...event.payload };
+    let keyCount = Object.keys(payload).length;
+    const droppedKeys: string[] = [];
+    for (const key of contextKeys) {
+      if (key in payload) {
+        continue;
+      }
+      if (keyCount >= MAX_PAYLOAD_KEYS) {
+        droppedKeys.push(key);
+        continue;
+      }
+      payload[key] = context[key];
+      keyCount++;
+    }
+
+    if (droppedKeys.length > 0) {
+      this.logger.warn("Payload key limit reached, dropping context keys", {
+        eventType: event.eventType,
+        eventName: event.eventName,
+        droppedKeys,
+        maxKeys: MAX_PAYLOAD_KEYS,
+      });
+    }
+
+    return { ...event, payload };
+  }
+
+  setAnonymousId(anonymousId: string): void {
+    this.anonymousId = anonymousId;
+    this.logger.debug("EventProcessor anonymousId updated", { anonymousId });
+  }
+
   setUserId(userId: string): void {
     this.userId = userId;
     this.logger.debug("EventProcessor userId updated", { userId });
@@ -239,6 +437,7 @@ export class EventProcessor {
 
   clear(): void {
     this.buffer = [];
+    this.bufferBytes = 0;
     this.eventQueue = [];
   }
 }
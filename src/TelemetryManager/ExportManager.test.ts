@@ -0,0 +1,206 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { HTTPExporter } from "../exporters";
+import { ExportManager } from "./ExportManager";
+import { createLogger, LogLevel } from "../logger";
+import type { TelemetryEvent, TelemetryExporter } from "../types";
+import type { DeliveryPolicy } from "../types/ExporterTypes";
+import type { EnhancedError } from "./types";
+
+const logger = createLogger({ level: LogLevel.SILENT });
+
+const event: TelemetryEvent = {
+  eventType: "custom",
+  eventName: "checkout",
+  payload: {},
+  timestamp: "2026-01-01T00:00:00.000Z",
+};
+
+const workingExporter: TelemetryExporter = {
+  export: async () => {},
+};
+
+const failingExporter = (retryAfter?: number): TelemetryExporter => ({
+  export: () => {
+    const error: Error & Partial<EnhancedError> = new Error(
+      retryAfter ? "Too Many Requests" : "Service Unavailable"
+    );
+    error.isRetryable = true;
+    if (retryAfter) {
+      error.errorType = "rate_limited";
+      error.retryAfter = retryAfter;
+    }
+    return Promise.reject(error);
+  },
+});
+
+// Records what it accepted, and fails while isDown is set
+class RecordingExporter implements TelemetryExporter {
+  received: TelemetryEvent[] = [];
+  isDown = false;
+
+  async export(events: TelemetryEvent[]): Promise<void> {
+    if (this.isDown) {
+      await failingExporter().export(events);
+    }
+    this.received.push(...events);
+  }
+}
+
+const createExportManager = (exporters: TelemetryExporter[]) => {
+  const manager = new ExportManager(logger, exporters, 1, 1, 1);
+  manager.updateCircuitBreaker(1, 60000, 0.5);
+  return manager;
+};
+
+const createPolicyManager = (
+  exporters: TelemetryExporter[],
+  deliveryPolicy: DeliveryPolicy
+) =>
+  new ExportManager(
+    logger,
+    exporters,
+    1,
+    1,
+    1,
+    undefined,
+    { maxEvents: 50, maxBytes: 100000 },
+    deliveryPolicy
+  );
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("ExportManager", () => {
+  it("keeps the circuit closed while any exporter's is", async () => {
+    const manager = createExportManager([failingExporter(), workingExporter]);
+
+    await manager.flush([event]);
+
+    const [failing, working] = manager.getExporterStates();
+    expect(failing.circuitBreaker.isCircuitOpen).toBe(true);
+    expect(working.circuitBreaker.isCircuitOpen).toBe(false);
+    expect(manager.getCircuitBreakerState()).toMatchObject({
+      isCircuitOpen: false,
+      isHalfOpen: false,
+      consecutiveFailures: failing.circuitBreaker.consecutiveFailures,
+    });
+  });
+
+  it("opens the circuit once every exporter's is open", async () => {
+    const manager = createExportManager([failingExporter(), failingExporter()]);
+
+    await manager.flush([event]);
+
+    expect(manager.getCircuitBreakerState().isCircuitOpen).toBe(true);
+  });
+
+  it("reports a rate limit only while every exporter is paused", async () => {
+    const manager = createExportManager([
+      failingExporter(5000),
+      failingExporter(60000),
+    ]);
+    const before = Date.now();
+
+    await manager.flush([event]);
+
+    const state = manager.getRateLimitState();
+    expect(state.isRateLimited).toBe(true);
+    expect(state.rateLimitCount).toBe(2);
+    // Flushing resumes with the first exporter
+    expect(state.rateLimitedUntil).toBeGreaterThanOrEqual(before + 5000);
+    expect(state.rateLimitedUntil).toBeLessThan(before + 60000);
+  });
+
+  it("sends beacons with the exporter's serializer and content type", async () => {
+    const sendBeacon = vi.fn().mockReturnValue(true);
+    vi.stubGlobal("window", { navigator: { sendBeacon } });
+    const exporter = new HTTPExporter({
+      endpoint: "https://collector.example.com/ingest",
+      contentType: "application/x-ndjson",
+      serializer: events => events.map(e => JSON.stringify(e)).join("\n"),
+    });
+    const manager = createExportManager([exporter]);
+
+    await manager.flush([event], true);
+
+    const [url, body] = sendBeacon.mock.calls[0] as [string, Blob];
+    expect(url).toBe("https://collector.example.com/ingest");
+    expect(body.type).toBe("application/x-ndjson");
+    const lines = (await body.text()).split("\n");
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0])).toMatchObject(event);
+  });
+});
+
+describe("ExportManager delivery policies", () => {
+  it("any: succeeds when one exporter accepts and catches the other up later", async () => {
+    const [primary, secondary] = [
+      new RecordingExporter(),
+      new RecordingExporter(),
+    ];
+    secondary.isDown = true;
+    const manager = createPolicyManager([primary, secondary], "any");
+
+    expect(await manager.flush([event])).toEqual({
+      success: true,
+      shouldReturnToBuffer: false,
+    });
+    expect(manager.getExporterStates()[1].pendingEvents).toBe(1);
+
+    secondary.isDown = false;
+    await manager.flush([{ ...event, eventName: "purchase" }]);
+
+    expect(primary.received.map(e => e.eventName)).toEqual([
+      "checkout",
+      "purchase",
+    ]);
+    expect(secondary.received.map(e => e.eventName)).toEqual([
+      "checkout",
+      "purchase",
+    ]);
+  });
+
+  it("all: fails while a required exporter misses the batch, without rebuffering it", async () => {
+    const [primary, secondary] = [
+      new RecordingExporter(),
+      new RecordingExporter(),
+    ];
+    secondary.isDown = true;
+    const manager = createPolicyManager([primary, secondary], "all");
+
+    expect(await manager.flush([event])).toEqual({
+      success: false,
+      shouldReturnToBuffer: false,
+    });
+    expect(manager.takeUndeliveredEvents()).toHaveLength(1);
+  });
+
+  it("primary: drops events the best-effort exporters miss", async () => {
+    const [primary, secondary] = [
+      new RecordingExporter(),
+      new RecordingExporter(),
+    ];
+    secondary.isDown = true;
+    const manager = createPolicyManager([primary, secondary], "primary");
+
+    expect((await manager.flush([event])).success).toBe(true);
+    expect(manager.getExporterStates()[1].pendingEvents).toBe(0);
+  });
+
+  it("returns the batch to the buffer when no exporter accepts it", async () => {
+    const [primary, secondary] = [
+      new RecordingExporter(),
+      new RecordingExporter(),
+    ];
+    primary.isDown = true;
+    secondary.isDown = true;
+    const manager = createPolicyManager([primary, secondary], "any");
+
+    const result = await manager.flush([event]);
+
+    expect(result.success).toBe(false);
+    expect(result.shouldReturnToBuffer).toBe(true);
+    expect(result.failedEvents).toHaveLength(1);
+  });
+});
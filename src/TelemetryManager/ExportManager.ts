@@ -1,23 +1,41 @@
 import type { TelemetryEvent, TelemetryExporter, Logger } from "../types";
+import type { DeliveryPolicy } from "../types/ExporterTypes";
+import type {
+  BatchLimits,
+  CircuitBreakerState,
+  ExporterChannelState,
+  RateLimitState,
+} from "./types";
 import { CircuitBreaker } from "./CircuitBreaker";
-import {
-  generateEventId,
-  hasNonRetryableError,
-  extractErrorMessages,
-} from "./utils";
+import { RateLimiter } from "./RateLimiter";
+import { EventBatcher } from "./EventBatcher";
+import { ExporterChannel, type DeliveryStatus } from "./ExporterChannel";
+import { generateEventId } from "./utils";
 
 import { SessionReplayExportHandler } from "./SessionReplayExportHandler";
+import {
+  MAX_BATCH_SIZE_BYTES,
+  MAX_BEACON_SIZE_BYTES,
+  MAX_EXPORTER_PENDING_EVENTS,
+} from "../constants";
 
 export class ExportManager {
-  private exporters: TelemetryExporter[] = [];
+  private channels: ExporterChannel[] = [];
   private endpoint?: string;
-  private circuitBreaker: CircuitBreaker;
   private logger: Logger;
   private maxRetries: number;
   private baseRetryDelay: number;
   private maxRetryDelay: number;
   private isFlushing = false;
   private sessionReplayHandler: SessionReplayExportHandler;
+  private batchLimits: BatchLimits;
+  private deliveryPolicy: DeliveryPolicy;
+  private maxPendingEvents: number;
+  private circuitBreakerSettings?: {
+    maxFailures: number;
+    timeout: number;
+    failureThreshold: number;
+  };
 
   constructor(
     logger: Logger,
@@ -25,20 +43,89 @@ export class ExportManager {
     maxRetries: number = 5, // Increased from 3
     baseRetryDelay: number = 1000, // Base delay for exponential backoff
     maxRetryDelay: number = 30000, // Maximum delay cap
-    endpoint?: string
+    endpoint?: string,
+    batchLimits: BatchLimits = {
+      maxEvents: 50,
+      maxBytes: MAX_BATCH_SIZE_BYTES,
+    },
+    deliveryPolicy: DeliveryPolicy = "any", // Which exporters must accept a batch
+    maxPendingEvents: number = MAX_EXPORTER_PENDING_EVENTS // Per exporter, while others deliver
   ) {
     this.logger = logger;
-    this.exporters = exporters;
     if (endpoint) {
       this.endpoint = endpoint;
     }
     this.maxRetries = maxRetries;
     this.baseRetryDelay = baseRetryDelay;
     this.maxRetryDelay = maxRetryDelay;
-    this.circuitBreaker = new CircuitBreaker(logger);
+    this.batchLimits = batchLimits;
+    this.deliveryPolicy = deliveryPolicy;
+    this.maxPendingEvents = maxPendingEvents;
+    this.channels = this.createChannels(exporters);
     this.sessionReplayHandler = new SessionReplayExportHandler(logger);
   }
 
+  private createChannels(exporters: TelemetryExporter[]): ExporterChannel[] {
+    return exporters.map((exporter, index) => {
+      const isPrimary = index === 0;
+      const channel = new ExporterChannel(this.logger, exporter, {
+        ...(this.endpoint && { endpoint: this.endpoint }),
+        maxRetries: this.maxRetries,
+        baseRetryDelay: this.baseRetryDelay,
+        maxRetryDelay: this.maxRetryDelay,
+        maxPendingEvents: this.maxPendingEvents,
+        isRequired:
+          this.deliveryPolicy === "all" ||
+          (this.deliveryPolicy === "primary" && isPrimary),
+        isBestEffort: this.deliveryPolicy === "primary" && !isPrimary,
+      });
+      if (this.circuitBreakerSettings) {
+        const { maxFailures, timeout, failureThreshold } =
+          this.circuitBreakerSettings;
+        channel.updateCircuitBreaker(maxFailures, timeout, failureThreshold);
+      }
+      return channel;
+    });
+  }
+
+  /**
+   * Apply the delivery policy to one batch: events no exporter took go back to
+   * the buffer, events only some exporters took wait in the others' pending queues
+   */
+  private settle(
+    events: TelemetryEvent[],
+    statuses: DeliveryStatus[]
+  ): { success: boolean; shouldReturnToBuffer: boolean } {
+    if (!statuses.includes("delivered")) {
+      return { success: false, shouldReturnToBuffer: true };
+    }
+
+    this.channels.forEach((channel, index) => {
+      if (statuses[index] === "failed") {
+        channel.hold(events);
+      }
+    });
+
+    const success = this.channels.every(
+      (channel, index) => !channel.isRequired || statuses[index] === "delivered"
+    );
+    if (!success) {
+      this.logger.warn("Batch not delivered to every required exporter", {
+        deliveryPolicy: this.deliveryPolicy,
+        eventCount: events.length,
+        exporters: this.channels.map((channel, index) => ({
+          exporter: channel.name,
+          status: statuses[index],
+        })),
+      });
+    }
+    return { success, shouldReturnToBuffer: false };
+  }
+
+  private hasAvailableChannel(): boolean {
+    return this.channels.some(channel => channel.isAvailable());
+  }
+
   /**
    * Flush events using sendBeacon for critical shutdown scenarios
    */
@@ -57,84 +144,54 @@ export class ExportManager {
 
     try {
       // Try to send to each exporter endpoint
-      let anySuccess = false;
-
-      for (const exporter of this.exporters) {
+      const statuses = this.channels.map((channel): DeliveryStatus => {
+        const { exporter } = channel;
+        // Events the exporter missed earlier go out with this beacon
+        const pending = channel.takePending();
+        const beaconEvents = pending.length ? [...pending, ...events] : events;
         try {
           // Resolve endpoint via exporter hook (no hardcoding)
           const endpoint = exporter.getEndpoint
             ? exporter.getEndpoint(this.endpoint)
             : this.endpoint;
           if (!endpoint) {
-            continue;
+            // Nowhere to send beacons to, the exporter can't take these events
+            channel.hold(pending);
+            return "rejected";
           }
 
-          // Create payload via exporter hook (no hardcoding)
-          const payloadUnknown = exporter.transformPayload
-            ? exporter.transformPayload(events, true)
-            : { events };
-          const payload = payloadUnknown as { events?: unknown[] };
-
-          // Handle size limits (64KB for sendBeacon)
-          const payloadString = JSON.stringify(payloadUnknown);
-          if (payloadString.length > 64 * 1024) {
-            // Truncate events to fit within beacon limit
-            const truncatedEvents = events.slice(
-              0,
-              Math.floor(events.length / 2)
-            );
-            const truncatedUnknown = exporter.transformPayload
-              ? exporter.transformPayload(truncatedEvents, true)
-              : { events: truncatedEvents };
-            const truncatedPayload = truncatedUnknown as { events?: unknown[] };
-            payload.events = truncatedPayload.events || [];
-          }
-
-          // Log the beacon payload for debugging
-          this.logger.debug("Sending beacon payload", {
-            endpoint,
-            payloadSize: JSON.stringify(payloadUnknown).length,
-            payloadPreview:
-              JSON.stringify(payloadUnknown).substring(0, 200) + "...",
-          });
-
-          const success = window.navigator.sendBeacon(
-            endpoint,
-            new Blob([JSON.stringify(payloadUnknown)], {
-              type: "application/json",
-            })
-          );
-
-          if (success) {
-            anySuccess = true;
+          // Let exporters with their own beacon delivery handle it, otherwise
+          // split so every beacon fits the size limit instead of dropping events
+          const queued = exporter.exportWithBeacon
+            ? exporter.exportWithBeacon(beaconEvents, this.endpoint)
+            : this.sendBeacons(exporter, endpoint, beaconEvents);
+          if (queued) {
             this.logger.debug("Events sent successfully via sendBeacon", {
               endpoint,
-              eventCount: events.length,
-              payloadSize: JSON.stringify(payloadUnknown).length,
-            });
-          } else {
-            this.logger.warn("sendBeacon returned false", {
-              endpoint,
-              eventCount: events.length,
+              eventCount: beaconEvents.length,
             });
+            return "delivered";
           }
+          this.logger.warn("sendBeacon returned false", {
+            endpoint,
+            eventCount: beaconEvents.length,
+          });
         } catch (error) {
           this.logger.debug("sendBeacon failed for exporter", {
             exporterType: exporter.constructor.name,
             error: error instanceof Error ? error.message : String(error),
           });
         }
-      }
+        channel.hold(pending);
+        return "failed";
+      });
 
-      if (anySuccess) {
-        this.circuitBreaker.recordSuccess();
-        return { success: true, shouldReturnToBuffer: false };
-      } else {
+      if (!statuses.includes("delivered")) {
         this.logger.warn(
           "sendBeacon failed for all exporters, returning to buffer"
         );
-        return { success: false, shouldReturnToBuffer: true };
       }
+      return this.settle(events, statuses);
     } catch (error) {
       this.logger.error("sendBeacon flush failed", {
         error: error instanceof Error ? error.message : String(error),
@@ -144,22 +201,91 @@ export class ExportManager {
     }
   }
 
-  private calculateRetryDelay(attempt: number): number {
-    // Exponential backoff with jitter
-    const exponentialDelay = Math.min(
-      this.baseRetryDelay * Math.pow(2, attempt - 1),
-      this.maxRetryDelay
-    );
+  /**
+   * Queue events as beacons that each fit the sendBeacon size limit
+   * @returns true if every beacon was queued by the browser
+   */
+  private sendBeacons(
+    exporter: TelemetryExporter,
+    endpoint: string,
+    events: TelemetryEvent[]
+  ): boolean {
+    const limits: BatchLimits = {
+      maxEvents: this.batchLimits.maxEvents,
+      maxBytes: MAX_BEACON_SIZE_BYTES,
+    };
+    return EventBatcher.split(events, limits)
+      .map(batch => this.sendBeacon(exporter, endpoint, batch))
+      .every(Boolean);
+  }
 
-    // Add jitter (±25%) to prevent thundering herd
-    const jitter = exponentialDelay * 0.25 * (Math.random() - 0.5);
-    return Math.max(100, exponentialDelay + jitter);
+  /**
+   * Queue one beacon, halving the batch while its body is over the limit
+   */
+  private sendBeacon(
+    exporter: TelemetryExporter,
+    endpoint: string,
+    events: TelemetryEvent[]
+  ): boolean {
+    // Create payload via exporter hook (no hardcoding)
+    const payload = exporter.transformPayload
+      ? exporter.transformPayload(events, true)
+      : { events };
+    // Exporters with their own serializer hand over the body as is
+    const payloadString =
+      typeof payload === "string" ? payload : JSON.stringify(payload);
+    // sendBeacon cannot set Content-Encoding, so beacons are never compressed
+    const body = new Blob([payloadString], {
+      type: exporter.contentType ?? "application/json",
+    });
+
+    if (body.size > MAX_BEACON_SIZE_BYTES) {
+      if (events.length === 1) {
+        this.logger.warn("Event exceeds the sendBeacon size limit", {
+          endpoint,
+          eventType: events[0].eventType,
+          eventName: events[0].eventName,
+          payloadSize: body.size,
+        });
+        return false;
+      }
+      const middle = Math.ceil(events.length / 2);
+      const firstQueued = this.sendBeacon(
+        exporter,
+        endpoint,
+        events.slice(0, middle)
+      );
+      const secondQueued = this.sendBeacon(
+        exporter,
+        endpoint,
+        events.slice(middle)
+      );
+      return firstQueued && secondQueued;
+    }
+
+    // Log the beacon payload for debugging
+    this.logger.debug("Sending beacon payload", {
+      endpoint,
+      eventCount: events.length,
+      payloadSize: body.size,
+      payloadPreview: payloadString.substring(0, 200) + "...",
+    });
+
+    return window.navigator.sendBeacon(endpoint, body);
   }
 
+  /**
+   * Export events, normal events in batches cut at the byte and count budgets
+   * @returns failedEvents lists the events to return to the buffer when only some batches failed
+   */
   async flush(
     events: TelemetryEvent[],
     useBeacon: boolean = false
-  ): Promise<{ success: boolean; shouldReturnToBuffer: boolean }> {
+  ): Promise<{
+    success: boolean;
+    shouldReturnToBuffer: boolean;
+    failedEvents?: TelemetryEvent[];
+  }> {
     if (!events.length) {
       this.logger.debug("No events to flush");
       return { success: true, shouldReturnToBuffer: false };
@@ -167,14 +293,17 @@ export class ExportManager {
 
     if (this.isFlushing) {
       this.logger.debug("Flush already in progress, skipping");
-      return { success: false, shouldReturnToBuffer: false };
+      return { success: false, shouldReturnToBuffer: true };
     }
 
-    // Check circuit breaker
-    if (this.circuitBreaker.isOpen()) {
-      this.logger.warn("Circuit breaker is open, skipping flush", {
-        consecutiveFailures: this.circuitBreaker.getState().consecutiveFailures,
-        lastFailureTime: this.circuitBreaker.getState().lastFailureTime,
+    // Skip when every exporter is behind an open circuit or a rate limit pause
+    if (this.channels.length > 0 && !this.hasAvailableChannel()) {
+      this.logger.warn("No exporter is accepting events, skipping flush", {
+        exporters: this.getExporterStates().map(state => ({
+          exporter: state.exporter,
+          isCircuitOpen: state.circuitBreaker.isCircuitOpen,
+          rateLimitedUntil: state.rateLimit.rateLimitedUntil,
+        })),
       });
       return { success: false, shouldReturnToBuffer: true }; // Return to buffer instead of dropping
     }
@@ -183,6 +312,15 @@ export class ExportManager {
     const startTime = Date.now();
 
     try {
+      // Exporters that missed earlier batches catch up before new events
+      if (!useBeacon) {
+        await Promise.all(
+          this.channels.map(channel =>
+            channel.retryPending(this.batchLimits, startTime)
+          )
+        );
+      }
+
       // Separate session replay events from normal events
       const sessionReplayEvents = events.filter(
         e => e.eventType === "session_replay"
@@ -193,7 +331,7 @@ export class ExportManager {
         eventCount: events.length,
         sessionReplayEvents: sessionReplayEvents.length,
         normalEvents: normalEvents.length,
-        exporters: this.exporters.length,
+        exporters: this.channels.length,
         method: useBeacon ? "sendBeacon" : "fetch",
       });
 
@@ -207,16 +345,27 @@ export class ExportManager {
           event_id: event.event_id || generateEventId(),
         }));
 
-        let result;
-        if (useBeacon) {
-          result = this.flushWithBeacon(eventsWithIds);
-        } else {
-          result = await this.flushBatch(eventsWithIds, 0, startTime);
-        }
+        // Beacons are split per exporter, as payloads differ between exporters
+        const batches = useBeacon
+          ? [eventsWithIds]
+          : EventBatcher.split(eventsWithIds, this.batchLimits);
+        for (const batch of batches) {
+          let result;
+          if (useBeacon) {
+            result = this.flushWithBeacon(batch);
+          } else if (!this.hasAvailableChannel()) {
+            // Once every exporter is unavailable the remaining batches wait for the next flush
+            result = { success: false, shouldReturnToBuffer: true };
+          } else {
+            result = await this.flushBatch(batch, startTime);
+          }
 
-        if (!result.success && result.shouldReturnToBuffer) {
-          eventsToReturnToBuffer.push(...normalEvents);
-          allEventsSuccessful = false;
+          if (!result.success) {
+            allEventsSuccessful = false;
+          }
+          if (result.shouldReturnToBuffer) {
+            eventsToReturnToBuffer.push(...batch);
+          }
         }
       }
 
@@ -231,9 +380,9 @@ export class ExportManager {
           );
 
         if (!sessionReplayResult.success) {
-          eventsToReturnToBuffer.push(...sessionReplayResult.failedEvents);
           allEventsSuccessful = false;
         }
+        eventsToReturnToBuffer.push(...sessionReplayResult.failedEvents);
       }
 
       if (eventsToReturnToBuffer.length > 0) {
@@ -242,7 +391,11 @@ export class ExportManager {
           failedEvents: eventsToReturnToBuffer.length,
           successfulEvents: events.length - eventsToReturnToBuffer.length,
         });
-        return { success: false, shouldReturnToBuffer: true };
+        return {
+          success: false,
+          shouldReturnToBuffer: true,
+          failedEvents: eventsToReturnToBuffer,
+        };
       }
 
       return { success: allEventsSuccessful, shouldReturnToBuffer: false };
@@ -251,113 +404,154 @@ export class ExportManager {
     }
   }
 
+  /**
+   * Export one batch to every exporter concurrently, each with its own retries
+   */
   private async flushBatch(
     events: TelemetryEvent[],
-    retries: number,
     startTime: number
   ): Promise<{ success: boolean; shouldReturnToBuffer: boolean }> {
-    let lastErrors: unknown[] = [];
-
-    while (retries < this.maxRetries) {
-      const results = await Promise.all(
-        this.exporters.map(async exporter => {
-          try {
-            await exporter.export(events, this.endpoint);
-            return { success: true };
-          } catch (error) {
-            return { success: false, error };
-          }
-        })
-      );
+    const statuses = await Promise.all(
+      this.channels.map(channel => channel.deliver(events, startTime))
+    );
 
-      const anySuccess = results.some(r => r.success);
-      lastErrors = results.filter(r => !r.success).map(r => r.error);
-
-      if (anySuccess) {
-        this.circuitBreaker.recordSuccess();
-        this.logger.info(
-          "Batch exported successfully to at least one exporter",
-          {
-            eventCount: events.length,
-            retries,
-            duration: Date.now() - startTime,
-          }
-        );
-        return { success: true, shouldReturnToBuffer: false };
-      } else {
-        // Check if any errors are non-retryable
-        if (hasNonRetryableError(lastErrors)) {
-          this.logger.error(
-            "Non-retryable error encountered, stopping retries",
-            {
-              eventCount: events.length,
-              retries,
-              errors: extractErrorMessages(lastErrors),
-            }
-          );
-          return { success: false, shouldReturnToBuffer: true };
-        }
+    if (!statuses.includes("delivered")) {
+      this.logger.error("Batch not delivered to any exporter", {
+        eventCount: events.length,
+        totalDuration: Date.now() - startTime,
+      });
+    }
+    return this.settle(events, statuses);
+  }
 
-        retries++;
-        this.circuitBreaker.recordFailure();
+  isFlushInProgress(): boolean {
+    return this.isFlushing;
+  }
 
-        const errorMessages = lastErrors.map(e =>
-          e instanceof Error ? e.message : String(e)
-        );
+  setExporters(exporters: TelemetryExporter[]): void {
+    this.channels = this.createChannels(exporters);
+  }
 
-        this.logger.error("Failed to export batch to all exporters", {
-          eventCount: events.length,
-          retry: retries,
-          maxRetries: this.maxRetries,
-          consecutiveFailures:
-            this.circuitBreaker.getState().consecutiveFailures,
-          errors: errorMessages,
-          duration: Date.now() - startTime,
-        });
+  /**
+   * Circuit breaker state across exporters. The circuit counts as open while
+   * every exporter's is open and half-open once none is closed and some are
+   * testing again. Failures and failure time are the worst, attempts the sum.
+   * See getExporterStates for each exporter.
+   */
+  getCircuitBreakerState(): CircuitBreakerState {
+    const states = this.channels.map(
+      channel => channel.getState().circuitBreaker
+    );
+    if (states.length === 0) {
+      return new CircuitBreaker(this.logger).getState();
+    }
+    const isCircuitOpen = states.every(state => state.isCircuitOpen);
+    return {
+      ...states[0],
+      consecutiveFailures: Math.max(
+        ...states.map(state => state.consecutiveFailures)
+      ),
+      totalAttempts: states.reduce(
+        (sum, state) => sum + state.totalAttempts,
+        0
+      ),
+      lastFailureTime: Math.max(...states.map(state => state.lastFailureTime)),
+      isCircuitOpen,
+      isHalfOpen:
+        !isCircuitOpen &&
+        states.every(state => state.isCircuitOpen || state.isHalfOpen),
+    };
+  }
 
-        if (retries < this.maxRetries) {
-          const delay = this.calculateRetryDelay(retries);
-          this.logger.debug("Waiting before retry", {
-            delay,
-            retry: retries,
-            maxRetries: this.maxRetries,
-          });
+  /**
+   * Whether every exporter is paused by a rate limit
+   */
+  isRateLimited(): boolean {
+    return (
+      this.channels.length > 0 &&
+      this.channels.every(channel => channel.isRateLimited())
+    );
+  }
 
-          await new Promise(resolve => setTimeout(resolve, delay));
-        } else {
-          // Always return events to buffer on final failure unless circuit breaker is open
-          const isCircuitOpen = this.circuitBreaker.isOpen();
-          if (!isCircuitOpen) {
-            this.logger.error(
-              "Max retries exceeded, batch returned to buffer",
-              {
-                eventCount: events.length,
-                totalDuration: Date.now() - startTime,
-              }
-            );
-            return { success: false, shouldReturnToBuffer: true };
-          } else {
-            this.logger.error(
-              "Max retries exceeded, circuit breaker open, batch returned to buffer",
-              {
-                eventCount: events.length,
-                totalDuration: Date.now() - startTime,
-              }
-            );
-            return { success: false, shouldReturnToBuffer: true };
-          }
-        }
-      }
+  /**
+   * Rate limit state across exporters, the same as isRateLimited: paused while
+   * every exporter is, until the first of them resumes. Otherwise
+   * rateLimitedUntil is the latest pause end. Counts are summed.
+   * See getExporterStates for each exporter.
+   */
+  getRateLimitState(): RateLimitState {
+    const states = this.channels.map(channel => channel.getState().rateLimit);
+    if (states.length === 0) {
+      return new RateLimiter(this.logger).getState();
     }
-    return { success: false, shouldReturnToBuffer: false };
+    const isRateLimited = this.isRateLimited();
+    const untils = states.map(state => state.rateLimitedUntil);
+    return {
+      isRateLimited,
+      rateLimitedUntil: isRateLimited
+        ? Math.min(...untils)
+        : Math.max(...untils),
+      lastRetryAfter: Math.max(...states.map(state => state.lastRetryAfter)),
+      rateLimitCount: states.reduce(
+        (sum, state) => sum + state.rateLimitCount,
+        0
+      ),
+    };
   }
 
-  setExporters(exporters: TelemetryExporter[]): void {
-    this.exporters = exporters;
+  /**
+   * URLs the exporters send to
+   */
+  getEndpoints(): string[] {
+    return this.channels
+      .map(({ exporter }) =>
+        exporter.getEndpoint
+          ? exporter.getEndpoint(this.endpoint)
+          : this.endpoint
+      )
+      .filter((endpoint): endpoint is string => !!endpoint);
   }
 
-  getCircuitBreakerState() {
-    return this.circuitBreaker.getState();
+  getExporterStates(): ExporterChannelState[] {
+    return this.channels.map(channel => channel.getState());
+  }
+
+  /**
+   * Remove and return the events required exporters have yet to receive, so
+   * they can be persisted on shutdown
+   */
+  takeUndeliveredEvents(): TelemetryEvent[] {
+    const undelivered = this.getUndeliveredEvents();
+    this.channels.forEach(channel => {
+      if (channel.isRequired) {
+        channel.takePending();
+      }
+    });
+    return undelivered;
+  }
+
+  /**
+   * The events required exporters have yet to receive. Events pending for
+   * several exporters are returned once.
+   */
+  getUndeliveredEvents(): TelemetryEvent[] {
+    const seen = new Set<string>();
+    const undelivered: TelemetryEvent[] = [];
+    for (const channel of this.channels) {
+      if (!channel.isRequired) {
+        continue;
+      }
+      for (const event of channel.getPending()) {
+        if (event.event_id && seen.has(event.event_id)) {
+          continue;
+        }
+        if (event.event_id) {
+          seen.add(event.event_id);
+        }
+        undelivered.push(event);
+      }
+    }
+    return undelivered;
   }
 
   updateCircuitBreaker(
@@ -366,11 +560,17 @@ export class ExportManager {
     failureThreshold?: number
   ): void {
     if (maxFailures || timeout || failureThreshold) {
-      this.circuitBreaker = new CircuitBreaker(
-        this.logger,
-        maxFailures ?? 10,
-        timeout ?? 60000,
-        failureThreshold ?? 0.5
+      this.circuitBreakerSettings = {
+        maxFailures: maxFailures ?? 10,
+        timeout: timeout ?? 60000,
+        failureThreshold: failureThreshold ?? 0.5,
+      };
+      this.channels.forEach(channel =>
+        channel.updateCircuitBreaker(
+          maxFailures ?? 10,
+          timeout ?? 60000,
+          failureThreshold ?? 0.5
+        )
       );
     }
   }
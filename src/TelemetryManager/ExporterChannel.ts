@@ -0,0 +1,281 @@
+import type { TelemetryEvent, TelemetryExporter, Logger } from "../types";
+import type {
+  BatchLimits,
+  ExporterChannelOptions,
+  ExporterChannelState,
+} from "./types";
+import { CircuitBreaker } from "./CircuitBreaker";
+import { RateLimiter } from "./RateLimiter";
+import { EventBatcher } from "./EventBatcher";
+import {
+  isRetryableError,
+  extractErrorMessages,
+  extractRetryAfter,
+} from "./utils";
+
+// delivered: the exporter accepted the events
+// failed: worth retrying later (outage, open circuit, rate limit)
+// rejected: the exporter will never accept them
+export type DeliveryStatus = "delivered" | "failed" | "rejected";
+
+/**
+ * Delivers events to a single exporter with its own circuit breaker, rate
+ * limit pause, retry budget and queue of events it still has to receive
+ */
+export class ExporterChannel {
+  readonly exporter: TelemetryExporter;
+  readonly name: string;
+  readonly isRequired: boolean;
+  readonly isBestEffort: boolean;
+  private logger: Logger;
+  private endpoint: string | undefined;
+  private maxRetries: number;
+  private baseRetryDelay: number;
+  private maxRetryDelay: number;
+  private maxPendingEvents: number;
+  private circuitBreaker: CircuitBreaker;
+  private rateLimiter: RateLimiter;
+  private pending: TelemetryEvent[] = [];
+
+  constructor(
+    logger: Logger,
+    exporter: TelemetryExporter,
+    options: ExporterChannelOptions
+  ) {
+    // Validate parameters
+    if (options.maxPendingEvents < 0) {
+      throw new Error("maxPendingEvents must be non-negative");
+    }
+
+    this.logger = logger;
+    this.exporter = exporter;
+    this.name = exporter.name ?? exporter.constructor.name;
+    this.endpoint = options.endpoint;
+    this.maxRetries = options.maxRetries;
+    this.baseRetryDelay = options.baseRetryDelay;
+    this.maxRetryDelay = options.maxRetryDelay;
+    this.maxPendingEvents = options.maxPendingEvents;
+    this.isRequired = options.isRequired;
+    this.isBestEffort = options.isBestEffort;
+    this.circuitBreaker = new CircuitBreaker(logger);
+    this.rateLimiter = new RateLimiter(logger);
+  }
+
+  /**
+   * Whether the exporter is neither behind an open circuit nor paused by a rate limit
+   */
+  isAvailable(): boolean {
+    return !this.circuitBreaker.isOpen() && !this.rateLimiter.isLimited();
+  }
+
+  isRateLimited(): boolean {
+    return this.rateLimiter.isLimited();
+  }
+
+  /**
+   * Export events, retrying within this exporter's budget
+   */
+  async deliver(
+    events: TelemetryEvent[],
+    startTime: number
+  ): Promise<DeliveryStatus> {
+    if (!this.isAvailable()) {
+      this.logger.debug("Exporter unavailable, batch not sent", {
+        exporter: this.name,
+        eventCount: events.length,
+        isCircuitOpen: this.circuitBreaker.getState().isCircuitOpen,
+        isRateLimited: this.rateLimiter.getState().isRateLimited,
+      });
+      return "failed";
+    }
+
+    const attempts = this.isBestEffort ? 1 : Math.max(1, this.maxRetries);
+    let retries = 0;
+
+    while (retries < attempts) {
+      try {
+        await this.exporter.export(events, this.endpoint);
+        this.circuitBreaker.recordSuccess();
+        this.rateLimiter.recordSuccess();
+        this.logger.info("Batch exported successfully", {
+          exporter: this.name,
+          eventCount: events.length,
+          retries,
+          duration: Date.now() - startTime,
+        });
+        return "delivered";
+      } catch (error) {
+        // Throttling is not an outage, wait as long as the server asked without tripping the breaker
+        const retryAfter = extractRetryAfter([error], this.maxRetryDelay);
+        if (retryAfter !== undefined) {
+          this.rateLimiter.recordRateLimit(retryAfter);
+          this.logger.warn("Batch rate limited", {
+            exporter: this.name,
+            eventCount: events.length,
+            retries,
+            retryAfter,
+            errors: extractErrorMessages([error]),
+          });
+          return "failed";
+        }
+
+        // Check if the error is non-retryable
+        if (!isRetryableError(error)) {
+          this.logger.error(
+            "Non-retryable error encountered, stopping retries",
+            {
+              exporter: this.name,
+              eventCount: events.length,
+              retries,
+              errors: extractErrorMessages([error]),
+            }
+          );
+          return "rejected";
+        }
+
+        retries++;
+        this.circuitBreaker.recordFailure();
+
+        this.logger.error("Failed to export batch", {
+          exporter: this.name,
+          eventCount: events.length,
+          retry: retries,
+          maxRetries: attempts,
+          consecutiveFailures:
+            this.circuitBreaker.getState().consecutiveFailures,
+          errors: extractErrorMessages([error]),
+          duration: Date.now() - startTime,
+        });
+
+        if (retries < attempts && !this.circuitBreaker.isOpen()) {
+          const delay = this.calculateRetryDelay(retries);
+          this.logger.debug("Waiting before retry", {
+            exporter: this.name,
+            delay,
+            retry: retries,
+            maxRetries: attempts,
+          });
+
+          await new Promise(resolve => setTimeout(resolve, delay));
+        } else {
+          break;
+        }
+      }
+    }
+
+    this.logger.error("Max retries exceeded for exporter", {
+      exporter: this.name,
+      eventCount: events.length,
+      totalDuration: Date.now() - startTime,
+    });
+    return "failed";
+  }
+
+  /**
+   * Keep events this exporter missed, to send ahead of new events on the next flush
+   */
+  hold(events: TelemetryEvent[]): void {
+    if (events.length === 0) {
+      return;
+    }
+    if (this.isBestEffort) {
+      this.logger.debug("Best-effort exporter missed events, dropping them", {
+        exporter: this.name,
+        eventCount: events.length,
+      });
+      return;
+    }
+
+    this.pending.push(...events);
+    const overflow = this.pending.length - this.maxPendingEvents;
+    if (overflow > 0) {
+      this.pending.splice(0, overflow);
+      this.logger.warn("Pending events for exporter exceeded limit", {
+        exporter: this.name,
+        droppedEvents: overflow,
+        maxPendingEvents: this.maxPendingEvents,
+      });
+    }
+  }
+
+  /**
+   * Send events held from earlier flushes, keeping whatever still fails
+   */
+  async retryPending(limits: BatchLimits, startTime: number): Promise<void> {
+    if (this.pending.length === 0 || !this.isAvailable()) {
+      return;
+    }
+
+    const events = this.takePending();
+    this.logger.debug("Retrying pending events for exporter", {
+      exporter: this.name,
+      eventCount: events.length,
+    });
+
+    const batches = EventBatcher.split(events, limits);
+    for (let i = 0; i < batches.length; i++) {
+      const status = await this.deliver(batches[i], startTime);
+      if (status === "rejected") {
+        this.logger.warn("Exporter rejected pending events, dropping them", {
+          exporter: this.name,
+          eventCount: batches[i].length,
+        });
+      } else if (status === "failed") {
+        this.hold(batches.slice(i).flat());
+        return;
+      }
+    }
+  }
+
+  /**
+   * The events this exporter still has to receive
+   */
+  getPending(): TelemetryEvent[] {
+    return [...this.pending];
+  }
+
+  /**
+   * Remove and return the events this exporter still has to receive
+   */
+  takePending(): TelemetryEvent[] {
+    const events = this.pending;
+    this.pending = [];
+    return events;
+  }
+
+  updateCircuitBreaker(
+    maxFailures: number,
+    timeout: number,
+    failureThreshold: number
+  ): void {
+    this.circuitBreaker = new CircuitBreaker(
+      this.logger,
+      maxFailures,
+      timeout,
+      failureThreshold
+    );
+  }
+
+  getState(): ExporterChannelState {
+    return {
+      exporter: this.name,
+      isRequired: this.isRequired,
+      isBestEffort: this.isBestEffort,
+      pendingEvents: this.pending.length,
+      circuitBreaker: this.circuitBreaker.getState(),
+      rateLimit: this.rateLimiter.getState(),
+    };
+  }
+
+  private calculateRetryDelay(attempt: number): number {
+    // Exponential backoff with jitter
+    const exponentialDelay = Math.min(
+      this.baseRetryDelay * Math.pow(2, attempt - 1),
+      this.maxRetryDelay
+    );
+
+    // Add jitter (±25%) to prevent thundering herd
+    const jitter = exponentialDelay * 0.25 * (Math.random() - 0.5);
+    return Math.max(100, exponentialDelay + jitter);
+  }
+}
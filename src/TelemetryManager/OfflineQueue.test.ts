@@ -0,0 +1,138 @@
+import { describe, it, expect } from "vitest";
+import { OfflineQueue } from "./OfflineQueue";
+import { createLogger, LogLevel } from "../logger";
+import type { EventStorage, PersistedBatch, TelemetryEvent } from "../types";
+
+const logger = createLogger({ level: LogLevel.SILENT });
+
+// Survives queue instances, like IndexedDB or a file survives a restart
+class MemoryStorage implements EventStorage {
+  batches: PersistedBatch[] = [];
+
+  isSupported(): boolean {
+    return true;
+  }
+
+  load(): Promise<PersistedBatch[]> {
+    return Promise.resolve(this.batches.map(batch => ({ ...batch })));
+  }
+
+  save(batch: PersistedBatch): Promise<void> {
+    this.batches = this.batches.filter(existing => existing.id !== batch.id);
+    this.batches.push(batch);
+    return Promise.resolve();
+  }
+
+  remove(ids: string[]): Promise<void> {
+    this.batches = this.batches.filter(batch => !ids.includes(batch.id));
+    return Promise.resolve();
+  }
+
+  clear(): Promise<void> {
+    this.batches = [];
+    return Promise.resolve();
+  }
+}
+
+const createEvents = (count: number, prefix = "event"): TelemetryEvent[] =>
+  Array.from({ length: count }, (_, index) => ({
+    eventType: "custom",
+    eventName: `${prefix}_${index}`,
+    payload: {},
+    timestamp: new Date().toISOString(),
+  }));
+
+const eventNames = (batches: PersistedBatch[]): string[] =>
+  batches.flatMap(batch => batch.events.map(event => event.eventName));
+
+describe("OfflineQueue", () => {
+  it("keeps replayed batches persisted until they are acknowledged", async () => {
+    const storage = new MemoryStorage();
+    const queue = new OfflineQueue(logger, storage);
+    await queue.persist(createEvents(3));
+
+    const replayed = await queue.peek();
+    expect(eventNames(replayed)).toEqual(["event_0", "event_1", "event_2"]);
+    expect(storage.batches).toHaveLength(1);
+
+    await queue.acknowledge(replayed.map(batch => batch.id));
+    expect(storage.batches).toHaveLength(0);
+    expect(queue.hasPendingEvents()).toBe(false);
+  });
+
+  it("replays the batches again after a crash mid-flush", async () => {
+    const storage = new MemoryStorage();
+    await new OfflineQueue(logger, storage).persist(createEvents(2));
+
+    // The process dies after the batches were read but before the export settled
+    const crashed = new OfflineQueue(logger, storage);
+    await crashed.refreshPendingCount();
+    await crashed.peek();
+
+    const restarted = new OfflineQueue(logger, storage);
+    expect(await restarted.refreshPendingCount()).toBe(2);
+    expect(eventNames(await restarted.peek())).toEqual(["event_0", "event_1"]);
+  });
+
+  it("skips batches another flush is replaying until they are released", async () => {
+    const queue = new OfflineQueue(logger, new MemoryStorage());
+    await queue.persist(createEvents(1));
+
+    const first = await queue.peek();
+    expect(await queue.peek()).toEqual([]);
+
+    queue.release(first.map(batch => batch.id));
+    expect(eventNames(await queue.peek())).toEqual(["event_0"]);
+  });
+
+  it("replaces replayed batches with the events that are still undelivered", async () => {
+    const storage = new MemoryStorage();
+    const queue = new OfflineQueue(logger, storage);
+    await queue.persist(createEvents(3, "old"));
+
+    const replayed = await queue.peek();
+    await queue.persist(
+      createEvents(1, "retry"),
+      replayed.map(batch => batch.id)
+    );
+
+    expect(eventNames(storage.batches)).toEqual(["retry_0"]);
+    expect(queue.getPendingEventsCount()).toBe(1);
+  });
+
+  it("drops expired batches instead of replaying them", async () => {
+    const storage = new MemoryStorage();
+    const queue = new OfflineQueue(logger, storage, 1000);
+    await queue.persist(createEvents(1));
+    storage.batches[0].createdAt -= 2000;
+
+    expect(await queue.peek()).toEqual([]);
+    expect(storage.batches).toHaveLength(0);
+  });
+
+  it("evicts the oldest batches beyond maxBytes", async () => {
+    const storage = new MemoryStorage();
+    const queue = new OfflineQueue(logger, storage, undefined, 1024);
+    await queue.persist(createEvents(8, "first"));
+    await queue.persist(createEvents(8, "second"));
+
+    expect(eventNames(storage.batches)).toEqual(
+      createEvents(8, "second").map(event => event.eventName)
+    );
+  });
+
+  it("measures batches in bytes, not characters", async () => {
+    const storage = new MemoryStorage();
+    const queue = new OfflineQueue(logger, storage);
+    const events = createEvents(1).map(event => ({
+      ...event,
+      payload: { note: "€".repeat(100) },
+    }));
+
+    await queue.persist(events);
+
+    expect(storage.batches[0].size).toBe(
+      new TextEncoder().encode(JSON.stringify(events)).length
+    );
+  });
+});
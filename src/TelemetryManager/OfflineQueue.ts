@@ -0,0 +1,256 @@
+import type {
+  TelemetryEvent,
+  Logger,
+  EventStorage,
+  PersistedBatch,
+} from "../types";
+import { utf8Length } from "./EventBatcher";
+
+export class OfflineQueue {
+  private storage: EventStorage;
+  private logger: Logger;
+  private ttl: number;
+  private maxBytes: number;
+  private pendingEvents = 0;
+  // Replayed batches awaiting acknowledge, with their event counts
+  private inFlight = new Map<string, number>();
+  // Serializes storage access so persist/peek/acknowledge never interleave
+  private operationChain: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    logger: Logger,
+    storage: EventStorage,
+    ttl: number = 24 * 60 * 60 * 1000, // 24 hours
+    maxBytes: number = 2 * 1024 * 1024 // 2MB
+  ) {
+    // Validate parameters
+    if (ttl <= 0) {
+      throw new Error("ttl must be greater than 0");
+    }
+    if (maxBytes < 1024) {
+      throw new Error("maxBytes must be at least 1KB");
+    }
+
+    this.logger = logger;
+    this.storage = storage;
+    this.ttl = ttl;
+    this.maxBytes = maxBytes;
+  }
+
+  /**
+   * Persist a batch that could not be delivered.
+   * Expired batches are pruned and the oldest batches are evicted to stay within maxBytes.
+   * @param replacedIds - Replayed batches whose undelivered events are part of this batch, removed once it is saved
+   * @param hold - Keep the batch out of peeks until it is acknowledged or replaced, for events still retried in memory
+   * @returns The id of the saved batch
+   */
+  persist(
+    events: TelemetryEvent[],
+    replacedIds: string[] = [],
+    hold: boolean = false
+  ): Promise<string | undefined> {
+    if (events.length === 0) {
+      return Promise.resolve(undefined);
+    }
+
+    return this.enqueueOperation(async () => {
+      const batch = this.createBatch(events);
+      if (!batch) {
+        return undefined;
+      }
+
+      const now = Date.now();
+      const replaced = new Set(replacedIds);
+      const existing = (await this.storage.load()).sort(
+        (a, b) => a.createdAt - b.createdAt
+      );
+      const expiredIds: string[] = [];
+      const evictedIds: string[] = [];
+      const live = existing.filter(stored => {
+        if (replaced.has(stored.id)) {
+          return false;
+        }
+        if (now - stored.createdAt > this.ttl) {
+          expiredIds.push(stored.id);
+          return false;
+        }
+        return true;
+      });
+
+      let totalBytes = live.reduce((sum, stored) => sum + stored.size, 0);
+      while (live.length > 0 && totalBytes + batch.size > this.maxBytes) {
+        const oldest = live.shift();
+        if (oldest) {
+          evictedIds.push(oldest.id);
+          totalBytes -= oldest.size;
+        }
+      }
+
+      if (expiredIds.length > 0 || evictedIds.length > 0) {
+        await this.storage.remove([...expiredIds, ...evictedIds]);
+        this.logger.warn("Offline queue pruned persisted batches", {
+          expiredBatches: expiredIds.length,
+          evictedBatches: evictedIds.length,
+          maxBytes: this.maxBytes,
+        });
+      }
+
+      // Saved before the replaced batches are removed, a crash in between duplicates rather than loses events
+      await this.storage.save(batch);
+      if (replacedIds.length > 0) {
+        await this.storage.remove(replacedIds);
+        replacedIds.forEach(id => this.inFlight.delete(id));
+      }
+      if (hold) {
+        this.inFlight.set(batch.id, batch.events.length);
+      }
+      this.pendingEvents =
+        live.reduce((sum, stored) => sum + stored.events.length, 0) +
+        batch.events.length;
+
+      this.logger.info("Undelivered batch persisted to offline queue", {
+        eventCount: batch.events.length,
+        batchSize: batch.size,
+        persistedBytes: totalBytes + batch.size,
+      });
+      return batch.id;
+    });
+  }
+
+  /**
+   * Return the non-expired persisted batches, oldest first, without removing them.
+   * They stay persisted until acknowledged, and later peeks skip them until then.
+   */
+  peek(): Promise<PersistedBatch[]> {
+    return this.enqueueOperation(async () => {
+      const batches = await this.storage.load();
+      if (batches.length === 0) {
+        this.pendingEvents = 0;
+        return [];
+      }
+
+      const now = Date.now();
+      const expiredIds = batches
+        .filter(batch => now - batch.createdAt > this.ttl)
+        .map(batch => batch.id);
+      if (expiredIds.length > 0) {
+        await this.storage.remove(expiredIds);
+      }
+
+      const live = batches
+        .filter(
+          batch =>
+            now - batch.createdAt <= this.ttl && !this.inFlight.has(batch.id)
+        )
+        .sort((a, b) => a.createdAt - b.createdAt);
+      live.forEach(batch => this.inFlight.set(batch.id, batch.events.length));
+
+      this.logger.debug("Offline queue replaying persisted batches", {
+        batchCount: live.length,
+        expiredBatches: expiredIds.length,
+        eventCount: live.reduce((sum, batch) => sum + batch.events.length, 0),
+      });
+      return live;
+    });
+  }
+
+  /**
+   * Remove replayed batches once their events have been exported.
+   */
+  acknowledge(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return Promise.resolve();
+    }
+
+    return this.enqueueOperation(async () => {
+      await this.storage.remove(ids);
+      ids.forEach(id => {
+        this.pendingEvents -= this.inFlight.get(id) ?? 0;
+        this.inFlight.delete(id);
+      });
+      this.pendingEvents = Math.max(0, this.pendingEvents);
+    });
+  }
+
+  /**
+   * Let the next peek replay batches again, e.g. after their export threw.
+   * Acknowledged or replaced batches are already gone from storage.
+   */
+  release(ids: string[]): void {
+    ids.forEach(id => this.inFlight.delete(id));
+  }
+
+  clear(): Promise<void> {
+    return this.enqueueOperation(async () => {
+      await this.storage.clear();
+      this.pendingEvents = 0;
+      this.inFlight.clear();
+    });
+  }
+
+  /**
+   * Refresh the pending event count from storage, e.g. after a page load.
+   */
+  refreshPendingCount(): Promise<number> {
+    return this.enqueueOperation(async () => {
+      const now = Date.now();
+      const batches = await this.storage.load();
+      this.pendingEvents = batches
+        .filter(batch => now - batch.createdAt <= this.ttl)
+        .reduce((sum, batch) => sum + batch.events.length, 0);
+      return this.pendingEvents;
+    });
+  }
+
+  getPendingEventsCount(): number {
+    return this.pendingEvents;
+  }
+
+  hasPendingEvents(): boolean {
+    return this.pendingEvents > 0;
+  }
+
+  private createBatch(events: TelemetryEvent[]): PersistedBatch | null {
+    let eventsToPersist = events;
+    let size = utf8Length(JSON.stringify(eventsToPersist));
+
+    // A single batch larger than the whole cap keeps only its newest events
+    while (size > this.maxBytes && eventsToPersist.length > 1) {
+      eventsToPersist = eventsToPersist.slice(
+        Math.ceil(eventsToPersist.length / 2)
+      );
+      size = utf8Length(JSON.stringify(eventsToPersist));
+    }
+
+    if (size > this.maxBytes) {
+      this.logger.warn("Event too large for offline queue, dropping", {
+        eventType: eventsToPersist[0]?.eventType,
+        eventName: eventsToPersist[0]?.eventName,
+        size,
+        maxBytes: this.maxBytes,
+      });
+      return null;
+    }
+
+    if (eventsToPersist.length < events.length) {
+      this.logger.warn("Batch exceeds offline queue size, dropping oldest", {
+        droppedEvents: events.length - eventsToPersist.length,
+        maxBytes: this.maxBytes,
+      });
+    }
+
+    return {
+      id: `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      events: eventsToPersist,
+      createdAt: Date.now(),
+      size,
+    };
+  }
+
+  private enqueueOperation<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.operationChain.then(operation, operation);
+    // Keep the chain alive even if this operation fails
+    this.operationChain = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -8,6 +8,7 @@ import {
   CustomEventsPlugin,
   PageViewPlugin,
   ErrorPlugin,
+  NodeRuntimePlugin,
   SessionReplayPlugin,
 } from "../plugins";
 
@@ -57,6 +58,11 @@ export class PluginManager {
           plugin: ErrorPlugin,
           name: "ErrorPlugin",
         },
+        {
+          enabled: config.enableNodeRuntime,
+          plugin: NodeRuntimePlugin,
+          name: "NodeRuntimePlugin",
+        },
         {
           enabled: config.enableCustomEvents,
           plugin: CustomEventsPlugin,
@@ -168,6 +174,17 @@ export class PluginManager {
     return [...this.plugins];
   }
 
+  /**
+   * Find a registered plugin by class, e.g. getPlugin(ClickPlugin)
+   */
+  getPlugin<T extends TelemetryPlugin>(
+    pluginClass: abstract new (...args: never[]) => T
+  ): T | undefined {
+    return this.plugins.find(
+      (plugin): plugin is T => plugin instanceof pluginClass
+    );
+  }
+
   setState(state: TelemetryState): void {
     this.state = state;
   }
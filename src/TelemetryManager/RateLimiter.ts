@@ -0,0 +1,59 @@
+import type { Logger } from "../types";
+import type { RateLimitState } from "./types";
+
+export class RateLimiter {
+  private state: RateLimitState;
+  private logger: Logger;
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+    this.state = {
+      isRateLimited: false,
+      rateLimitedUntil: 0,
+      lastRetryAfter: 0,
+      rateLimitCount: 0,
+    };
+  }
+
+  isLimited(): boolean {
+    if (!this.state.isRateLimited) {
+      return false;
+    }
+
+    if (Date.now() >= this.state.rateLimitedUntil) {
+      this.state.isRateLimited = false;
+      this.logger.info("Rate limit pause over, resuming exports");
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Pause exports for the delay the server asked for, never shortening a pause already in place
+   */
+  recordRateLimit(retryAfter: number): void {
+    this.state.rateLimitCount++;
+    this.state.lastRetryAfter = retryAfter;
+    this.state.rateLimitedUntil = Math.max(
+      this.state.rateLimitedUntil,
+      Date.now() + retryAfter
+    );
+    this.state.isRateLimited = true;
+
+    this.logger.warn("Export rate limited, pausing flushes", {
+      retryAfter,
+      rateLimitedUntil: new Date(this.state.rateLimitedUntil).toISOString(),
+      rateLimitCount: this.state.rateLimitCount,
+    });
+  }
+
+  recordSuccess(): void {
+    this.state.rateLimitCount = 0;
+  }
+
+  getState(): RateLimitState {
+    this.isLimited();
+    return { ...this.state };
+  }
+}
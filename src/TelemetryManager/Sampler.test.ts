@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { Sampler } from "./Sampler";
+import { hashString } from "../utils/hashString";
+import type { TelemetryEvent } from "../types";
+
+const createEvent = (
+  eventType: string,
+  eventName = "test"
+): TelemetryEvent => ({
+  eventType,
+  eventName,
+  payload: {},
+  timestamp: "2026-01-01T00:00:00.000Z",
+});
+
+describe("hashString", () => {
+  it("maps the same input to the same value in [0, 1)", () => {
+    const value = hashString("session_123");
+
+    expect(hashString("session_123")).toBe(value);
+    expect(value).toBeGreaterThanOrEqual(0);
+    expect(value).toBeLessThan(1);
+    expect(hashString("session_124")).not.toBe(value);
+  });
+});
+
+describe("Sampler", () => {
+  it("uses the first matching rule, then the default rate", () => {
+    const sampler = new Sampler(0.5, [
+      { eventType: "network", eventName: "fetch_error", rate: 1 },
+      { eventType: "network", rate: 0.1 },
+    ]);
+
+    expect(sampler.getRate("network", "fetch_error")).toBe(1);
+    expect(sampler.getRate("network", "fetch_complete")).toBe(0.1);
+    expect(sampler.getRate("click")).toBe(0.5);
+  });
+
+  it("keeps the same keys in session mode on every call", () => {
+    const sampler = new Sampler(0.5, [], "session");
+    const keys = Array.from({ length: 50 }, (_, index) => `session_${index}`);
+    const decisions = keys.map(key => sampler.isSampledAt(0.5, key));
+
+    expect(keys.map(key => sampler.isSampledAt(0.5, key))).toEqual(decisions);
+    expect(decisions).toContain(true);
+    expect(decisions).toContain(false);
+  });
+
+  it("keeps a key kept at a lower rate at every higher rate", () => {
+    const sampler = new Sampler(1, [], "user");
+
+    for (let index = 0; index < 50; index++) {
+      const key = `user_${index}`;
+      if (sampler.isSampledAt(0.2, key)) {
+        expect(sampler.isSampledAt(0.6, key)).toBe(true);
+      }
+    }
+  });
+
+  it("never samples at 0 and always samples at 1", () => {
+    const sampler = new Sampler(1, [{ eventType: "click", rate: 0 }]);
+
+    expect(sampler.sample(createEvent("click")).sampled).toBe(false);
+    expect(sampler.sample(createEvent("custom"))).toEqual({
+      sampled: true,
+      rate: 1,
+    });
+  });
+
+  it("rejects rates outside 0 to 1", () => {
+    expect(() => new Sampler(1.5)).toThrow();
+    expect(() => new Sampler(1, [{ rate: -0.1 }])).toThrow();
+  });
+});
@@ -0,0 +1,81 @@
+import type { TelemetryEvent, SamplingRule, SamplingMode } from "../types";
+import { hashString } from "../utils/hashString";
+
+export type SamplingDecision = {
+  sampled: boolean;
+  rate: number; // Rate of the rule that matched, or the default rate
+};
+
+export class Sampler {
+  private defaultRate: number;
+  private rules: SamplingRule[];
+  private mode: SamplingMode;
+
+  constructor(
+    defaultRate: number = 1.0,
+    rules: SamplingRule[] = [],
+    mode: SamplingMode = "random"
+  ) {
+    // Validate parameters
+    if (defaultRate < 0 || defaultRate > 1) {
+      throw new Error("samplingRate must be between 0 and 1");
+    }
+    rules.forEach((rule, index) => {
+      if (typeof rule.rate !== "number" || rule.rate < 0 || rule.rate > 1) {
+        throw new Error(`Sampling rule ${index} rate must be between 0 and 1`);
+      }
+    });
+    if (!["random", "session", "user"].includes(mode)) {
+      throw new Error('samplingMode must be "random", "session" or "user"');
+    }
+
+    this.defaultRate = defaultRate;
+    this.rules = rules;
+    this.mode = mode;
+  }
+
+  getMode(): SamplingMode {
+    return this.mode;
+  }
+
+  /**
+   * Returns the rate of the first rule matching the event, or the default rate
+   */
+  getRate(eventType: string, eventName?: string): number {
+    const rule = this.rules.find(
+      candidate =>
+        (candidate.eventType === undefined ||
+          candidate.eventType === eventType) &&
+        (candidate.eventName === undefined || candidate.eventName === eventName)
+    );
+    return rule ? rule.rate : this.defaultRate;
+  }
+
+  /**
+   * Decide whether to keep an event
+   * @param key - Session or user ID, required for deterministic modes
+   */
+  sample(event: TelemetryEvent, key?: string): SamplingDecision {
+    const rate = this.getRate(event.eventType, event.eventName);
+    return { sampled: this.isSampledAt(rate, key), rate };
+  }
+
+  /**
+   * Decide whether a key is kept at a given rate.
+   * In deterministic modes a key kept at one rate is also kept at every higher rate,
+   * so a sampled session keeps all of its events across rules.
+   */
+  isSampledAt(rate: number, key?: string): boolean {
+    // Rates of 0 and 1 are exact, avoid the hash or random draw
+    if (rate >= 1) {
+      return true;
+    }
+    if (rate <= 0) {
+      return false;
+    }
+    if (this.mode !== "random" && key) {
+      return hashString(key) < rate;
+    }
+    return Math.random() < rate;
+  }
+}
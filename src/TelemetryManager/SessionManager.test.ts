@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { SessionManager } from "./SessionManager";
+import { createLogger, LogLevel } from "../logger";
+
+const logger = createLogger({ level: LogLevel.SILENT });
+
+const MINUTE = 60 * 1000;
+
+// Survives SessionManager instances, like localStorage survives a reload
+const createLocalStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, value);
+    },
+    removeItem: (key: string) => {
+      items.delete(key);
+    },
+  };
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  // Midday, so advancing the clock doesn't also cross midnight
+  vi.setSystemTime(new Date(2026, 0, 15, 12, 0, 0));
+  vi.stubGlobal("window", { localStorage: createLocalStorage() });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("SessionManager", () => {
+  it("rotates the session after the inactivity timeout", () => {
+    const sessions = new SessionManager(logger, { inactivityTimeout: MINUTE });
+    sessions.start();
+    const firstId = sessions.getSessionId();
+
+    vi.advanceTimersByTime(MINUTE - 1);
+    expect(sessions.touch()).toBeNull();
+    vi.advanceTimersByTime(MINUTE - 1);
+    expect(sessions.touch()).toBeNull();
+    vi.advanceTimersByTime(MINUTE);
+    const transition = sessions.touch();
+
+    expect(transition).toMatchObject({
+      previous: { id: firstId },
+      reason: "inactivity",
+      isNew: true,
+    });
+    expect(sessions.getSessionId()).not.toBe(firstId);
+    expect(transition?.current.id).toBe(sessions.getSessionId());
+  });
+
+  it("rotates an active session once it reaches the max duration", () => {
+    const sessions = new SessionManager(logger, {
+      inactivityTimeout: 30 * MINUTE,
+      maxDuration: 60 * MINUTE,
+    });
+    sessions.start();
+    const firstId = sessions.getSessionId();
+
+    // Never idle long enough to time out
+    for (let i = 0; i < 5; i++) {
+      vi.advanceTimersByTime(10 * MINUTE);
+      expect(sessions.touch()).toBeNull();
+    }
+    vi.advanceTimersByTime(10 * MINUTE);
+    const transition = sessions.touch();
+
+    expect(transition).toMatchObject({
+      previous: { id: firstId },
+      reason: "max_duration",
+    });
+    expect(sessions.getSessionId()).not.toBe(firstId);
+  });
+
+  it("resumes the stored session after a reload", () => {
+    const config = { inactivityTimeout: 30 * MINUTE };
+    const beforeReload = new SessionManager(logger, config);
+    expect(beforeReload.start()).toMatchObject({ isNew: true });
+    vi.advanceTimersByTime(5 * MINUTE);
+    beforeReload.touch();
+    beforeReload.persist();
+
+    vi.advanceTimersByTime(MINUTE);
+    const afterReload = new SessionManager(logger, config);
+
+    expect(afterReload.start()).toBeNull();
+    expect(afterReload.getSession()).toMatchObject({
+      id: beforeReload.getSessionId(),
+      startedAt: beforeReload.getSession().startedAt,
+    });
+  });
+
+  it("starts a new session when the stored one expired before the reload", () => {
+    const config = { inactivityTimeout: 30 * MINUTE };
+    const beforeReload = new SessionManager(logger, config);
+    beforeReload.start();
+    beforeReload.persist();
+
+    vi.advanceTimersByTime(30 * MINUTE);
+    const afterReload = new SessionManager(logger, config);
+    const transition = afterReload.start();
+
+    expect(transition).toMatchObject({
+      previous: { id: beforeReload.getSessionId() },
+      reason: "inactivity",
+      isNew: true,
+    });
+    expect(afterReload.getSessionId()).not.toBe(beforeReload.getSessionId());
+  });
+});
@@ -0,0 +1,247 @@
+import type { Logger, SessionConfig, SessionEndReason } from "../types";
+import { generateSessionId } from "./utils";
+
+export type SessionRecord = {
+  id: string;
+  startedAt: number; // Epoch milliseconds of the first event
+  lastActivityAt: number; // Epoch milliseconds of the latest event
+};
+
+export type SessionTransition = {
+  current: SessionRecord;
+  previous?: SessionRecord; // Session that ended, missing for a first visit
+  reason?: SessionEndReason; // Why the previous session ended
+  isNew: boolean; // False when another tab already started the session
+};
+
+// Storage is read and written at most this often while events stream in
+const SYNC_INTERVAL = 1000;
+
+const isSessionRecord = (value: unknown): value is SessionRecord => {
+  const record = value as SessionRecord | null;
+  return (
+    !!record &&
+    typeof record.id === "string" &&
+    typeof record.startedAt === "number" &&
+    typeof record.lastActivityAt === "number"
+  );
+};
+
+export class SessionManager {
+  private logger: Logger;
+  private storageKey: string;
+  private inactivityTimeout: number;
+  private maxDuration: number;
+  private rotateAtMidnight: boolean;
+  private storageAvailable: boolean;
+  private session: SessionRecord;
+  private lastSyncAt = 0;
+
+  constructor(logger: Logger, config: SessionConfig = {}) {
+    const inactivityTimeout = config.inactivityTimeout ?? 30 * 60 * 1000; // 30 minutes
+    const maxDuration = config.maxDuration ?? 24 * 60 * 60 * 1000; // 24 hours
+
+    // Validate parameters
+    if (inactivityTimeout <= 0) {
+      throw new Error("inactivityTimeout must be greater than 0");
+    }
+    if (maxDuration <= 0) {
+      throw new Error("maxDuration must be greater than 0");
+    }
+
+    this.logger = logger;
+    this.storageKey = config.storageKey ?? "telemetry-sdk-session";
+    this.inactivityTimeout = inactivityTimeout;
+    this.maxDuration = maxDuration;
+    this.rotateAtMidnight = config.rotateAtMidnight ?? true;
+    this.storageAvailable = this.checkStorage();
+    this.session = this.createSession(Date.now());
+  }
+
+  /**
+   * Resume the stored session if it is still active, otherwise start a new one
+   * @returns The transition to report, or null when an active session was resumed
+   */
+  start(now: number = Date.now()): SessionTransition | null {
+    const stored = this.read();
+    if (stored && !this.getExpiryReason(stored, now)) {
+      this.session = { ...stored, lastActivityAt: now };
+      this.write(now);
+      this.logger.debug("Resumed stored session", {
+        sessionId: stored.id,
+        startedAt: new Date(stored.startedAt).toISOString(),
+      });
+      return null;
+    }
+
+    const reason = stored ? this.getExpiryReason(stored, now) : null;
+    this.session = this.createSession(now);
+    this.write(now);
+    return {
+      current: { ...this.session },
+      ...(stored && { previous: stored }),
+      ...(reason && { reason }),
+      isNew: true,
+    };
+  }
+
+  /**
+   * Record activity, rotating the session first if it has expired
+   * @returns The transition to report, or null when the session is unchanged
+   */
+  touch(now: number = Date.now()): SessionTransition | null {
+    // Another tab may have rotated the session since we last looked
+    if (now - this.lastSyncAt >= SYNC_INTERVAL) {
+      const stored = this.read();
+      if (stored && stored.id !== this.session.id) {
+        if (
+          stored.startedAt >= this.session.startedAt &&
+          !this.getExpiryReason(stored, now)
+        ) {
+          return this.adopt(stored, now);
+        }
+      } else if (
+        stored &&
+        stored.lastActivityAt > this.session.lastActivityAt
+      ) {
+        this.session.lastActivityAt = stored.lastActivityAt;
+      }
+    }
+
+    const reason = this.getExpiryReason(this.session, now);
+    if (reason) {
+      return this.rotate(reason, now);
+    }
+
+    this.session.lastActivityAt = now;
+    if (now - this.lastSyncAt >= SYNC_INTERVAL) {
+      this.write(now);
+    }
+    return null;
+  }
+
+  rotate(
+    reason: SessionEndReason = "manual",
+    now: number = Date.now()
+  ): SessionTransition {
+    const previous = { ...this.session };
+    this.session = this.createSession(now);
+    this.write(now);
+    this.logger.info("Session rotated", {
+      previousSessionId: previous.id,
+      sessionId: this.session.id,
+      reason,
+    });
+    return { current: { ...this.session }, previous, reason, isNew: true };
+  }
+
+  /**
+   * Write the latest activity time to storage, e.g. before the page unloads
+   */
+  persist(): void {
+    const stored = this.read();
+    // Don't overwrite a newer session another tab started
+    if (
+      stored &&
+      stored.id !== this.session.id &&
+      stored.startedAt >= this.session.startedAt
+    ) {
+      return;
+    }
+    this.write(Date.now());
+  }
+
+  getSessionId(): string {
+    return this.session.id;
+  }
+
+  getSession(): SessionRecord {
+    return { ...this.session };
+  }
+
+  private adopt(stored: SessionRecord, now: number): SessionTransition {
+    const previous = { ...this.session };
+    this.session = { ...stored, lastActivityAt: now };
+    this.write(now);
+    this.logger.debug("Adopted session started in another tab", {
+      previousSessionId: previous.id,
+      sessionId: stored.id,
+    });
+    return { current: { ...this.session }, previous, isNew: false };
+  }
+
+  private getExpiryReason(
+    session: SessionRecord,
+    now: number
+  ): SessionEndReason | null {
+    if (now - session.lastActivityAt >= this.inactivityTimeout) {
+      return "inactivity";
+    }
+    if (now - session.startedAt >= this.maxDuration) {
+      return "max_duration";
+    }
+    if (
+      this.rotateAtMidnight &&
+      new Date(session.startedAt).toDateString() !==
+        new Date(now).toDateString()
+    ) {
+      return "midnight";
+    }
+    return null;
+  }
+
+  private createSession(now: number): SessionRecord {
+    return { id: generateSessionId(), startedAt: now, lastActivityAt: now };
+  }
+
+  private checkStorage(): boolean {
+    try {
+      if (typeof window === "undefined" || !window.localStorage) {
+        return false;
+      }
+      // Safari private mode exposes localStorage but throws on write
+      const probeKey = `${this.storageKey}__probe`;
+      window.localStorage.setItem(probeKey, "1");
+      window.localStorage.removeItem(probeKey);
+      return true;
+    } catch {
+      this.logger.debug("localStorage unavailable, session kept in memory");
+      return false;
+    }
+  }
+
+  private read(): SessionRecord | null {
+    if (!this.storageAvailable) {
+      return null;
+    }
+    try {
+      const raw = window.localStorage.getItem(this.storageKey);
+      if (!raw) {
+        return null;
+      }
+      const parsed = JSON.parse(raw) as unknown;
+      return isSessionRecord(parsed) ? parsed : null;
+    } catch {
+      // Corrupted entry - a new session replaces it on the next write
+      return null;
+    }
+  }
+
+  private write(now: number): void {
+    this.lastSyncAt = now;
+    if (!this.storageAvailable) {
+      return;
+    }
+    try {
+      window.localStorage.setItem(
+        this.storageKey,
+        JSON.stringify(this.session)
+      );
+    } catch (error) {
+      this.logger.warn("Failed to persist session", {
+        sessionId: this.session.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
@@ -1,11 +1,22 @@
 import type { TelemetryEvent, Logger } from "../types";
+import type { BatchLimits } from "./types";
 import { generateEventId } from "./utils";
+import { EventBatcher } from "./EventBatcher";
+import { MAX_SESSION_REPLAY_BATCH_SIZE_BYTES } from "../constants";
 
 export class SessionReplayExportHandler {
   private logger: Logger;
+  private limits: BatchLimits;
 
-  constructor(logger: Logger) {
+  constructor(
+    logger: Logger,
+    limits: BatchLimits = {
+      maxEvents: 5, // Replay chunks are large, keep requests small
+      maxBytes: MAX_SESSION_REPLAY_BATCH_SIZE_BYTES,
+    }
+  ) {
     this.logger = logger;
+    this.limits = limits;
   }
 
   /**
@@ -19,7 +30,6 @@ export class SessionReplayExportHandler {
     },
     flushBatch: (
       events: TelemetryEvent[],
-      retries: number,
       startTime: number
     ) => Promise<{ success: boolean; shouldReturnToBuffer: boolean }>,
     useBeacon: boolean = false
@@ -49,13 +59,16 @@ export class SessionReplayExportHandler {
       if (useBeacon) {
         result = flushWithBeacon(eventsWithIds);
       } else {
-        result = await flushBatch(eventsWithIds, 0, startTime);
+        result = await flushBatch(eventsWithIds, startTime);
       }
 
-      if (!result.success && result.shouldReturnToBuffer) {
-        failedEvents.push(...batch);
+      if (!result.success) {
         allBatchesSuccessful = false;
       }
+      // Batches held for the exporters that missed them are not returned
+      if (result.shouldReturnToBuffer) {
+        failedEvents.push(...batch);
+      }
     }
 
     return {
@@ -69,16 +82,16 @@ export class SessionReplayExportHandler {
     events: TelemetryEvent[]
   ): TelemetryEvent[][] {
     const batches: TelemetryEvent[][] = [];
-    let currentBatch: TelemetryEvent[] = [];
+    const batcher = new EventBatcher(this.limits);
 
     for (const event of events) {
       const hasLargeRrwebEvents = this.hasLargeRrwebEvents(event);
 
       if (hasLargeRrwebEvents) {
         // If current batch has events, save it first
+        const currentBatch = batcher.take();
         if (currentBatch.length > 0) {
-          batches.push([...currentBatch]);
-          currentBatch = [];
+          batches.push(currentBatch);
         }
 
         // Send this large session replay event individually
@@ -86,18 +99,17 @@ export class SessionReplayExportHandler {
         continue;
       }
 
-      // For smaller events, batch them together (max 5 events per batch)
-      if (currentBatch.length >= 5) {
-        batches.push([...currentBatch]);
-        currentBatch = [];
+      // For smaller events, batch them together within the count and byte budgets
+      const closedBatch = batcher.add(event);
+      if (closedBatch) {
+        batches.push(closedBatch);
       }
-
-      currentBatch.push(event);
     }
 
     // Add the final batch if it has events
-    if (currentBatch.length > 0) {
-      batches.push(currentBatch);
+    const finalBatch = batcher.take();
+    if (finalBatch.length > 0) {
+      batches.push(finalBatch);
     }
 
     return batches;
@@ -0,0 +1,223 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { TelemetryManager } from "./index";
+import { LogLevel } from "../logger";
+import type {
+  EventStorage,
+  PersistedBatch,
+  TelemetryConfig,
+  TelemetryEvent,
+  TelemetryExporter,
+} from "../types";
+import type { EnhancedError } from "./types";
+
+class MemoryExporter implements TelemetryExporter {
+  events: TelemetryEvent[] = [];
+  isDown = false;
+
+  export(events: TelemetryEvent[]): Promise<void> {
+    if (this.isDown) {
+      const error: Error & Partial<EnhancedError> = new Error(
+        "Service Unavailable"
+      );
+      error.isRetryable = true;
+      return Promise.reject(error);
+    }
+    this.events.push(...events);
+    return Promise.resolve();
+  }
+}
+
+// Survives manager instances, like IndexedDB survives a reload
+class MemoryStorage implements EventStorage {
+  batches: PersistedBatch[] = [];
+
+  isSupported(): boolean {
+    return true;
+  }
+
+  load(): Promise<PersistedBatch[]> {
+    return Promise.resolve(this.batches.map(batch => ({ ...batch })));
+  }
+
+  save(batch: PersistedBatch): Promise<void> {
+    this.batches = this.batches.filter(existing => existing.id !== batch.id);
+    this.batches.push(batch);
+    return Promise.resolve();
+  }
+
+  remove(ids: string[]): Promise<void> {
+    this.batches = this.batches.filter(batch => !ids.includes(batch.id));
+    return Promise.resolve();
+  }
+
+  clear(): Promise<void> {
+    this.batches = [];
+    return Promise.resolve();
+  }
+}
+
+const createEvent = (eventName: string): TelemetryEvent => ({
+  eventType: "custom",
+  eventName,
+  payload: {},
+  timestamp: new Date().toISOString(),
+});
+
+const managers: TelemetryManager[] = [];
+
+const createManager = (config: Partial<TelemetryConfig> = {}) => {
+  const exporter = new MemoryExporter();
+  const manager = new TelemetryManager({
+    exporters: [exporter],
+    flushInterval: 0,
+    enablePageViews: false,
+    enableErrors: false,
+    logging: { level: LogLevel.SILENT },
+    ...config,
+  });
+  managers.push(manager);
+  return { manager, exporter };
+};
+
+const nextTick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+afterEach(() => {
+  managers.splice(0).forEach(manager => manager.destroy());
+});
+
+describe("TelemetryManager context", () => {
+  it("keeps the scoped context of events still in async beforeSend hooks", async () => {
+    const { manager, exporter } = createManager({
+      beforeSend: async event => {
+        await nextTick();
+        return event;
+      },
+    });
+
+    manager.withContext({ experiment: "checkout-v2" }, () =>
+      manager.capture(createEvent("scoped"))
+    );
+    manager.setGlobalContext({ release: "later" });
+    await nextTick();
+    await nextTick();
+    await manager.flush();
+
+    expect(exporter.events.map(event => event.payload)).toEqual([
+      { experiment: "checkout-v2" },
+    ]);
+  });
+});
+
+describe("TelemetryManager breadcrumbs", () => {
+  const consoleEvent = (message: string): TelemetryEvent => ({
+    eventType: "console",
+    eventName: "console_log",
+    payload: { message },
+    timestamp: new Date().toISOString(),
+  });
+
+  it("leaves no breadcrumb for events beforeSend dropped", () => {
+    const { manager } = createManager({
+      enableBreadcrumbs: true,
+      beforeSend: event =>
+        event.payload.message === "internal" ? null : event,
+    });
+
+    manager.capture(consoleEvent("internal"));
+    manager.capture(consoleEvent("visible"));
+
+    expect(manager.getBreadcrumbs().map(crumb => crumb.message)).toEqual([
+      "visible",
+    ]);
+  });
+
+  it("records the redacted event", () => {
+    const { manager } = createManager({
+      enableBreadcrumbs: true,
+      enableRedaction: true,
+    });
+
+    manager.capture(consoleEvent("signed up as jane@example.com"));
+
+    expect(manager.getBreadcrumbs().map(crumb => crumb.message)).toEqual([
+      "signed up as [REDACTED_EMAIL]",
+    ]);
+  });
+});
+
+describe("TelemetryManager offline queue", () => {
+  const persistedNames = (storage: MemoryStorage) =>
+    storage.batches.flatMap(batch => batch.events.map(e => e.eventName));
+
+  it("keeps replayed events persisted until every required exporter has them", async () => {
+    const storage = new MemoryStorage();
+    storage.batches.push({
+      id: "batch_offline",
+      events: [{ ...createEvent("offline"), event_id: "evt_offline" }],
+      createdAt: Date.now(),
+      size: 200,
+    });
+    const [primary, secondary] = [new MemoryExporter(), new MemoryExporter()];
+    secondary.isDown = true;
+    const { manager } = createManager({
+      exporters: [primary, secondary],
+      deliveryPolicy: "all",
+      maxRetries: 0,
+      enableOfflineQueue: true,
+      offlineQueue: { storage },
+    });
+    await nextTick();
+    await nextTick();
+
+    // Only the secondary's in-memory retry queue has it, a reload must not lose it
+    expect(primary.events.map(e => e.eventName)).toEqual(["offline"]);
+    expect(persistedNames(storage)).toEqual(["offline"]);
+
+    secondary.isDown = false;
+    manager.capture(createEvent("online"));
+    await manager.flush();
+
+    expect(secondary.events.map(e => e.eventName)).toEqual([
+      "offline",
+      "online",
+    ]);
+    expect(primary.events.map(e => e.eventName)).toEqual(["offline", "online"]);
+    expect(storage.batches).toEqual([]);
+  });
+});
+
+describe("TelemetryManager sessions", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("notifies session change listeners when the session rotates", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 0, 15, 12, 0, 0));
+    const { manager } = createManager({
+      enableSessionManagement: true,
+      session: { inactivityTimeout: 60 * 1000 },
+    });
+    const changes: [string, string][] = [];
+    const unsubscribe = manager.onSessionChange((sessionId, previousId) =>
+      changes.push([sessionId, previousId])
+    );
+    const firstId = manager.getSessionId();
+
+    manager.capture(createEvent("active"));
+    vi.advanceTimersByTime(60 * 1000);
+    manager.capture(createEvent("after_idle"));
+    const secondId = manager.getSessionId();
+    manager.startNewSession();
+
+    expect(changes).toEqual([
+      [secondId, firstId],
+      [manager.getSessionId(), secondId],
+    ]);
+    expect(new Set([firstId, secondId, manager.getSessionId()]).size).toBe(3);
+
+    unsubscribe();
+    manager.startNewSession();
+    expect(changes).toHaveLength(2);
+  });
+});
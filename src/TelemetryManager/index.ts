@@ -1,5 +1,6 @@
 import { HyperlookExporter } from "../exporters/HyperlookExporter";
 import { HTTPExporter } from "../exporters/HTTPExporter";
+import { OTLPExporter } from "../exporters/OTLPExporter";
 import { getLogger, setLogger, createLogger } from "../logger";
 import type {
   TelemetryConfig,
@@ -7,15 +8,32 @@ import type {
   TelemetryPlugin,
   Logger,
   TelemetryExporter,
+  BeforeSendHook,
+  BeforeSendStats,
+  SessionChangeListener,
+  Breadcrumb,
+  BreadcrumbInput,
+  CaptureExceptionOptions,
+  SeverityLevel,
 } from "../types";
 import { ExporterType } from "../types/ExporterTypes";
-import { validateConfig, generateSessionId } from "./utils";
+import { validateConfig, generateSessionId, loadAnonymousId } from "./utils";
 import { TelemetryState } from "./types";
 import { PluginManager } from "./PluginManager";
 import { EventProcessor } from "./EventProcessor";
 import { ExportManager } from "./ExportManager";
+import { OfflineQueue } from "./OfflineQueue";
+import { BeforeSendPipeline } from "./BeforeSendPipeline";
+import { Redactor } from "./redaction";
+import { createEventStorage } from "./storage";
+import { SessionManager, type SessionTransition } from "./SessionManager";
+import { BreadcrumbTrail } from "./BreadcrumbTrail";
+import {
+  createErrorEvent,
+  ErrorDeduplicator,
+} from "../plugins/ErrorPlugin/utils";
 
-import { HYPERLOOK_URL } from "../constants";
+import { HYPERLOOK_URL, MAX_BATCH_SIZE_BYTES } from "../constants";
 import {
   earlyEventQueue,
   setupModuleLevelEarlyInterceptors,
@@ -34,6 +52,7 @@ export class TelemetryManager {
   private logger: Logger;
   private sessionId!: string;
   private userId?: string;
+  private anonymousId: string;
   private flushTimer: NodeJS.Timeout | undefined;
   private flushInterval: number;
   private failedEvents: TelemetryEvent[] = [];
@@ -43,6 +62,17 @@ export class TelemetryManager {
   private pluginManager: PluginManager;
   private eventProcessor: EventProcessor;
   private exportManager: ExportManager;
+  private offlineQueue?: OfflineQueue;
+  // Persisted copy of the events required exporters still owe, replaced as they catch up
+  private owedBatchId: string | undefined;
+  private beforeSendPipeline: BeforeSendPipeline;
+  private sessionManager?: SessionManager;
+  private sessionChangeListeners = new Set<SessionChangeListener>();
+  private breadcrumbTrail?: BreadcrumbTrail;
+  // Manual captures are deduplicated separately from the ErrorPlugin handlers
+  private errorDeduplicator = new ErrorDeduplicator(event =>
+    this.capture(event)
+  );
 
   // Early initialization support - removed unused singleton instance
 
@@ -63,10 +93,21 @@ export class TelemetryManager {
     this.logger = getLogger();
 
     // Initialize core properties
-    this.sessionId = config.sessionId ?? generateSessionId();
+    // A fixed session ID from config always wins over managed sessions
+    let initialSession: SessionTransition | null = null;
+    if (config.sessionId === undefined && config.enableSessionManagement) {
+      this.sessionManager = new SessionManager(this.logger, config.session);
+      initialSession = this.sessionManager.start();
+    }
+    this.sessionId =
+      config.sessionId ??
+      this.sessionManager?.getSessionId() ??
+      generateSessionId();
     if (config.userId !== undefined) {
       this.userId = config.userId;
     }
+    this.anonymousId =
+      config.anonymousId ?? loadAnonymousId("telemetry-sdk-anonymous-id");
     this.flushInterval = config.flushInterval ?? 30000;
 
     // Initialize component managers
@@ -77,14 +118,57 @@ export class TelemetryManager {
       config.samplingRate ?? 1.0,
       config.batchSize ?? 50,
       this.sessionId,
-      this.userId
+      this.userId,
+      config.samplingRules,
+      config.samplingMode,
+      config.maxBatchBytes
+    );
+    this.eventProcessor.setAnonymousId(this.anonymousId);
+
+    // Created before plugins so their first events already leave breadcrumbs
+    if (config.enableBreadcrumbs) {
+      this.breadcrumbTrail = new BreadcrumbTrail(
+        this.logger,
+        config.breadcrumbs
+      );
+    }
+
+    // Set before early events are replayed so they carry the context too
+    if (config.globalContext) {
+      this.eventProcessor.setGlobalContext(config.globalContext);
+    }
+
+    // Redact before anything is buffered so PII never reaches an exporter or storage
+    if (config.enableRedaction) {
+      this.eventProcessor.setRedactor(new Redactor(config.redaction));
+    }
+
+    // Config hooks run first, runtime hooks are appended after them
+    const beforeSendHooks = config.beforeSend
+      ? Array.isArray(config.beforeSend)
+        ? config.beforeSend
+        : [config.beforeSend]
+      : [];
+    this.beforeSendPipeline = new BeforeSendPipeline(
+      this.logger,
+      beforeSendHooks,
+      config.beforeSendTimeout,
+      undefined,
+      config.beforeSendOnError
     );
 
     // Instantiate exporters based on config
+    const zlib = config.nodeIntegrations?.zlib;
+    const compression = config.enableCompression
+      ? { ...config.compression, ...(zlib && { zlib }) }
+      : undefined;
     const enabledExporters: TelemetryExporter[] = [];
     const exportersToEnable = config.exporters ?? [ExporterType.HYPERLOOK];
     for (const exporterType of exportersToEnable) {
-      if (exporterType === ExporterType.HYPERLOOK) {
+      if (typeof exporterType === "object") {
+        // Exporter instances, e.g. several HTTPExporters for different collectors
+        enabledExporters.push(exporterType);
+      } else if (exporterType === ExporterType.HYPERLOOK) {
         if (!config.hyperlookApiKey) {
           throw new Error(
             "Hyperlook API key is required when Hyperlook exporter is enabled"
@@ -96,12 +180,28 @@ export class TelemetryManager {
             config.connectionTimeout,
             config.requestTimeout,
             config.hyperlookMaxBatchSize,
-            config.hyperlookMaxPayloadSize
+            config.hyperlookMaxPayloadSize,
+            compression
           )
         );
       } else if (exporterType === ExporterType.HTTP) {
         enabledExporters.push(
-          new HTTPExporter(config.connectionTimeout, config.requestTimeout)
+          new HTTPExporter(
+            config.connectionTimeout,
+            config.requestTimeout,
+            compression
+          )
+        );
+      } else if (exporterType === ExporterType.OTLP) {
+        enabledExporters.push(
+          new OTLPExporter({
+            endpoint: config.otlpEndpoint ?? config.endpoint,
+            headers: config.otlpHeaders,
+            serviceName: config.otlpServiceName,
+            resourceAttributes: config.otlpResourceAttributes,
+            connectionTimeout: config.connectionTimeout,
+            requestTimeout: config.requestTimeout,
+          })
         );
       }
     }
@@ -112,7 +212,13 @@ export class TelemetryManager {
       config.maxRetries ?? 5, // Increased default
       config.retryDelay ?? 1000,
       config.maxRetryDelay ?? 30000,
-      config.endpoint
+      config.endpoint,
+      {
+        maxEvents: config.batchSize ?? 50,
+        maxBytes: config.maxBatchBytes ?? MAX_BATCH_SIZE_BYTES,
+      },
+      config.deliveryPolicy,
+      config.maxPendingEventsPerExporter
     );
 
     // Update circuit breaker configuration if provided
@@ -128,6 +234,25 @@ export class TelemetryManager {
       );
     }
 
+    // Set up persistent storage for undelivered batches
+    if (config.enableOfflineQueue) {
+      const offlineConfig = config.offlineQueue ?? {};
+      const storage = createEventStorage(offlineConfig, this.logger);
+      if (storage) {
+        this.offlineQueue = new OfflineQueue(
+          this.logger,
+          storage,
+          offlineConfig.ttl,
+          offlineConfig.maxBytes
+        );
+      }
+    }
+
+    // Report the new session before any plugin events reference it
+    if (initialSession) {
+      this.reportSessionTransition(initialSession);
+    }
+
     // Initialize plugins
     const pluginsToRegister = this.pluginManager.initializePlugins(config);
     pluginsToRegister.forEach(plugin => {
@@ -145,6 +270,11 @@ export class TelemetryManager {
     // Start flush timer
     this.startFlushTimer();
 
+    // Replay batches left over from a previous session
+    if (this.offlineQueue) {
+      void this.restoreOfflineEvents();
+    }
+
     this.logger.info("TelemetryManager initialized", {
       endpoint: HYPERLOOK_URL,
       batchSize: config.batchSize ?? 50,
@@ -162,13 +292,23 @@ export class TelemetryManager {
       hyperlookMaxPayloadSize:
         config.hyperlookMaxPayloadSize ?? 5 * 1024 * 1024, // 5MB max payload size
       samplingRate: config.samplingRate ?? 1.0,
+      samplingRules: config.samplingRules?.length ?? 0,
+      samplingMode: config.samplingMode ?? "random",
       enablePageViews: config.enablePageViews,
       enableClicks: config.enableClicks,
       enableLogs: config.enableLogs,
       enableNetwork: config.enableNetwork,
       enablePerformance: config.enablePerformance,
       enableCustomEvents: config.enableCustomEvents,
-      exporters: exportersToEnable,
+      enableOfflineQueue: !!this.offlineQueue,
+      enableRedaction: !!config.enableRedaction,
+      enableSessionManagement: !!this.sessionManager,
+      enableBreadcrumbs: !!this.breadcrumbTrail,
+      exporters: exportersToEnable.map(exporter =>
+        typeof exporter === "object"
+          ? (exporter.name ?? exporter.constructor.name)
+          : exporter
+      ),
     });
   }
 
@@ -177,8 +317,44 @@ export class TelemetryManager {
   }
 
   capture(event: TelemetryEvent): void {
-    const success = this.eventProcessor.capture(event);
-    if (success) {
+    this.touchSession();
+
+    // Stamp the session now so async hooks can't move the event into the next one
+    const sessionEvent = event.sessionId
+      ? event
+      : { ...event, sessionId: this.sessionId };
+    // Same for the context, a withContext() scope may have ended by the time hooks finish
+    const context = this.eventProcessor.getContext();
+    this.beforeSendPipeline.process(sessionEvent, processedEvent =>
+      this.enqueueEvent(processedEvent, context)
+    );
+  }
+
+  /**
+   * Register a beforeSend hook at runtime, it runs after all existing hooks
+   * @returns A function that removes the hook again
+   */
+  addBeforeSend(hook: BeforeSendHook): () => void {
+    return this.beforeSendPipeline.add(hook);
+  }
+
+  removeBeforeSend(hook: BeforeSendHook): boolean {
+    return this.beforeSendPipeline.remove(hook);
+  }
+
+  getBeforeSendStats(): BeforeSendStats[] {
+    return this.beforeSendPipeline.getStats();
+  }
+
+  private enqueueEvent(
+    event: TelemetryEvent,
+    context: Record<string, unknown>
+  ): void {
+    const capturedEvent = this.eventProcessor.capture(event, context);
+    if (capturedEvent) {
+      // Only events beforeSend and sampling kept leave a breadcrumb, with redacted values
+      this.breadcrumbTrail?.recordEvent(capturedEvent);
+
       // Process queue asynchronously
       this.processEventQueueAsync();
 
@@ -186,6 +362,7 @@ export class TelemetryManager {
       if (this.eventProcessor.isBufferFull()) {
         this.logger.info("Buffer full, triggering flush", {
           bufferSize: this.eventProcessor.getBufferSize(),
+          bufferBytes: this.eventProcessor.getBufferBytes(),
         });
         void this.flushAsync();
       }
@@ -216,7 +393,8 @@ export class TelemetryManager {
     if (this.flushInterval > 0) {
       this.flushTimer = setInterval(() => {
         if (
-          this.eventProcessor.getBufferSize() > 0 &&
+          (this.eventProcessor.getBufferSize() > 0 ||
+            this.offlineQueue?.hasPendingEvents()) &&
           this.state === TelemetryState.RUNNING
         ) {
           this.logger.debug("Periodic flush triggered", {
@@ -230,10 +408,9 @@ export class TelemetryManager {
   }
 
   async flush(useBeacon: boolean = false): Promise<void> {
-    const batch = this.eventProcessor.getBatchForExport();
-
-    // Don't flush if no events
-    if (batch.length === 0) {
+    // Leave the buffer untouched while another flush owns the exporters
+    if (this.exportManager.isFlushInProgress()) {
+      this.logger.debug("Flush already in progress, keeping buffer");
       return;
     }
 
@@ -242,17 +419,150 @@ export class TelemetryManager {
       useBeacon ||
       this.state === TelemetryState.SHUTTING_DOWN ||
       this.state === TelemetryState.SHUTDOWN;
-    const result = await this.exportManager.flush(batch, shouldUseBeacon);
 
-    if (!result.success && result.shouldReturnToBuffer) {
-      this.eventProcessor.returnBatchToBuffer(batch);
+    // Events stay buffered while the endpoint has asked for a pause
+    if (!shouldUseBeacon && this.exportManager.isRateLimited()) {
+      this.logger.debug("Exports paused by rate limit, keeping buffer", {
+        rateLimitedUntil:
+          this.exportManager.getRateLimitState().rateLimitedUntil,
+      });
+      return;
+    }
+
+    const batch = this.eventProcessor.getBatchForExport();
+
+    // Previously undelivered batches go out ahead of new events, and stay
+    // persisted until the export has settled
+    let replayedIds: string[] = [];
+    if (this.offlineQueue?.hasPendingEvents() && !shouldUseBeacon) {
+      try {
+        const replayed = await this.offlineQueue.peek();
+        replayedIds = replayed.map(persisted => persisted.id);
+        batch.unshift(...replayed.flatMap(persisted => persisted.events));
+      } catch (error) {
+        this.logger.error("Failed to read offline queue", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    try {
+      // Don't flush if no events
+      if (batch.length === 0) {
+        return;
+      }
+
+      const result = await this.exportManager.flush(batch, shouldUseBeacon);
+
+      if (!result.success && result.shouldReturnToBuffer) {
+        // Batches that were delivered are not sent again
+        const undelivered = result.failedEvents ?? batch;
+        if (this.offlineQueue) {
+          await this.persistUndelivered(undelivered, replayedIds);
+        } else {
+          this.eventProcessor.returnBatchToBuffer(undelivered);
+        }
+      } else if (this.offlineQueue) {
+        await this.persistOwed(replayedIds);
+      }
+    } finally {
+      this.offlineQueue?.release(replayedIds);
+    }
+  }
+
+  /**
+   * Replace the replayed batches with the events a required exporter has not
+   * received yet, so a reload doesn't lose what is only held in memory
+   */
+  private async persistOwed(replayedIds: string[]): Promise<void> {
+    if (!this.offlineQueue) {
+      return;
+    }
+    const owed = this.exportManager.getUndeliveredEvents();
+    const replacedIds = this.owedBatchId
+      ? [...replayedIds, this.owedBatchId]
+      : replayedIds;
+    try {
+      if (owed.length > 0) {
+        // Held out of replays, the exporters retry these from memory
+        this.owedBatchId = await this.offlineQueue.persist(
+          owed,
+          replacedIds,
+          true
+        );
+      } else if (replacedIds.length > 0) {
+        await this.offlineQueue.acknowledge(replacedIds);
+        this.owedBatchId = undefined;
+      }
+    } catch (error) {
+      this.logger.error("Failed to update offline queue after flush", {
+        batchCount: replacedIds.length,
+        owedEvents: owed.length,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private takeOwedBatchIds(): string[] {
+    const ids = this.owedBatchId ? [this.owedBatchId] : [];
+    this.owedBatchId = undefined;
+    return ids;
+  }
+
+  private async persistUndelivered(
+    batch: TelemetryEvent[],
+    replacedIds: string[] = []
+  ): Promise<void> {
+    if (!this.offlineQueue) {
+      return;
+    }
+    try {
+      await this.offlineQueue.persist(batch, replacedIds);
+    } catch (error) {
+      this.logger.error("Failed to persist batch, returning to buffer", {
+        eventCount: batch.length,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      if (!this.isShutdown()) {
+        this.eventProcessor.returnBatchToBuffer(batch);
+      }
+    }
+  }
+
+  private async restoreOfflineEvents(): Promise<void> {
+    if (!this.offlineQueue) {
+      return;
+    }
+    try {
+      const pendingCount = await this.offlineQueue.refreshPendingCount();
+      if (pendingCount === 0) {
+        return;
+      }
+
+      this.logger.info("Replaying persisted events from offline queue", {
+        pendingCount,
+      });
+      await this.flush();
+    } catch (error) {
+      this.logger.error("Failed to restore offline events", {
+        error: error instanceof Error ? error.message : String(error),
+      });
     }
   }
 
   async shutdown(): Promise<void> {
     this.logger.info("Shutting down TelemetryManager");
+
+    // Report repeats of manually captured errors while events are still accepted
+    this.errorDeduplicator.flush();
+
+    // Let events waiting on async beforeSend hooks reach the buffer first
+    await this.beforeSendPipeline.waitForPending();
     this.state = TelemetryState.SHUTTING_DOWN;
 
+    // The session outlives the page, so it is saved rather than ended
+    this.sessionManager?.persist();
+
     // Update state in all components
     this.pluginManager.setState(this.state);
     this.eventProcessor.setState(this.state);
@@ -269,6 +579,17 @@ export class TelemetryManager {
     // Final flush
     await this.flush();
 
+    // Anything still buffered (e.g. a flush was in progress) is kept for next time
+    if (this.offlineQueue && this.eventProcessor.getBufferSize() > 0) {
+      await this.persistUndelivered(this.eventProcessor.getBatchForExport());
+    }
+
+    // So are events a required exporter has not received yet
+    const undelivered = this.exportManager.takeUndeliveredEvents();
+    if (this.offlineQueue && undelivered.length > 0) {
+      await this.persistUndelivered(undelivered, this.takeOwedBatchIds());
+    }
+
     // Clear all data
     this.eventProcessor.clear();
     this.failedEvents = [];
@@ -288,7 +609,17 @@ export class TelemetryManager {
       this.flushTimer = undefined;
     }
 
+    // Best effort: buffered events are persisted instead of being discarded
+    if (this.offlineQueue && this.eventProcessor.getBufferSize() > 0) {
+      void this.persistUndelivered(this.eventProcessor.getBatchForExport());
+    }
+    const undelivered = this.exportManager.takeUndeliveredEvents();
+    if (this.offlineQueue && undelivered.length > 0) {
+      void this.persistUndelivered(undelivered, this.takeOwedBatchIds());
+    }
+
     this.eventProcessor.clear();
+    this.errorDeduplicator.clear();
     this.failedEvents = [];
     this.exportManager.setExporters([]);
     clearAllUserProperties();
@@ -341,6 +672,10 @@ export class TelemetryManager {
     return this.eventProcessor.getBufferSize();
   }
 
+  getPersistedEventsCount(): number {
+    return this.offlineQueue?.getPendingEventsCount() ?? 0;
+  }
+
   getState(): TelemetryState {
     return this.state;
   }
@@ -398,14 +733,294 @@ export class TelemetryManager {
     }
   }
 
+  /**
+   * Link two user identities, typically the anonymous ID to the ID used at login
+   * so activity from before and after identify() can be merged downstream
+   */
+  alias(previousId: string, newId: string): void {
+    try {
+      if (!previousId || typeof previousId !== "string") {
+        throw new Error("Previous ID is required and must be a string");
+      }
+      if (!newId || typeof newId !== "string") {
+        throw new Error("New ID is required and must be a string");
+      }
+      if (previousId === newId) {
+        throw new Error("Previous ID and new ID must be different");
+      }
+
+      const aliasEvent: TelemetryEvent = {
+        eventType: "alias",
+        eventName: "user_alias",
+        payload: {
+          previousId,
+          userId: newId,
+        },
+        timestamp: new Date().toISOString(),
+      };
+
+      this.logger.info("User aliased", { previousId, newId });
+
+      this.capture(aliasEvent);
+    } catch (error) {
+      this.logger.error("Failed to alias user", {
+        previousId,
+        newId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Whether the current session is kept by deterministic sampling
+   */
+  isSessionSampled(): boolean {
+    return this.eventProcessor.isSessionSampled();
+  }
+
   getSessionId(): string {
     return this.sessionId;
   }
 
+  /**
+   * End the current session and start a new one, e.g. after logout.
+   * Does nothing when a fixed sessionId was configured.
+   */
+  startNewSession(): void {
+    if (!this.sessionManager) {
+      this.logger.warn(
+        "Session management is disabled, keeping current session",
+        { sessionId: this.sessionId }
+      );
+      return;
+    }
+    this.reportSessionTransition(this.sessionManager.rotate("manual"));
+  }
+
+  /**
+   * Subscribe to session ID changes
+   * @returns A function that removes the listener again
+   */
+  onSessionChange(listener: SessionChangeListener): () => void {
+    this.sessionChangeListeners.add(listener);
+    return () => {
+      this.sessionChangeListeners.delete(listener);
+    };
+  }
+
+  private touchSession(): void {
+    if (!this.sessionManager || this.isShutdown()) {
+      return;
+    }
+    const transition = this.sessionManager.touch();
+    if (transition) {
+      this.reportSessionTransition(transition);
+    }
+  }
+
+  private reportSessionTransition(transition: SessionTransition): void {
+    const { current, previous, reason, isNew } = transition;
+
+    // Adopting a session from another tab only switches over, that tab reported it
+    if (isNew && previous) {
+      this.capture({
+        eventType: "session",
+        eventName: "session_end",
+        payload: {
+          sessionId: previous.id,
+          startedAt: new Date(previous.startedAt).toISOString(),
+          duration: previous.lastActivityAt - previous.startedAt,
+          reason,
+        },
+        timestamp: new Date(previous.lastActivityAt).toISOString(),
+        sessionId: previous.id,
+      });
+    }
+
+    this.sessionId = current.id;
+    this.eventProcessor.setSessionId(current.id);
+
+    if (isNew) {
+      this.capture({
+        eventType: "session",
+        eventName: "session_start",
+        payload: {
+          sessionId: current.id,
+          ...(previous && { previousSessionId: previous.id }),
+          ...(reason && { reason }),
+        },
+        timestamp: new Date(current.startedAt).toISOString(),
+        sessionId: current.id,
+      });
+    }
+
+    if (previous) {
+      this.sessionChangeListeners.forEach(listener => {
+        try {
+          listener(current.id, previous.id);
+        } catch (error) {
+          this.logger.error("Session change listener failed", {
+            sessionId: current.id,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      });
+    }
+  }
+
+  /**
+   * Add an app-defined breadcrumb to the trail attached to error events
+   */
+  addBreadcrumb(breadcrumb: BreadcrumbInput): void {
+    if (!breadcrumb || typeof breadcrumb.message !== "string") {
+      this.logger.error("Breadcrumb message is required and must be a string");
+      return;
+    }
+    this.breadcrumbTrail?.add(breadcrumb);
+  }
+
+  /**
+   * @returns Recent breadcrumbs oldest first, empty when breadcrumbs are disabled
+   */
+  getBreadcrumbs(): Breadcrumb[] {
+    return this.breadcrumbTrail?.getAll() ?? [];
+  }
+
+  clearBreadcrumbs(): void {
+    this.breadcrumbTrail?.clear();
+  }
+
+  /**
+   * Report a caught exception as a structured error event, the same as
+   * uncaught errors but with handled set to true
+   */
+  captureException(
+    error: unknown,
+    options: CaptureExceptionOptions = {}
+  ): void {
+    try {
+      const event = createErrorEvent(error, {
+        ...options,
+        eventName: "captured_exception",
+        mechanism: "captureException",
+        handled: true,
+        breadcrumbs: this.getBreadcrumbs(),
+      });
+      if (this.errorDeduplicator.track(event)) {
+        this.capture(event);
+      }
+    } catch (captureError) {
+      this.logger.error("Failed to capture exception", {
+        error:
+          captureError instanceof Error
+            ? captureError.message
+            : String(captureError),
+      });
+    }
+  }
+
+  /**
+   * Report a message as an error event without a stack, grouped by its text
+   */
+  captureMessage(message: string, level: SeverityLevel = "info"): void {
+    try {
+      if (!message || typeof message !== "string") {
+        throw new Error("Message is required and must be a string");
+      }
+      const event = createErrorEvent(
+        { name: "Message", message },
+        {
+          eventName: "captured_message",
+          mechanism: "captureMessage",
+          handled: true,
+          level,
+          breadcrumbs: this.getBreadcrumbs(),
+        }
+      );
+      if (this.errorDeduplicator.track(event)) {
+        this.capture(event);
+      }
+    } catch (error) {
+      this.logger.error("Failed to capture message", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
   getUserId(): string | undefined {
     return this.userId;
   }
 
+  getAnonymousId(): string {
+    return this.anonymousId;
+  }
+
+  /**
+   * Replace the properties added to every event payload
+   */
+  setGlobalContext(context: Record<string, unknown>): void {
+    try {
+      if (!context || typeof context !== "object" || Array.isArray(context)) {
+        throw new Error("Context must be an object");
+      }
+      this.eventProcessor.setGlobalContext(context);
+    } catch (error) {
+      this.logger.error("Failed to set global context", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Merge properties into the global context, keeping existing keys not in context
+   */
+  updateGlobalContext(context: Record<string, unknown>): void {
+    try {
+      if (!context || typeof context !== "object" || Array.isArray(context)) {
+        throw new Error("Context must be an object");
+      }
+      this.eventProcessor.setGlobalContext({
+        ...this.eventProcessor.getGlobalContext(),
+        ...context,
+      });
+    } catch (error) {
+      this.logger.error("Failed to update global context", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  removeGlobalContext(...keys: string[]): void {
+    const context = this.eventProcessor.getGlobalContext();
+    keys.forEach(key => delete context[key]);
+    this.eventProcessor.setGlobalContext(context);
+  }
+
+  getGlobalContext(): Record<string, unknown> {
+    return this.eventProcessor.getGlobalContext();
+  }
+
+  /**
+   * Run fn with extra context added to the events it captures. Only events
+   * captured synchronously inside fn are covered; the scope ends when fn returns,
+   * but events still in async beforeSend hooks keep it.
+   */
+  withContext<T>(context: Record<string, unknown>, fn: () => T): T {
+    try {
+      this.eventProcessor.pushContextScope(context);
+    } catch (error) {
+      this.logger.error("Failed to apply scoped context", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return fn();
+    }
+    try {
+      return fn();
+    } finally {
+      this.eventProcessor.popContextScope();
+    }
+  }
+
   clearUserIdentification(): void {
     if (this.userId) {
       clearUserProperties(this.userId);
@@ -419,14 +1034,35 @@ export class TelemetryManager {
     return this.pluginManager.getCustomEventsPlugin();
   }
 
+  getPlugin<T extends TelemetryPlugin>(
+    pluginClass: abstract new (...args: never[]) => T
+  ): T | undefined {
+    return this.pluginManager.getPlugin(pluginClass);
+  }
+
   getEndpoint(): string {
     return HYPERLOOK_URL;
   }
 
+  /**
+   * URLs the enabled exporters send to, so plugins can leave the SDK's own requests out
+   */
+  getExporterEndpoints(): string[] {
+    return this.exportManager.getEndpoints();
+  }
+
   getCircuitBreakerState() {
     return this.exportManager.getCircuitBreakerState();
   }
 
+  getRateLimitState() {
+    return this.exportManager.getRateLimitState();
+  }
+
+  getExporterStates() {
+    return this.exportManager.getExporterStates();
+  }
+
   private processEarlyEventQueue(): void {
     if (earlyEventQueue.length === 0) {
       return;
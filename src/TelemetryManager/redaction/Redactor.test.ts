@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { Redactor } from "./Redactor";
+import { passesLuhnCheck } from "./detectors";
+import type { RedactionConfig, TelemetryEvent } from "../../types";
+
+const redact = (value: unknown, config?: RedactionConfig): unknown => {
+  const event: TelemetryEvent = {
+    eventType: "custom",
+    eventName: "test",
+    payload: { value },
+    timestamp: "2026-01-01T00:00:00.000Z",
+  };
+  return new Redactor(config).redactEvent(event).payload.value;
+};
+
+describe("Redactor", () => {
+  it("redacts emails, JWTs and bearer tokens", () => {
+    expect(redact("contact jane.doe@example.com")).toBe(
+      "contact [REDACTED_EMAIL]"
+    );
+    expect(redact("Authorization: Bearer abc.def-123")).toBe(
+      "Authorization: Bearer [REDACTED]"
+    );
+    expect(redact("session eyJhbGciOi.eyJzdWIiOi.c2lnbmF0dXJl")).toBe(
+      "session [REDACTED_JWT]"
+    );
+  });
+
+  it("redacts card numbers only when they pass the Luhn check", () => {
+    expect(redact("card 4111 1111 1111 1111")).toBe("card [REDACTED_CARD]");
+    expect(redact("card 4111 1111 1111 1112")).toBe("card 4111 1111 1111 1112");
+    // Epoch milliseconds have no card network prefix
+    expect(redact("at 1767225600000")).toBe("at 1767225600000");
+  });
+
+  it("redacts IPv4 and IPv6 addresses", () => {
+    expect(redact("client 192.168.1.20 connected")).toBe(
+      "client [REDACTED_IP] connected"
+    );
+    expect(redact("http://10.0.0.1:8080/health")).toBe(
+      "http://[REDACTED_IP]:8080/health"
+    );
+    expect(redact("from 2001:db8::8a2e:370:7334")).toBe("from [REDACTED_IP]");
+  });
+
+  it("keeps version numbers that look like IPv4 addresses", () => {
+    const userAgent =
+      "Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 Chrome/120.0.0.0 Safari/537.36";
+
+    expect(redact(userAgent)).toBe(userAgent);
+    expect(redact("build 1.2.3.4.5")).toBe("build 1.2.3.4.5");
+    expect(redact("v10.0.0.1")).toBe("v10.0.0.1");
+  });
+
+  it("redacts denied keys and sensitive query parameters", () => {
+    const event: TelemetryEvent = {
+      eventType: "custom",
+      eventName: "test",
+      payload: {
+        password: "hunter2",
+        url: "https://example.com/cb?code=abc&state=xyz",
+      },
+      timestamp: "2026-01-01T00:00:00.000Z",
+    };
+
+    expect(new Redactor().redactEvent(event).payload).toEqual({
+      password: "[REDACTED]",
+      url: "https://example.com/cb?code=[REDACTED]&state=xyz",
+    });
+  });
+
+  it("skips disabled detectors", () => {
+    expect(redact("10.0.0.1", { detectors: { ipAddress: false } })).toBe(
+      "10.0.0.1"
+    );
+  });
+});
+
+describe("passesLuhnCheck", () => {
+  it("validates the checksum digit", () => {
+    expect(passesLuhnCheck("4111111111111111")).toBe(true);
+    expect(passesLuhnCheck("4111111111111112")).toBe(false);
+  });
+});
@@ -0,0 +1,141 @@
+import type { TelemetryEvent, RedactionConfig } from "../../types";
+import {
+  BUILT_IN_DETECTORS,
+  DEFAULT_DENY_KEYS,
+  DEFAULT_SENSITIVE_QUERY_PARAMS,
+  type Detector,
+} from "./detectors";
+
+type CompiledRule = {
+  pattern: RegExp;
+  replacement: string;
+};
+
+const MAX_DEPTH = 20;
+
+const normalizeKey = (key: string): string =>
+  key.toLowerCase().replace(/[-_]/g, "");
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export class Redactor {
+  private detectors: Detector[];
+  private rules: CompiledRule[];
+  private allowKeys: Set<string>;
+  private denyKeys: Set<string>;
+  private sensitiveQueryParams: Set<string>;
+  private queryParamPattern: RegExp;
+  private replacement: string;
+
+  constructor(config: RedactionConfig = {}) {
+    this.replacement = config.replacement ?? "[REDACTED]";
+    this.detectors = BUILT_IN_DETECTORS.filter(
+      detector => config.detectors?.[detector.name] !== false
+    );
+    this.rules = (config.rules ?? []).map(rule => {
+      const source =
+        typeof rule.pattern === "string" ? rule.pattern : rule.pattern.source;
+      const flags = typeof rule.pattern === "string" ? "" : rule.pattern.flags;
+      return {
+        pattern: new RegExp(source, flags.includes("g") ? flags : `${flags}g`),
+        replacement: rule.replacement ?? this.replacement,
+      };
+    });
+    this.allowKeys = new Set((config.allowKeys ?? []).map(normalizeKey));
+    this.denyKeys = new Set(
+      [...DEFAULT_DENY_KEYS, ...(config.denyKeys ?? [])].map(normalizeKey)
+    );
+
+    const queryParams = [
+      ...DEFAULT_SENSITIVE_QUERY_PARAMS,
+      ...(config.sensitiveQueryParams ?? []),
+    ];
+    this.sensitiveQueryParams = new Set(queryParams.map(normalizeKey));
+    // Matches "name=value" after ?, & or ; anywhere in a string, not only in parsed URLs
+    this.queryParamPattern = new RegExp(
+      `([?&;](?:${queryParams.map(escapeRegExp).join("|")})=)[^&#;\\s"']*`,
+      "gi"
+    );
+  }
+
+  /**
+   * Returns a copy of the event with sensitive values in its payload replaced.
+   * Session replay events are left alone, rrweb masking covers them.
+   */
+  redactEvent(event: TelemetryEvent): TelemetryEvent {
+    if (event.eventType === "session_replay") {
+      return event;
+    }
+
+    const payload = this.redactValue(event.payload, 0) as Record<
+      string,
+      unknown
+    >;
+
+    // Network payloads: query param keys are redacted even if not in denyKeys
+    if (
+      (event.eventType === "network" || event.eventType === "supabase") &&
+      payload.queryParams &&
+      typeof payload.queryParams === "object"
+    ) {
+      payload.queryParams = this.redactQueryParams(
+        payload.queryParams as Record<string, unknown>
+      );
+    }
+
+    return { ...event, payload };
+  }
+
+  redactString(value: string): string {
+    let result = value.replace(this.queryParamPattern, `$1${this.replacement}`);
+    for (const detector of this.detectors) {
+      result = result.replace(detector.pattern, detector.replace);
+    }
+    for (const rule of this.rules) {
+      result = result.replace(rule.pattern, rule.replacement);
+    }
+    return result;
+  }
+
+  private redactValue(value: unknown, depth: number): unknown {
+    if (typeof value === "string") {
+      return this.redactString(value);
+    }
+    if (!value || typeof value !== "object" || depth > MAX_DEPTH) {
+      return value;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactValue(item, depth + 1));
+    }
+
+    const redacted: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      const normalizedKey = normalizeKey(key);
+      if (this.allowKeys.has(normalizedKey)) {
+        redacted[key] = child;
+      } else if (this.denyKeys.has(normalizedKey)) {
+        redacted[key] =
+          child === null || child === undefined ? child : this.replacement;
+      } else {
+        redacted[key] = this.redactValue(child, depth + 1);
+      }
+    }
+    return redacted;
+  }
+
+  private redactQueryParams(
+    queryParams: Record<string, unknown>
+  ): Record<string, unknown> {
+    const redacted: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(queryParams)) {
+      const normalizedKey = normalizeKey(key);
+      redacted[key] =
+        this.sensitiveQueryParams.has(normalizedKey) &&
+        !this.allowKeys.has(normalizedKey)
+          ? this.replacement
+          : value;
+    }
+    return redacted;
+  }
+}
@@ -0,0 +1,106 @@
+import type { RedactionDetector } from "../../types";
+
+export type Detector = {
+  name: RedactionDetector;
+  pattern: RegExp;
+  replace: (match: string, ...groups: string[]) => string;
+};
+
+// Visa, Mastercard, Amex, Diners, JCB and Discover/UnionPay prefixes
+const CARD_PREFIX_PATTERN = /^(?:4|5[1-5]|2[2-7]|3[0478]|35|6)/;
+
+/**
+ * Luhn checksum, used to tell card numbers apart from other long digit runs
+ */
+export function passesLuhnCheck(digits: string): boolean {
+  let sum = 0;
+  let double = false;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = digits.charCodeAt(i) - 48;
+    if (double) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+    double = !double;
+  }
+  return sum % 10 === 0;
+}
+
+// Order matters: bearer tokens often wrap JWTs, so they are replaced first
+export const BUILT_IN_DETECTORS: Detector[] = [
+  {
+    name: "bearerToken",
+    pattern: /\b(Bearer|Basic|Token)\s+[A-Za-z0-9\-._~+/]+=*/gi,
+    replace: (_match, scheme) => `${scheme} [REDACTED]`,
+  },
+  {
+    name: "jwt",
+    pattern: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g,
+    replace: () => "[REDACTED_JWT]",
+  },
+  {
+    name: "email",
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+    replace: () => "[REDACTED_EMAIL]",
+  },
+  {
+    name: "creditCard",
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    replace: match => {
+      const digits = match.replace(/[ -]/g, "");
+      // Require a card network prefix so epoch-millisecond strings aren't caught
+      return CARD_PREFIX_PATTERN.test(digits) && passesLuhnCheck(digits)
+        ? "[REDACTED_CARD]"
+        : match;
+    },
+  },
+  {
+    name: "ipAddress",
+    // IPv4 must not continue a dotted number or follow "name/", so versions like Chrome/120.0.0.0 are kept
+    pattern:
+      /(?<![\w.])(?<!\w\/)(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b(?!\.\d)|\b(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4}\b|\b(?:[0-9a-f]{1,4}:){1,6}:(?:[0-9a-f]{1,4}:){0,5}[0-9a-f]{1,4}\b/gi,
+    replace: () => "[REDACTED_IP]",
+  },
+];
+
+// Keys are compared lowercased with "-" and "_" removed
+export const DEFAULT_DENY_KEYS = [
+  "password",
+  "passwd",
+  "secret",
+  "clientsecret",
+  "token",
+  "accesstoken",
+  "refreshtoken",
+  "idtoken",
+  "apikey",
+  "xapikey",
+  "authorization",
+  "proxyauthorization",
+  "cookie",
+  "setcookie",
+  "creditcard",
+  "cardnumber",
+  "cvv",
+  "ssn",
+];
+
+export const DEFAULT_SENSITIVE_QUERY_PARAMS = [
+  "token",
+  "access_token",
+  "refresh_token",
+  "id_token",
+  "apikey",
+  "api_key",
+  "key",
+  "secret",
+  "client_secret",
+  "password",
+  "auth",
+  "code",
+  "signature",
+  "sig",
+];
@@ -0,0 +1,2 @@
+export { Redactor } from "./Redactor";
+export { BUILT_IN_DETECTORS, passesLuhnCheck } from "./detectors";
@@ -0,0 +1,79 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { EventStorage, PersistedBatch } from "../../types";
+
+/**
+ * Offline queue storage in a JSON file, exported from the node entry
+ */
+export class FileStorage implements EventStorage {
+  private directory: string | undefined;
+  private fileName: string;
+
+  constructor(
+    directory?: string,
+    fileName: string = "telemetry-sdk-offline-queue"
+  ) {
+    this.directory = directory;
+    this.fileName = fileName.endsWith(".json") ? fileName : `${fileName}.json`;
+  }
+
+  isSupported(): boolean {
+    return (
+      typeof window === "undefined" &&
+      typeof process !== "undefined" &&
+      !!process.versions?.node
+    );
+  }
+
+  async load(): Promise<PersistedBatch[]> {
+    return this.read();
+  }
+
+  async save(batch: PersistedBatch): Promise<void> {
+    const batches = (await this.read()).filter(
+      existing => existing.id !== batch.id
+    );
+    batches.push(batch);
+    await this.write(batches);
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    const idsToRemove = new Set(ids);
+    const batches = await this.read();
+    await this.write(batches.filter(batch => !idsToRemove.has(batch.id)));
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.getFilePath(), { force: true });
+  }
+
+  private getFilePath(): string {
+    const directory =
+      this.directory ?? path.join(process.cwd(), ".telemetry-sdk");
+    return path.join(directory, this.fileName);
+  }
+
+  private async read(): Promise<PersistedBatch[]> {
+    try {
+      const raw = await fs.readFile(this.getFilePath(), "utf8");
+      const parsed = JSON.parse(raw) as unknown;
+      return Array.isArray(parsed) ? (parsed as PersistedBatch[]) : [];
+    } catch {
+      // Missing or corrupted file means there is nothing to replay
+      return [];
+    }
+  }
+
+  private async write(batches: PersistedBatch[]): Promise<void> {
+    const filePath = this.getFilePath();
+    if (batches.length === 0) {
+      await fs.rm(filePath, { force: true });
+      return;
+    }
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    // Write to a temp file first so a crash mid-write can't corrupt the queue
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(batches), "utf8");
+    await fs.rename(tempPath, filePath);
+  }
+}
@@ -0,0 +1,87 @@
+import type { EventStorage, PersistedBatch } from "../../types";
+
+const STORE_NAME = "batches";
+
+export class IndexedDBStorage implements EventStorage {
+  private databaseName: string;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(databaseName: string = "telemetry-sdk-offline-queue") {
+    this.databaseName = databaseName;
+  }
+
+  isSupported(): boolean {
+    return (
+      typeof globalThis.indexedDB !== "undefined" &&
+      globalThis.indexedDB !== null
+    );
+  }
+
+  async load(): Promise<PersistedBatch[]> {
+    const batches = await this.withStore<PersistedBatch[]>("readonly", store =>
+      store.getAll()
+    );
+    return batches ?? [];
+  }
+
+  async save(batch: PersistedBatch): Promise<void> {
+    await this.withStore("readwrite", store => store.put(batch));
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+    const db = await this.openDatabase();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, "readwrite");
+      const store = transaction.objectStore(STORE_NAME);
+      ids.forEach(id => store.delete(id));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () =>
+        reject(transaction.error ?? new Error("IndexedDB delete failed"));
+      transaction.onabort = () =>
+        reject(transaction.error ?? new Error("IndexedDB delete aborted"));
+    });
+  }
+
+  async clear(): Promise<void> {
+    await this.withStore("readwrite", store => store.clear());
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = globalThis.indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            db.createObjectStore(STORE_NAME, { keyPath: "id" });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () =>
+          reject(request.error ?? new Error("Failed to open IndexedDB"));
+      }).catch(error => {
+        // Allow a later call to retry opening the database
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async withStore<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.openDatabase();
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = operation(transaction.objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () =>
+        reject(request.error ?? new Error("IndexedDB request failed"));
+    });
+  }
+}
@@ -0,0 +1,69 @@
+import type { EventStorage, PersistedBatch } from "../../types";
+
+export class LocalStorageStorage implements EventStorage {
+  private storageKey: string;
+
+  constructor(storageKey: string = "telemetry-sdk-offline-queue") {
+    this.storageKey = storageKey;
+  }
+
+  isSupported(): boolean {
+    try {
+      if (typeof window === "undefined" || !window.localStorage) {
+        return false;
+      }
+      // Safari private mode exposes localStorage but throws on write
+      const probeKey = `${this.storageKey}__probe`;
+      window.localStorage.setItem(probeKey, "1");
+      window.localStorage.removeItem(probeKey);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  load(): Promise<PersistedBatch[]> {
+    return Promise.resolve(this.read());
+  }
+
+  save(batch: PersistedBatch): Promise<void> {
+    const batches = this.read().filter(existing => existing.id !== batch.id);
+    batches.push(batch);
+    this.write(batches);
+    return Promise.resolve();
+  }
+
+  remove(ids: string[]): Promise<void> {
+    const idsToRemove = new Set(ids);
+    this.write(this.read().filter(batch => !idsToRemove.has(batch.id)));
+    return Promise.resolve();
+  }
+
+  clear(): Promise<void> {
+    window.localStorage.removeItem(this.storageKey);
+    return Promise.resolve();
+  }
+
+  private read(): PersistedBatch[] {
+    const raw = window.localStorage.getItem(this.storageKey);
+    if (!raw) {
+      return [];
+    }
+    try {
+      const parsed = JSON.parse(raw) as unknown;
+      return Array.isArray(parsed) ? (parsed as PersistedBatch[]) : [];
+    } catch {
+      // Corrupted entry - start over rather than failing every flush
+      window.localStorage.removeItem(this.storageKey);
+      return [];
+    }
+  }
+
+  private write(batches: PersistedBatch[]): void {
+    if (batches.length === 0) {
+      window.localStorage.removeItem(this.storageKey);
+      return;
+    }
+    window.localStorage.setItem(this.storageKey, JSON.stringify(batches));
+  }
+}
@@ -0,0 +1,41 @@
+import type { EventStorage, Logger, OfflineQueueConfig } from "../../types";
+import { IndexedDBStorage } from "./IndexedDBStorage";
+import { LocalStorageStorage } from "./LocalStorageStorage";
+
+export { IndexedDBStorage, LocalStorageStorage };
+
+/**
+ * Resolves the storage backend for the offline queue.
+ * "auto" prefers IndexedDB, then localStorage. Node.js passes a FileStorage
+ * from the node entry.
+ * @returns The first supported storage, or null if none is available
+ */
+export function createEventStorage(
+  config: OfflineQueueConfig,
+  logger: Logger
+): EventStorage | null {
+  const storage = config.storage ?? "auto";
+
+  if (typeof storage === "object") {
+    return storage.isSupported() ? storage : null;
+  }
+
+  const candidates: EventStorage[] = [];
+  if (storage === "auto" || storage === "indexeddb") {
+    candidates.push(new IndexedDBStorage(config.storageKey));
+  }
+  if (storage === "auto" || storage === "localstorage") {
+    candidates.push(new LocalStorageStorage(config.storageKey));
+  }
+
+  const supported = candidates.find(candidate => candidate.isSupported());
+  if (!supported) {
+    logger.warn("No supported offline storage found", { storage });
+    return null;
+  }
+
+  logger.debug("Offline storage selected", {
+    storage: supported.constructor.name,
+  });
+  return supported;
+}
@@ -20,4 +20,36 @@ export interface CircuitBreakerState {
 export interface EnhancedError extends Error {
   isRetryable?: boolean;
   errorType?: string;
+  retryAfter?: number; // Milliseconds the server asked to wait before retrying
+}
+
+export interface RateLimitState {
+  isRateLimited: boolean;
+  rateLimitedUntil: number; // Timestamp flushing resumes at, 0 when never paused
+  lastRetryAfter: number; // Pause requested by the last rate limited response
+  rateLimitCount: number; // Rate limited responses since the last successful export
+}
+
+export interface ExporterChannelOptions {
+  endpoint?: string;
+  maxRetries: number; // Attempts per batch, best-effort exporters get one
+  baseRetryDelay: number;
+  maxRetryDelay: number;
+  maxPendingEvents: number; // Oldest pending events are dropped beyond this
+  isRequired: boolean; // The delivery policy needs this exporter to accept every event
+  isBestEffort: boolean; // Failed events are dropped instead of kept for a retry
+}
+
+export interface ExporterChannelState {
+  exporter: string;
+  isRequired: boolean;
+  isBestEffort: boolean;
+  pendingEvents: number;
+  circuitBreaker: CircuitBreakerState;
+  rateLimit: RateLimitState;
+}
+
+export interface BatchLimits {
+  maxEvents: number; // Count budget
+  maxBytes: number; // Byte budget of the serialized batch
 }
@@ -0,0 +1,24 @@
+export function generateAnonymousId(): string {
+  return `anon_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Returns the anonymous ID kept in localStorage, creating it on first use.
+ * Falls back to a per-instance ID where storage is unavailable (Node.js, private mode).
+ */
+export function loadAnonymousId(storageKey: string): string {
+  try {
+    if (typeof window === "undefined" || !window.localStorage) {
+      return generateAnonymousId();
+    }
+    const stored = window.localStorage.getItem(storageKey);
+    if (stored) {
+      return stored;
+    }
+    const anonymousId = generateAnonymousId();
+    window.localStorage.setItem(storageKey, anonymousId);
+    return anonymousId;
+  } catch {
+    return generateAnonymousId();
+  }
+}
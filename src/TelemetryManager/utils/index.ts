@@ -4,3 +4,5 @@ export * from "./sanitizeString";
 export * from "./generateSessionId";
 export * from "./retryUtils";
 export * from "./generateEventId";
+export * from "./anonymousId";
+export * from "./toBreadcrumb";
@@ -31,3 +31,29 @@ export function extractErrorMessages(errors: unknown[]): string[] {
     error instanceof Error ? error.message : String(error)
   );
 }
+
+/**
+ * Finds the longest pause requested by rate limited or throttling responses
+ * @param errors - Array of errors
+ * @param defaultDelay - Pause for rate limited errors that did not say how long to wait
+ * @returns The delay in milliseconds, or undefined if no error asked for a pause
+ */
+export function extractRetryAfter(
+  errors: unknown[],
+  defaultDelay: number
+): number | undefined {
+  let retryAfter: number | undefined;
+  for (const error of errors) {
+    if (!(error instanceof Error)) {
+      continue;
+    }
+    const enhanced = error as EnhancedError;
+    const delay =
+      enhanced.retryAfter ??
+      (enhanced.errorType === "rate_limited" ? defaultDelay : undefined);
+    if (delay !== undefined) {
+      retryAfter = Math.max(retryAfter ?? 0, delay);
+    }
+  }
+  return retryAfter;
+}
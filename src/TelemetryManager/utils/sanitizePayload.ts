@@ -1,5 +1,7 @@
 import { sanitizeString } from "./sanitizeString";
 
+export const MAX_PAYLOAD_KEYS = 100;
+
 export function sanitizePayload(
   payload: Record<string, unknown>,
   seen = new WeakSet<object>()
@@ -15,8 +17,8 @@ export function sanitizePayload(
 
   const sanitized: Record<string, unknown> = {};
   const keys = Object.keys(payload);
-  if (keys.length > 100) {
-    throw new Error("Payload has too many keys (max 100)");
+  if (keys.length > MAX_PAYLOAD_KEYS) {
+    throw new Error(`Payload has too many keys (max ${MAX_PAYLOAD_KEYS})`);
   }
 
   // Add current object to seen set to detect circular references
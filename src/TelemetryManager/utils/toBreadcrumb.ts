@@ -0,0 +1,113 @@
+import type { Breadcrumb, BreadcrumbLevel, TelemetryEvent } from "../../types";
+
+const MAX_MESSAGE_LENGTH = 200;
+// Only finished requests, not SSE messages or stream chunks
+const NETWORK_EVENT_PATTERN = /(?:fetch|xhr)_(?:complete|error)$/;
+
+const truncate = (value: string): string =>
+  value.length > MAX_MESSAGE_LENGTH
+    ? `${value.slice(0, MAX_MESSAGE_LENGTH)}...`
+    : value;
+
+const getConsoleLevel = (eventName: string): BreadcrumbLevel => {
+  switch (eventName) {
+    case "console_error":
+      return "error";
+    case "console_warn":
+      return "warning";
+    case "console_debug":
+      return "debug";
+    default:
+      return "info";
+  }
+};
+
+const getNetworkLevel = (
+  eventName: string,
+  status: number | undefined
+): BreadcrumbLevel => {
+  if (eventName.endsWith("_error") || (status !== undefined && status >= 500)) {
+    return "error";
+  }
+  return status !== undefined && status >= 400 ? "warning" : "info";
+};
+
+/**
+ * Summarizes a click, page view, console or network event as a breadcrumb
+ * @returns The breadcrumb, or null for events that don't make one
+ */
+export function toBreadcrumb(event: TelemetryEvent): Breadcrumb | null {
+  const payload = event.payload ?? {};
+  const timestamp = event.timestamp;
+
+  if (event.eventType === "interaction" && event.eventName === "click") {
+    const element = (payload.element ?? {}) as {
+      selector?: string;
+      tagName?: string;
+      textContent?: string | null;
+    };
+    const text = element.textContent?.trim().slice(0, 50);
+    return {
+      category: "click",
+      message: truncate(element.selector ?? element.tagName ?? "unknown"),
+      level: "info",
+      timestamp,
+      ...(text && { data: { text } }),
+    };
+  }
+
+  if (event.eventType === "page" && event.eventName === "page_hit") {
+    const url = typeof payload.url === "string" ? payload.url : "";
+    return {
+      category: "navigation",
+      message: truncate(url),
+      level: "info",
+      timestamp,
+      data: {
+        ...(typeof payload.title === "string" && { title: payload.title }),
+        isNavigation: payload.isNavigation === true,
+      },
+    };
+  }
+
+  if (event.eventType === "console") {
+    const message =
+      typeof payload.message === "string" ? payload.message : event.eventName;
+    return {
+      category: "console",
+      message: truncate(message),
+      level: getConsoleLevel(event.eventName),
+      timestamp,
+    };
+  }
+
+  if (
+    (event.eventType === "network" || event.eventType === "supabase") &&
+    NETWORK_EVENT_PATTERN.test(event.eventName)
+  ) {
+    const method = typeof payload.method === "string" ? payload.method : "GET";
+    const url = typeof payload.url === "string" ? payload.url : "";
+    const status =
+      typeof payload.responseStatus === "number"
+        ? payload.responseStatus
+        : undefined;
+    return {
+      category: "network",
+      message: truncate(
+        status !== undefined ? `${method} ${url} ${status}` : `${method} ${url}`
+      ),
+      level: getNetworkLevel(event.eventName, status),
+      timestamp,
+      data: {
+        method,
+        url: truncate(url),
+        ...(status !== undefined && { status }),
+        ...(typeof payload.duration === "number" && {
+          duration: payload.duration,
+        }),
+      },
+    };
+  }
+
+  return null;
+}
@@ -1,5 +1,6 @@
 import type { TelemetryConfig } from "../../types";
 import { ExporterType } from "../../types/ExporterTypes";
+import { MAX_PAYLOAD_KEYS } from "./sanitizePayload";
 
 export function validateConfig(config: TelemetryConfig): void {
   // Endpoint validation removed since we use hardcoded Hyperlook URL
@@ -15,6 +16,47 @@ export function validateConfig(config: TelemetryConfig): void {
     );
   }
 
+  // Validate OTLP collector endpoint if OTLP exporter is enabled
+  if (
+    exportersToEnable.includes(ExporterType.OTLP) &&
+    !config.otlpEndpoint &&
+    !config.endpoint
+  ) {
+    throw new Error(
+      "An otlpEndpoint or endpoint is required when OTLP exporter is enabled"
+    );
+  }
+
+  // Validate beforeSend hooks
+  if (config.beforeSend !== undefined) {
+    const hooks = Array.isArray(config.beforeSend)
+      ? config.beforeSend
+      : [config.beforeSend];
+    if (hooks.some(hook => typeof hook !== "function")) {
+      throw new Error("beforeSend must be a function or an array of functions");
+    }
+  }
+  if (config.beforeSendTimeout !== undefined && config.beforeSendTimeout <= 0) {
+    throw new Error("beforeSend timeout must be greater than 0");
+  }
+
+  // Validate redaction rules
+  config.redaction?.rules?.forEach((rule, index) => {
+    if (typeof rule.pattern === "string") {
+      try {
+        new RegExp(rule.pattern);
+      } catch {
+        throw new Error(
+          `Redaction rule ${rule.name ?? index} has an invalid pattern`
+        );
+      }
+    } else if (!(rule.pattern instanceof RegExp)) {
+      throw new Error(
+        `Redaction rule ${rule.name ?? index} pattern must be a RegExp or string`
+      );
+    }
+  });
+
   // Validate sampling rate
   if (
     config.samplingRate !== undefined &&
@@ -23,11 +65,30 @@ export function validateConfig(config: TelemetryConfig): void {
     throw new Error("Sampling rate must be between 0 and 1");
   }
 
+  // Validate sampling mode
+  if (
+    config.samplingMode !== undefined &&
+    !["random", "session", "user"].includes(config.samplingMode)
+  ) {
+    throw new Error('Sampling mode must be "random", "session" or "user"');
+  }
+
+  // Validate sampling rules
+  config.samplingRules?.forEach((rule, index) => {
+    if (typeof rule.rate !== "number" || rule.rate < 0 || rule.rate > 1) {
+      throw new Error(`Sampling rule ${index} rate must be between 0 and 1`);
+    }
+  });
+
   // Validate batch size
   if (config.batchSize !== undefined && config.batchSize <= 0) {
     throw new Error("Batch size must be greater than 0");
   }
 
+  if (config.maxBatchBytes !== undefined && config.maxBatchBytes < 1024) {
+    throw new Error("Max batch bytes must be at least 1KB");
+  }
+
   // Validate flush interval
   if (config.flushInterval !== undefined && config.flushInterval < 0) {
     throw new Error("Flush interval must be non-negative");
@@ -98,6 +159,104 @@ export function validateConfig(config: TelemetryConfig): void {
     );
   }
 
+  // Validate delivery settings
+  if (
+    config.deliveryPolicy !== undefined &&
+    !["any", "all", "primary"].includes(config.deliveryPolicy)
+  ) {
+    throw new Error('Delivery policy must be "any", "all" or "primary"');
+  }
+
+  if (
+    config.maxPendingEventsPerExporter !== undefined &&
+    config.maxPendingEventsPerExporter < 0
+  ) {
+    throw new Error("Max pending events per exporter must be non-negative");
+  }
+
+  // Validate offline queue settings
+  if (config.offlineQueue?.ttl !== undefined && config.offlineQueue.ttl <= 0) {
+    throw new Error("Offline queue TTL must be greater than 0");
+  }
+
+  if (
+    config.offlineQueue?.maxBytes !== undefined &&
+    config.offlineQueue.maxBytes < 1024
+  ) {
+    throw new Error("Offline queue max bytes must be at least 1KB");
+  }
+
+  // Validate global context
+  if (config.globalContext !== undefined) {
+    if (
+      typeof config.globalContext !== "object" ||
+      config.globalContext === null ||
+      Array.isArray(config.globalContext)
+    ) {
+      throw new Error("Global context must be an object");
+    }
+    if (Object.keys(config.globalContext).length > MAX_PAYLOAD_KEYS) {
+      throw new Error(
+        `Global context has too many keys (max ${MAX_PAYLOAD_KEYS})`
+      );
+    }
+  }
+
+  // Validate session settings
+  if (
+    config.session?.inactivityTimeout !== undefined &&
+    config.session.inactivityTimeout <= 0
+  ) {
+    throw new Error("Session inactivity timeout must be greater than 0");
+  }
+
+  if (
+    config.session?.maxDuration !== undefined &&
+    config.session.maxDuration <= 0
+  ) {
+    throw new Error("Session max duration must be greater than 0");
+  }
+
+  // Validate breadcrumb settings
+  if (
+    config.breadcrumbs?.maxBreadcrumbs !== undefined &&
+    (!Number.isInteger(config.breadcrumbs.maxBreadcrumbs) ||
+      config.breadcrumbs.maxBreadcrumbs < 1)
+  ) {
+    throw new Error("Max breadcrumbs must be a positive integer");
+  }
+
+  if (
+    config.breadcrumbs?.categories !== undefined &&
+    !Array.isArray(config.breadcrumbs.categories)
+  ) {
+    throw new Error("Breadcrumb categories must be an array");
+  }
+
+  // Validate Node.js runtime settings
+  if (
+    config.nodeRuntime?.metricsInterval !== undefined &&
+    config.nodeRuntime.metricsInterval < 0
+  ) {
+    throw new Error("Node runtime metrics interval must be non-negative");
+  }
+
+  // Validate compression settings
+  if (
+    config.compression?.algorithm !== undefined &&
+    config.compression.algorithm !== "gzip" &&
+    config.compression.algorithm !== "deflate"
+  ) {
+    throw new Error('Compression algorithm must be "gzip" or "deflate"');
+  }
+
+  if (
+    config.compression?.threshold !== undefined &&
+    config.compression.threshold < 0
+  ) {
+    throw new Error("Compression threshold must be non-negative");
+  }
+
   // Validate Hyperlook-specific settings
   if (
     config.hyperlookMaxBatchSize !== undefined &&
@@ -7,3 +7,15 @@ export const SDK_VERSION = "1.0.20";
 
 // Maximum batch size for telemetry events (100KB)
 export const MAX_BATCH_SIZE_BYTES = 100 * 1024;
+
+// Maximum batch size for session replay events (5MB)
+export const MAX_SESSION_REPLAY_BATCH_SIZE_BYTES = 5 * 1024 * 1024;
+
+// Maximum payload size browsers accept for sendBeacon (64KB)
+export const MAX_BEACON_SIZE_BYTES = 64 * 1024;
+
+// Longest pause honoured from a Retry-After header or rate limit response (1 hour)
+export const MAX_RETRY_AFTER_MS = 60 * 60 * 1000;
+
+// Events kept per exporter while it is failing and other exporters deliver
+export const MAX_EXPORTER_PENDING_EVENTS = 1000;
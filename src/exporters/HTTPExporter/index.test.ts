@@ -0,0 +1,85 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { HTTPExporter } from "./index";
+import type { TelemetryEvent } from "../../types";
+import type { EnhancedError } from "../../TelemetryManager/types";
+
+const event: TelemetryEvent = {
+  eventType: "custom",
+  eventName: "checkout",
+  payload: { step: 1 },
+  timestamp: "2026-01-01T00:00:00.000Z",
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("HTTPExporter", () => {
+  it("rejects methods that cannot carry a body", () => {
+    expect(() => new HTTPExporter({ method: "get" })).toThrow(/GET or HEAD/);
+    expect(() => new HTTPExporter({ method: "HEAD" })).toThrow(/GET or HEAD/);
+    expect(() => new HTTPExporter({ method: "PUT" })).not.toThrow();
+  });
+
+  it("sends the serialized body with its content type and headers", async () => {
+    const fetch = vi.fn().mockResolvedValue(new Response(null));
+    vi.stubGlobal("fetch", fetch);
+    const exporter = new HTTPExporter({
+      endpoint: "https://collector.example.com/ingest",
+      method: "put",
+      contentType: "application/x-ndjson",
+      serializer: events => events.map(e => JSON.stringify(e)).join("\n"),
+      headers: () => Promise.resolve({ Authorization: "Bearer token" }),
+    });
+
+    await exporter.export([event, event]);
+
+    const [url, init] = fetch.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe("https://collector.example.com/ingest");
+    expect(init.method).toBe("PUT");
+    expect(init.body).toBe(
+      `${JSON.stringify(event)}\n${JSON.stringify(event)}`
+    );
+    expect(init.headers).toMatchObject({
+      "Content-Type": "application/x-ndjson",
+      Authorization: "Bearer token",
+    });
+  });
+
+  it("marks 429 responses retryable and keeps their Retry-After", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue(
+        new Response("", {
+          status: 429,
+          statusText: "Too Many Requests",
+          headers: { "Retry-After": "7" },
+        })
+      )
+    );
+    const exporter = new HTTPExporter({ endpoint: "https://collector" });
+
+    const error = await exporter.export([event]).catch(e => e as EnhancedError);
+
+    expect(error).toMatchObject({
+      isRetryable: true,
+      errorType: "rate_limited",
+      retryAfter: 7000,
+    });
+  });
+
+  it("does not retry other client errors", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue(new Response("", { status: 400 }))
+    );
+    const exporter = new HTTPExporter({ endpoint: "https://collector" });
+
+    const error = await exporter.export([event]).catch(e => e as EnhancedError);
+
+    expect(error).toMatchObject({
+      isRetryable: false,
+      errorType: "client_error",
+    });
+  });
+});
@@ -1,17 +1,60 @@
-import type { TelemetryExporter, TelemetryEvent } from "../types";
-import { getLogger } from "../logger";
-import { getCurrentVersion } from "../utils/versionUtils";
-import type { EnhancedError } from "../TelemetryManager/types";
+import type {
+  TelemetryExporter,
+  TelemetryEvent,
+  CompressionConfig,
+} from "../../types";
+import { getLogger } from "../../logger";
+import { getCurrentVersion } from "../../utils/versionUtils";
+import { encodePayload } from "../../utils/compression";
+import { getRetryAfter } from "../../utils/retryAfter";
+import type { EnhancedError } from "../../TelemetryManager/types";
+import type {
+  HTTPBodySerializer,
+  HTTPExporterOptions,
+  HTTPHeaders,
+  HTTPHeadersProvider,
+} from "./types";
 
 export class HTTPExporter implements TelemetryExporter {
+  readonly name: string;
   private logger = getLogger();
+  private endpoint: string | undefined;
+  private method: string;
+  private headers: HTTPHeadersProvider;
+  private serializer: HTTPBodySerializer | undefined;
+  readonly contentType: string;
   private connectionTimeout: number;
   private requestTimeout: number;
+  private compression: CompressionConfig | undefined;
 
+  /**
+   * @param options - Exporter options, or the connection timeout for the positional form
+   * @param legacyRequestTimeout - Request timeout, positional form only
+   * @param legacyCompression - Compression settings, positional form only
+   */
   constructor(
-    connectionTimeout: number = 10000, // 10 seconds for connection
-    requestTimeout: number = 45000 // 45 seconds for request (increased from 30)
+    options: HTTPExporterOptions | number = {},
+    legacyRequestTimeout?: number,
+    legacyCompression?: CompressionConfig
   ) {
+    const {
+      endpoint,
+      method = "POST",
+      headers = {},
+      serializer,
+      contentType = "application/json",
+      name = "HTTPExporter",
+      connectionTimeout = 10000, // 10 seconds for connection
+      requestTimeout = 45000, // 45 seconds for request (increased from 30)
+      compression, // Compress request bodies, off when undefined
+    }: HTTPExporterOptions = typeof options === "number"
+      ? {
+          connectionTimeout: options,
+          requestTimeout: legacyRequestTimeout,
+          compression: legacyCompression,
+        }
+      : options;
+
     // Validate parameters
     if (connectionTimeout < 0) {
       throw new Error("connectionTimeout must be non-negative");
@@ -25,23 +68,55 @@ export class HTTPExporter implements TelemetryExporter {
       );
     }
 
+    if (!method || typeof method !== "string") {
+      throw new Error("method must be a non-empty string");
+    }
+    // Events travel in the body, which fetch refuses to send with these
+    if (["GET", "HEAD"].includes(method.toUpperCase())) {
+      throw new Error("method must allow a request body, not GET or HEAD");
+    }
+
+    this.name = name;
+    this.endpoint = endpoint;
+    this.method = method.toUpperCase();
+    this.headers = headers;
+    this.serializer = serializer;
+    this.contentType = contentType;
     this.connectionTimeout = connectionTimeout;
     this.requestTimeout = requestTimeout;
+    this.compression = compression;
     this.logger.debug("HttpExporter initialized", {
+      name,
+      endpoint,
+      method: this.method,
       connectionTimeout,
       requestTimeout,
+      compression: compression ? (compression.algorithm ?? "gzip") : "none",
     });
   }
 
   getEndpoint(endpoint?: string): string | undefined {
-    return endpoint;
+    return this.endpoint ?? endpoint;
   }
 
+  /**
+   * The body object, or the serialized body when a serializer is configured
+   */
   transformPayload(events: TelemetryEvent[], _forBeacon?: boolean): unknown {
-    return { events };
+    return this.serializer ? this.serializer(events) : { events };
+  }
+
+  private async resolveHeaders(): Promise<HTTPHeaders> {
+    return typeof this.headers === "function"
+      ? await this.headers()
+      : this.headers;
   }
 
-  async export(events: TelemetryEvent[], endpoint?: string): Promise<void> {
+  async export(
+    events: TelemetryEvent[],
+    sharedEndpoint?: string
+  ): Promise<void> {
+    const endpoint = this.getEndpoint(sharedEndpoint);
     if (!endpoint || endpoint.trim() === "") {
       this.logger.warn("HTTP export skipped - no endpoint configured", {
         eventCount: events.length,
@@ -70,15 +145,23 @@ export class HTTPExporter implements TelemetryExporter {
       }, this.requestTimeout);
 
       try {
+        const body = this.serializer
+          ? this.serializer(events)
+          : JSON.stringify({ events });
+        const encoded = await encodePayload(body, this.compression);
         const response = await fetch(endpoint, {
-          method: "POST",
+          method: this.method,
           headers: {
-            "Content-Type": "application/json",
+            "Content-Type": this.contentType,
             "X-SDK-Version": getCurrentVersion(),
             "User-Agent": `TelemetrySDK/${getCurrentVersion()}`,
             Connection: "keep-alive",
+            ...(await this.resolveHeaders()),
+            ...(encoded.contentEncoding && {
+              "Content-Encoding": encoded.contentEncoding,
+            }),
           },
-          body: JSON.stringify({ events }),
+          body: encoded.body,
           signal: requestController.signal,
           // Add keep-alive for connection reuse
           keepalive: true,
@@ -89,15 +172,23 @@ export class HTTPExporter implements TelemetryExporter {
 
         if (!response.ok) {
           let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+          let errorBody = "";
           try {
-            const errorBody = await response.text();
+            errorBody = await response.text();
             if (errorBody) {
               errorMessage += ` - ${errorBody}`;
             }
           } catch {
             // Ignore error reading response body
           }
-          throw new Error(errorMessage);
+          const statusError: Error & Partial<EnhancedError> = new Error(
+            errorMessage
+          );
+          const retryAfter = getRetryAfter(response, errorBody);
+          if (retryAfter !== undefined) {
+            statusError.retryAfter = retryAfter;
+          }
+          throw statusError;
         }
 
         this.logger.debug("HTTP export successful", {
@@ -124,16 +215,21 @@ export class HTTPExporter implements TelemetryExporter {
           } else if (error.message.includes("HTTP 5")) {
             errorType = "server_error";
             isRetryable = true;
+          } else if (error.message.includes("HTTP 429")) {
+            errorType = "rate_limited";
+            isRetryable = true; // Retried once the server's pause is over
           } else if (error.message.includes("HTTP 4")) {
             errorType = "client_error";
             isRetryable = false; // Don't retry client errors
           }
         }
 
+        const retryAfter = (error as Partial<EnhancedError>).retryAfter;
         this.logger.error("HTTP export failed", {
           endpoint,
           errorType,
           isRetryable,
+          retryAfter,
           error: error instanceof Error ? error.message : String(error),
           errorStack: error instanceof Error ? error.stack : undefined,
           eventCount: events.length,
@@ -145,6 +241,9 @@ export class HTTPExporter implements TelemetryExporter {
         );
         (enhancedError as EnhancedError).isRetryable = isRetryable;
         (enhancedError as EnhancedError).errorType = errorType;
+        if (retryAfter !== undefined) {
+          (enhancedError as EnhancedError).retryAfter = retryAfter;
+        }
         throw enhancedError;
       }
     } catch (error) {
@@ -158,3 +257,5 @@ export class HTTPExporter implements TelemetryExporter {
     }
   }
 }
+
+export * from "./types";
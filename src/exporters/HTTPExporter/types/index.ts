@@ -0,0 +1,22 @@
+import type { TelemetryEvent, CompressionConfig } from "../../../types";
+
+export type HTTPHeaders = Record<string, string>;
+
+// Fixed headers, or a function called before every request, e.g. to attach a rotating token
+export type HTTPHeadersProvider =
+  | HTTPHeaders
+  | (() => HTTPHeaders | Promise<HTTPHeaders>);
+
+export type HTTPBodySerializer = (events: TelemetryEvent[]) => string;
+
+export type HTTPExporterOptions = {
+  endpoint?: string | undefined; // Collector URL, takes precedence over config.endpoint
+  method?: string | undefined; // Request method with a body, defaults to POST (beacons are always POST)
+  headers?: HTTPHeadersProvider | undefined; // Extra request headers (ignored in beacon mode)
+  serializer?: HTTPBodySerializer | undefined; // Request body, defaults to JSON { events }
+  contentType?: string | undefined; // Content-Type of the serialized body and of beacons, defaults to application/json
+  name?: string | undefined; // Label in logs and getExporterStates, to tell instances apart
+  connectionTimeout?: number | undefined;
+  requestTimeout?: number | undefined;
+  compression?: CompressionConfig | undefined; // Compress request bodies, off when undefined
+};
@@ -0,0 +1,68 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { HyperlookExporter } from "./index";
+import type { TelemetryEvent } from "../../types";
+import type { EnhancedError } from "../../TelemetryManager/types";
+
+const events: TelemetryEvent[] = ["a", "b", "c"].map(id => ({
+  eventType: "custom",
+  eventName: "checkout",
+  payload: { step: id },
+  timestamp: "2026-01-01T00:00:00.000Z",
+  event_id: `evt_${id}`,
+}));
+
+const sentIds = (fetch: ReturnType<typeof vi.fn>): string[] =>
+  fetch.mock.calls.flatMap(([, init]) =>
+    (
+      JSON.parse((init as RequestInit).body as string) as {
+        events: { event_id: string }[];
+      }
+    ).events.map(event => event.event_id)
+  );
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("HyperlookExporter", () => {
+  it("doesn't resend sub-batches accepted before a rate limit", async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("{}", { status: 200 }))
+      .mockResolvedValueOnce(
+        new Response("", { status: 429, headers: { "Retry-After": "1" } })
+      )
+      .mockImplementation(() =>
+        Promise.resolve(new Response("{}", { status: 200 }))
+      );
+    vi.stubGlobal("fetch", fetch);
+    // One event per request
+    const exporter = new HyperlookExporter("api-key", 1000, 1000, 1);
+
+    const error = await exporter.export(events).catch(e => e as Error);
+    expect((error as EnhancedError).retryAfter).toBe(1000);
+    expect(sentIds(fetch)).toEqual(["evt_a", "evt_b"]);
+
+    await exporter.export(events);
+
+    expect(sentIds(fetch)).toEqual(["evt_a", "evt_b", "evt_b", "evt_c"]);
+  });
+
+  it("fails the export when a sub-batch could not be sent", async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("", { status: 500 }))
+      .mockImplementation(() =>
+        Promise.resolve(new Response("{}", { status: 200 }))
+      );
+    vi.stubGlobal("fetch", fetch);
+    const exporter = new HyperlookExporter("api-key", 1000, 1000, 1);
+
+    const error = await exporter.export(events).catch(e => e as Error);
+    expect((error as EnhancedError).isRetryable).toBe(true);
+
+    await exporter.export(events);
+
+    expect(sentIds(fetch)).toEqual(["evt_a", "evt_b", "evt_c", "evt_a"]);
+  });
+});
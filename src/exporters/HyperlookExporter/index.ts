@@ -1,9 +1,23 @@
-import type { TelemetryExporter, TelemetryEvent } from "../../types";
+import type {
+  TelemetryExporter,
+  TelemetryEvent,
+  CompressionConfig,
+} from "../../types";
 import { getLogger } from "../../logger";
-import { HYPERLOOK_URL } from "../../constants";
+import {
+  HYPERLOOK_URL,
+  MAX_SESSION_REPLAY_BATCH_SIZE_BYTES,
+} from "../../constants";
 import { transformEvent } from "./utils";
 import { getCurrentVersion } from "../../utils/versionUtils";
+import { encodePayload } from "../../utils/compression";
+import { DeliveredEvents } from "../../utils/deliveredEvents";
+import { getRetryAfter } from "../../utils/retryAfter";
 import type { EnhancedError } from "../../TelemetryManager/types";
+import {
+  EventBatcher,
+  measureEvent,
+} from "../../TelemetryManager/EventBatcher";
 
 interface HyperlookPayload {
   events: Array<{
@@ -20,13 +34,17 @@ export class HyperlookExporter implements TelemetryExporter {
   private requestTimeout: number;
   private maxBatchSize: number;
   private maxPayloadSize: number;
+  private compression: CompressionConfig | undefined;
+  // Sub-batches accepted before a later one failed, skipped when the batch is retried
+  private delivered = new DeliveredEvents();
 
   constructor(
     apiKey: string,
     connectionTimeout: number = 10000, // 10 seconds for connection
     requestTimeout: number = 45000, // 45 seconds for request (increased from 30)
     maxBatchSize: number = 100, // Maximum events per batch
-    maxPayloadSize: number = 5 * 1024 * 1024 // 5MB max payload size
+    maxPayloadSize: number = 5 * 1024 * 1024, // 5MB max payload size
+    compression?: CompressionConfig // Compress request bodies, off when undefined
   ) {
     // Validate parameters
     if (!apiKey || typeof apiKey !== "string") {
@@ -55,12 +73,14 @@ export class HyperlookExporter implements TelemetryExporter {
     this.requestTimeout = requestTimeout;
     this.maxBatchSize = maxBatchSize;
     this.maxPayloadSize = maxPayloadSize;
+    this.compression = compression;
     this.logger.debug("HyperlookExporter initialized", {
       endpoint: HYPERLOOK_URL,
       connectionTimeout,
       requestTimeout,
       maxBatchSize,
       maxPayloadSize,
+      compression: compression ? (compression.algorithm ?? "gzip") : "none",
     });
   }
 
@@ -93,32 +113,47 @@ export class HyperlookExporter implements TelemetryExporter {
   }
 
   private validateAndSplitBatch(events: TelemetryEvent[]): TelemetryEvent[][] {
-    if (events.length <= this.maxBatchSize) {
-      return [events];
-    }
-
-    // Split into smaller batches
-    const batches: TelemetryEvent[][] = [];
-    for (let i = 0; i < events.length; i += this.maxBatchSize) {
-      batches.push(events.slice(i, i + this.maxBatchSize));
+    const maxBytes = events.some(event => event.eventType === "session_replay")
+      ? MAX_SESSION_REPLAY_BATCH_SIZE_BYTES
+      : this.maxPayloadSize;
+
+    // Measure events in the shape they are sent in
+    const batches = EventBatcher.split(
+      events,
+      { maxEvents: this.maxBatchSize, maxBytes },
+      event => {
+        try {
+          return measureEvent(transformEvent(event));
+        } catch {
+          return 0;
+        }
+      }
+    );
+
+    if (batches.length > 1) {
+      this.logger.debug("Events split into multiple batches", {
+        originalCount: events.length,
+        batchCount: batches.length,
+        maxBatchSize: this.maxBatchSize,
+        maxBytes,
+      });
     }
 
-    this.logger.debug("Events split into multiple batches", {
-      originalCount: events.length,
-      batchCount: batches.length,
-      maxBatchSize: this.maxBatchSize,
-    });
-
     return batches;
   }
 
-  private validatePayload(payload: HyperlookPayload): {
+  /**
+   * @param payloadSize - Size of the body as sent, i.e. after compression
+   */
+  private validatePayload(
+    payload: HyperlookPayload,
+    payloadSize: number
+  ): {
     isValid: boolean;
     error?: string;
+    isOversized?: boolean;
   } {
     try {
-      const payloadString = JSON.stringify(payload);
-
       // Check if this payload contains session replay events
       const hasSessionReplayEvents = payload.events.some(
         event => event.event_type === "session_replay"
@@ -126,13 +161,14 @@ export class HyperlookExporter implements TelemetryExporter {
 
       // Use larger size limit for session replay events (5MB), smaller for others (100KB)
       const effectiveMaxSize = hasSessionReplayEvents
-        ? 5 * 1024 * 1024
+        ? MAX_SESSION_REPLAY_BATCH_SIZE_BYTES
         : this.maxPayloadSize;
 
-      if (payloadString.length > effectiveMaxSize) {
+      if (payloadSize > effectiveMaxSize) {
         return {
           isValid: false,
-          error: `Payload size ${payloadString.length} exceeds maximum ${effectiveMaxSize} (session_replay: ${hasSessionReplayEvents})`,
+          error: `Payload size ${payloadSize} exceeds maximum ${effectiveMaxSize} (session_replay: ${hasSessionReplayEvents})`,
+          isOversized: true,
         };
       }
 
@@ -184,17 +220,38 @@ export class HyperlookExporter implements TelemetryExporter {
 
     try {
       // Split events into manageable batches
-      const batches = this.validateAndSplitBatch(events);
+      const pending = this.delivered.remaining(events);
+      const batches = this.validateAndSplitBatch(pending);
       let totalExported = 0;
+      let oversizedCount = 0;
+      let unsentCount = 0;
 
       for (const batch of batches) {
         // Transform events using the shared transformPayload method
         const payloadUnknown = this.transformPayload(batch);
         const payload = payloadUnknown as HyperlookPayload;
 
-        // Validate payload before sending
-        const validation = this.validatePayload(payload);
+        // Validate payload before sending, against the bytes that go on the wire
+        const encoded = await encodePayload(
+          JSON.stringify(payload),
+          this.compression
+        );
+        const validation = this.validatePayload(payload, encoded.size);
         if (!validation.isValid) {
+          // A single event over the limit can never be sent, the rest of the batches still can
+          if (batch.length === 1 && validation.isOversized) {
+            this.logger.error(
+              "Event exceeds the maximum payload size, dropping it",
+              {
+                eventType: batch[0].eventType,
+                eventName: batch[0].eventName,
+                payloadSize: encoded.size,
+                error: validation.error,
+              }
+            );
+            oversizedCount++;
+            continue;
+          }
           throw new Error(`Payload validation failed: ${validation.error}`);
         }
 
@@ -229,8 +286,11 @@ export class HyperlookExporter implements TelemetryExporter {
               Accept: "application/json",
               "X-API-Key": this.apiKey,
               "X-SDK-Version": getCurrentVersion(),
+              ...(encoded.contentEncoding && {
+                "Content-Encoding": encoded.contentEncoding,
+              }),
             },
-            body: JSON.stringify(payload),
+            body: encoded.body,
             signal: requestController.signal,
           });
 
@@ -239,8 +299,9 @@ export class HyperlookExporter implements TelemetryExporter {
 
           if (!response.ok) {
             let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+            let errorBody = "";
             try {
-              const errorBody = await response.text();
+              errorBody = await response.text();
               if (errorBody) {
                 errorMessage += ` - ${errorBody}`;
               }
@@ -251,8 +312,15 @@ export class HyperlookExporter implements TelemetryExporter {
             // Handle specific Hyperlook error codes
             if (response.status === 413) {
               throw new Error(`Payload too large: ${errorMessage}`);
-            } else if (response.status === 429) {
-              throw new Error(`Rate limited: ${errorMessage}`);
+            } else if (response.status === 429 || response.status === 503) {
+              const rateLimitError: Error & Partial<EnhancedError> = new Error(
+                `${response.status === 429 ? "Rate limited" : "Service unavailable"}: ${errorMessage}`
+              );
+              const retryAfter = getRetryAfter(response, errorBody);
+              if (retryAfter !== undefined) {
+                rateLimitError.retryAfter = retryAfter;
+              }
+              throw rateLimitError;
             } else if (response.status === 401) {
               throw new Error(`Authentication failed: ${errorMessage}`);
             } else if (response.status === 400) {
@@ -270,6 +338,7 @@ export class HyperlookExporter implements TelemetryExporter {
           });
 
           totalExported += payload.events.length;
+          this.delivered.add(batch);
         } catch (error) {
           clearTimeout(connectionTimeoutId);
           clearTimeout(requestTimeoutId);
@@ -308,10 +377,12 @@ export class HyperlookExporter implements TelemetryExporter {
             }
           }
 
+          const retryAfter = (error as Partial<EnhancedError>).retryAfter;
           this.logger.error("Hyperlook batch export failed", {
             endpoint: HYPERLOOK_URL,
             errorType,
             isRetryable,
+            retryAfter,
             batchSize: payload.events.length,
             error: error instanceof Error ? error.message : String(error),
             errorStack: error instanceof Error ? error.stack : undefined,
@@ -323,9 +394,17 @@ export class HyperlookExporter implements TelemetryExporter {
           );
           (enhancedError as EnhancedError).isRetryable = isRetryable;
           (enhancedError as EnhancedError).errorType = errorType;
+          if (retryAfter !== undefined) {
+            (enhancedError as EnhancedError).retryAfter = retryAfter;
+          }
 
-          // Only throw for non-retryable errors to allow other batches to be processed
-          if (!isRetryable) {
+          // Only throw for non-retryable errors to allow other batches to be processed,
+          // a throttled endpoint gets no more requests until the pause is over
+          if (
+            !isRetryable ||
+            errorType === "rate_limited" ||
+            retryAfter !== undefined
+          ) {
             throw enhancedError;
           } else {
             // For retryable errors, log and continue with next batch
@@ -337,17 +416,23 @@ export class HyperlookExporter implements TelemetryExporter {
                 totalExported,
               }
             );
+            unsentCount += batch.length;
           }
         }
       }
 
       this.logger.info("Hyperlook export completed", {
-        totalEvents: events.length,
+        totalEvents: pending.length,
         totalExported,
-        failedCount: events.length - totalExported,
+        oversizedCount,
+        failedCount: pending.length - totalExported - oversizedCount,
       });
       // If nothing was exported at all, surface a retryable failure so the manager can retry/return to buffer
-      if (totalExported === 0) {
+      if (
+        pending.length > 0 &&
+        totalExported === 0 &&
+        oversizedCount < pending.length
+      ) {
         const noExportError: Error & Partial<EnhancedError> = new Error(
           "Hyperlook export completed with zero events exported"
         );
@@ -355,6 +440,16 @@ export class HyperlookExporter implements TelemetryExporter {
         noExportError.errorType = "no_events_exported";
         throw noExportError;
       }
+      // The retry sends only the sub-batches that failed
+      if (unsentCount > 0) {
+        const partialError: Error & Partial<EnhancedError> = new Error(
+          `Hyperlook export left ${unsentCount} of ${pending.length} events unsent`
+        );
+        partialError.isRetryable = true;
+        partialError.errorType = "partial_export";
+        throw partialError;
+      }
+      this.delivered.forget(events);
     } catch (error) {
       this.logger.error("Hyperlook export failed", {
         endpoint: HYPERLOOK_URL,
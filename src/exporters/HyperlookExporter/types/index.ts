@@ -2,6 +2,8 @@
 export type HyperlookEvent = {
   event_id?: string;
   user_id?: string;
+  anonymous_id?: string;
+  previous_id?: string; // Set on alias events, the identity being merged into user_id
   session_id?: string;
   event_type: string;
   event_name: string;
@@ -1,4 +1,5 @@
 import { getLogger } from "../../../logger";
+import { measureEvent } from "../../../TelemetryManager/EventBatcher";
 
 /**
  * Limits the size of properties object to ensure it doesn't exceed 8KB
@@ -48,9 +49,8 @@ export function limitPropertiesSize(
     filteredProperties.message = "[No message]";
   }
 
-  // Convert filtered properties to JSON string to check size
-  const propertiesString = JSON.stringify(filteredProperties);
-  const originalSize = propertiesString.length;
+  // Check the serialized size in bytes
+  const originalSize = measureEvent(filteredProperties);
 
   // If already within limit, return filtered properties
   if (originalSize <= maxSizeBytes) {
@@ -65,33 +65,28 @@ export function limitPropertiesSize(
 
   // Create a copy to work with
   const limitedProperties: Record<string, unknown> = {};
-  const propertyEntries = Object.entries(filteredProperties);
+  const propertyEntries = Object.entries(filteredProperties).map(
+    ([key, value]) => ({ key, value, size: measureEvent(value) })
+  );
 
-  // Sort properties by priority: message first, then others alphabetically
-  propertyEntries.sort(([keyA], [keyB]) => {
-    if (keyA === "message") return -1;
-    if (keyB === "message") return 1;
-    return keyA.localeCompare(keyB);
+  // Sort properties by priority: message first, then smallest first so one
+  // large property can't crowd out the others
+  propertyEntries.sort((a, b) => {
+    if (a.key === "message") return -1;
+    if (b.key === "message") return 1;
+    return a.size - b.size || a.key.localeCompare(b.key);
   });
 
-  // First pass: add all properties and see if we're within limits
-  for (const [key, value] of propertyEntries) {
+  for (const { key, value } of propertyEntries) {
     limitedProperties[key] = value;
-    const currentString = JSON.stringify(limitedProperties);
-
-    // If adding this property exceeds the limit, try to truncate strings
-    if (currentString.length > maxSizeBytes) {
-      // Try to truncate string values to fit within limits
-      const canTruncate = tryTruncateStrings(limitedProperties, maxSizeBytes);
-      if (!canTruncate) {
-        // If we can't truncate enough, remove non-essential properties
-        removeNonEssentialProperties(limitedProperties, key);
-        break;
-      }
+
+    // Shrink only the property that crossed the limit and keep going
+    if (measureEvent(limitedProperties) > maxSizeBytes) {
+      trimProperty(limitedProperties, key, maxSizeBytes);
     }
   }
 
-  const finalSize = JSON.stringify(limitedProperties).length;
+  const finalSize = measureEvent(limitedProperties);
   const removedCount =
     Object.keys(filteredProperties).length -
     Object.keys(limitedProperties).length;
@@ -107,87 +102,38 @@ export function limitPropertiesSize(
 }
 
 /**
- * Try to truncate string values in properties to fit within size limit
+ * Truncate a string or drop trailing array entries until properties fit,
+ * removing the property when it still doesn't (message is replaced instead)
  */
-function tryTruncateStrings(
+function trimProperty(
   properties: Record<string, unknown>,
+  key: string,
   maxSizeBytes: number
-): boolean {
-  let currentSize = JSON.stringify(properties).length;
-
-  // If already within limits, no need to truncate
-  if (currentSize <= maxSizeBytes) {
-    return true;
-  }
-
-  // Try to truncate string values, starting with the longest ones
-  const stringEntries = Object.entries(properties)
-    .filter(([, value]) => typeof value === "string")
-    .sort(([, a], [, b]) => (b as string).length - (a as string).length);
-
-  for (const [key, value] of stringEntries) {
-    if (typeof value !== "string") continue;
+): void {
+  const fits = () => measureEvent(properties) <= maxSizeBytes;
+  const value = properties[key];
 
+  if (typeof value === "string") {
     let truncatedValue = value;
     const step = Math.max(1, Math.floor(value.length * 0.1)); // Truncate 10% at a time
-
-    while (truncatedValue.length > 10 && currentSize > maxSizeBytes) {
+    while (truncatedValue.length > 10 && !fits()) {
       truncatedValue = truncatedValue.slice(0, -step);
       properties[key] = truncatedValue + "...";
-      currentSize = JSON.stringify(properties).length;
     }
-
-    // If we still can't fit, try more aggressive truncation
-    if (currentSize > maxSizeBytes) {
-      properties[key] = truncatedValue.slice(0, 50) + "...";
-      currentSize = JSON.stringify(properties).length;
+  } else if (Array.isArray(value)) {
+    let keptValues: unknown[] = value;
+    const step = Math.max(1, Math.floor(value.length * 0.1));
+    while (keptValues.length > 0 && !fits()) {
+      keptValues = keptValues.slice(0, -step);
+      properties[key] = keptValues;
     }
-
-    // If we still can't fit, give up on this property (except message)
-    if (currentSize > maxSizeBytes && key !== "message") {
-      delete properties[key];
-      currentSize = JSON.stringify(properties).length;
-    }
-  }
-
-  // Ensure message is never completely removed
-  if (!properties.message || typeof properties.message !== "string") {
-    properties.message = "[Message truncated]";
   }
 
-  return currentSize <= maxSizeBytes;
-}
-
-/**
- * Remove non-essential properties while keeping essential ones
- */
-function removeNonEssentialProperties(
-  properties: Record<string, unknown>,
-  lastAddedKey: string
-): void {
-  // Essential properties that should always be kept
-  const essentialKeys = ["message"];
-
-  // Remove the property that caused the overflow
-  if (!essentialKeys.includes(lastAddedKey)) {
-    delete properties[lastAddedKey];
-  }
-
-  // Remove other non-essential properties if still needed
-  const nonEssentialKeys = Object.keys(properties).filter(
-    key => !essentialKeys.includes(key)
-  );
-
-  for (const key of nonEssentialKeys) {
-    delete properties[key];
-    const currentSize = JSON.stringify(properties).length;
-    if (currentSize <= 8192) {
-      break;
+  if (!fits()) {
+    if (key === "message") {
+      properties.message = "[Message truncated]";
+    } else {
+      delete properties[key];
     }
   }
-
-  // Ensure we always have a message
-  if (!properties.message) {
-    properties.message = "[Properties truncated]";
-  }
 }
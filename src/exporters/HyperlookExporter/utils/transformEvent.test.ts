@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { transformEvent } from "./transformEvent";
+import { limitPropertiesSize } from "./limitPropertiesSize";
+import { BreadcrumbTrail } from "../../../TelemetryManager/BreadcrumbTrail";
+import { measureEvent } from "../../../TelemetryManager/EventBatcher";
+import { createErrorEvent } from "../../../plugins/ErrorPlugin/utils/createErrorEvent";
+import { createLogger, LogLevel } from "../../../logger";
+
+const logger = createLogger({ level: LogLevel.SILENT });
+
+describe("transformEvent", () => {
+  it("keeps the stack and fingerprint of an error with a full breadcrumb trail", () => {
+    const trail = new BreadcrumbTrail(logger);
+    for (let i = 0; i < 30; i++) {
+      trail.recordEvent({
+        eventType: "network",
+        eventName: "fetch_complete",
+        payload: {
+          method: "GET",
+          url: `https://api.example.com/v1/orders/${i}?include=items,customer,shipping&locale=en-US&session=${"a".repeat(60)}`,
+          responseStatus: 200,
+          duration: 120,
+        },
+        timestamp: "2026-01-01T00:00:00.000Z",
+      });
+    }
+    const breadcrumbs = trail.getAll();
+    const error = createErrorEvent(new TypeError("Cannot read properties"), {
+      eventName: "javascript_error",
+      mechanism: "onerror",
+      handled: false,
+      breadcrumbs,
+    });
+
+    const properties =
+      transformEvent({ ...error, event_id: "evt_1" }).properties ?? {};
+
+    expect(measureEvent(properties)).toBeLessThanOrEqual(8192);
+    expect(properties.stack).toBe(error.payload.stack);
+    expect(properties.fingerprint).toBe(error.payload.fingerprint);
+    expect(properties.type).toBe("TypeError");
+    // The newest breadcrumbs are the ones kept
+    expect(breadcrumbs.length).toBeLessThan(30);
+    expect(properties.breadcrumbs).toEqual(breadcrumbs);
+    expect(breadcrumbs[breadcrumbs.length - 1].data?.url).toContain(
+      "/orders/29?"
+    );
+  });
+});
+
+describe("limitPropertiesSize", () => {
+  it("trims only the property that doesn't fit", () => {
+    const properties = limitPropertiesSize(
+      {
+        message: "Export failed",
+        attempts: 3,
+        items: Array.from({ length: 100 }, (_, i) => `item-${i}`),
+        status: "failed",
+      },
+      500
+    );
+
+    expect(measureEvent(properties)).toBeLessThanOrEqual(500);
+    expect(properties).toMatchObject({
+      message: "Export failed",
+      attempts: 3,
+      status: "failed",
+    });
+    const items = properties.items as string[];
+    expect(items.length).toBeGreaterThan(0);
+    expect(items[0]).toBe("item-0");
+  });
+});
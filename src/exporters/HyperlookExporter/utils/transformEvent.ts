@@ -121,6 +121,22 @@ export function transformEvent(event: TelemetryEvent): HyperlookEvent {
     if (event.sessionId) {
       transformed.session_id = event.sessionId;
     }
+    if (event.userId) {
+      transformed.user_id = event.userId;
+    }
+    if (event.anonymousId) {
+      transformed.anonymous_id = event.anonymousId;
+    }
+
+    // Alias events name both identities so the backend can merge them
+    if (event.eventType === "alias") {
+      if (typeof payload.previousId === "string") {
+        transformed.previous_id = payload.previousId;
+      }
+      if (typeof payload.userId === "string") {
+        transformed.user_id = payload.userId;
+      }
+    }
 
     // Safely check for browser environment
     if (typeof window !== "undefined" && window.location) {
@@ -0,0 +1,113 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { OTLPExporter } from "./index";
+import type { TelemetryEvent } from "../../types";
+import type { EnhancedError } from "../../TelemetryManager/types";
+
+const logEvent: TelemetryEvent = {
+  eventType: "custom",
+  eventName: "checkout",
+  payload: { step: 1 },
+  timestamp: "2026-01-01T00:00:00.000Z",
+};
+
+const spanEvent: TelemetryEvent = {
+  eventType: "network",
+  eventName: "fetch_complete",
+  payload: {
+    url: "https://api.example.com/orders",
+    method: "GET",
+    responseStatus: 200,
+    duration: 42,
+  },
+  timestamp: "2026-01-01T00:00:00.000Z",
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("OTLPExporter", () => {
+  it("splits events into logs and traces", () => {
+    const exporter = new OTLPExporter({ endpoint: "https://collector" });
+    const { logs, traces } = exporter.transformPayload([logEvent, spanEvent]);
+
+    expect(logs?.resourceLogs[0].scopeLogs[0].logRecords).toHaveLength(1);
+    expect(traces?.resourceSpans[0].scopeSpans[0].spans).toHaveLength(1);
+  });
+
+  it("strips signal paths from the endpoint", () => {
+    const exporter = new OTLPExporter({
+      endpoint: "https://collector:4318/v1/logs/",
+    });
+
+    expect(exporter.getEndpoint()).toBe("https://collector:4318");
+  });
+
+  it("sends every beacon even when one is refused", () => {
+    const sendBeacon = vi.fn().mockReturnValueOnce(false).mockReturnValue(true);
+    vi.stubGlobal("window", { navigator: { sendBeacon } });
+    const exporter = new OTLPExporter({ endpoint: "https://collector" });
+
+    expect(exporter.exportWithBeacon([logEvent, spanEvent])).toBe(false);
+    expect(sendBeacon.mock.calls.map(([url]) => url as string)).toEqual([
+      "https://collector/v1/logs",
+      "https://collector/v1/traces",
+    ]);
+  });
+
+  it("rejects exports without an endpoint instead of dropping them silently", async () => {
+    const fetch = vi.fn();
+    vi.stubGlobal("fetch", fetch);
+    const exporter = new OTLPExporter();
+
+    const error = await exporter.export([logEvent]).catch(e => e as Error);
+
+    expect((error as EnhancedError).isRetryable).toBe(false);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("marks 503 responses retryable and keeps their Retry-After", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue(
+        new Response("", {
+          status: 503,
+          statusText: "Service Unavailable",
+          headers: { "Retry-After": "5" },
+        })
+      )
+    );
+    const exporter = new OTLPExporter({ endpoint: "https://collector" });
+
+    const error = await exporter.export([logEvent]).catch(e => e as Error);
+
+    expect((error as EnhancedError).isRetryable).toBe(true);
+    expect((error as EnhancedError).retryAfter).toBe(5000);
+  });
+
+  it("only retries the signal that failed", async () => {
+    const fetch = vi
+      .fn()
+      .mockImplementation((url: string) =>
+        Promise.resolve(
+          new Response("", { status: url.endsWith("/v1/traces") ? 503 : 200 })
+        )
+      );
+    vi.stubGlobal("fetch", fetch);
+    const exporter = new OTLPExporter({ endpoint: "https://collector" });
+    const events = [
+      { ...logEvent, event_id: "evt_log" },
+      { ...spanEvent, event_id: "evt_span" },
+    ];
+
+    await expect(exporter.export(events)).rejects.toThrow();
+    fetch.mockResolvedValue(new Response("", { status: 200 }));
+    await exporter.export(events);
+
+    expect(fetch.mock.calls.map(([url]) => url as string)).toEqual([
+      "https://collector/v1/logs",
+      "https://collector/v1/traces",
+      "https://collector/v1/traces",
+    ]);
+  });
+});
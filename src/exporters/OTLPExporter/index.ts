@@ -0,0 +1,360 @@
+import type { TelemetryExporter, TelemetryEvent } from "../../types";
+import { getLogger } from "../../logger";
+import { getCurrentVersion } from "../../utils/versionUtils";
+import { getRetryAfter } from "../../utils/retryAfter";
+import { DeliveredEvents } from "../../utils/deliveredEvents";
+import type { EnhancedError } from "../../TelemetryManager/types";
+import type {
+  OTLPExporterOptions,
+  OTLPInstrumentationScope,
+  OTLPKeyValue,
+  OTLPLogsPayload,
+  OTLPTracesPayload,
+} from "./types";
+import {
+  buildLogsPayload,
+  buildResourceAttributes,
+  buildTracesPayload,
+  isSpanEvent,
+  toLogRecord,
+  toSpan,
+} from "./utils";
+
+const LOGS_PATH = "/v1/logs";
+const TRACES_PATH = "/v1/traces";
+
+// Statuses the OTLP/HTTP spec marks as retryable
+const RETRYABLE_STATUS_CODES = new Set([429, 502, 503, 504]);
+
+export class OTLPExporter implements TelemetryExporter {
+  private logger = getLogger();
+  private endpoint: string | undefined;
+  private headers: Record<string, string>;
+  private connectionTimeout: number;
+  private requestTimeout: number;
+  private resourceAttributes: OTLPKeyValue[];
+  private scope: OTLPInstrumentationScope;
+  // Events whose signal was accepted while the other one failed
+  private delivered = new DeliveredEvents();
+
+  constructor(options: OTLPExporterOptions = {}) {
+    const {
+      endpoint,
+      headers = {},
+      serviceName = "unknown_service",
+      resourceAttributes = {},
+      connectionTimeout = 10000, // 10 seconds for connection
+      requestTimeout = 45000, // 45 seconds for request
+    } = options;
+
+    // Validate parameters
+    if (connectionTimeout < 0) {
+      throw new Error("connectionTimeout must be non-negative");
+    }
+    if (requestTimeout < 0) {
+      throw new Error("requestTimeout must be non-negative");
+    }
+    if (connectionTimeout > requestTimeout) {
+      throw new Error(
+        "connectionTimeout cannot be greater than requestTimeout"
+      );
+    }
+    if (!serviceName || typeof serviceName !== "string") {
+      throw new Error("serviceName must be a non-empty string");
+    }
+
+    this.endpoint = endpoint ? this.normalizeBaseUrl(endpoint) : undefined;
+    this.headers = headers;
+    this.connectionTimeout = connectionTimeout;
+    this.requestTimeout = requestTimeout;
+    this.resourceAttributes = buildResourceAttributes(
+      serviceName,
+      getCurrentVersion(),
+      resourceAttributes
+    );
+    this.scope = {
+      name: "@hyperlook/telemetry-sdk",
+      version: getCurrentVersion(),
+    };
+    this.logger.debug("OTLPExporter initialized", {
+      endpoint: this.endpoint,
+      serviceName,
+      connectionTimeout,
+      requestTimeout,
+    });
+  }
+
+  getEndpoint(endpoint?: string): string | undefined {
+    if (this.endpoint) {
+      return this.endpoint;
+    }
+    return endpoint ? this.normalizeBaseUrl(endpoint) : undefined;
+  }
+
+  transformPayload(
+    events: TelemetryEvent[],
+    _forBeacon?: boolean
+  ): { logs: OTLPLogsPayload | null; traces: OTLPTracesPayload | null } {
+    const logRecords = [];
+    const spans = [];
+
+    for (const event of events) {
+      // Session replay chunks are rrweb recordings, not logs or spans
+      if (event.eventType === "session_replay") {
+        continue;
+      }
+      try {
+        if (isSpanEvent(event)) {
+          spans.push(toSpan(event));
+        } else {
+          logRecords.push(toLogRecord(event));
+        }
+      } catch (error) {
+        this.logger.warn("Failed to convert event to OTLP", {
+          eventType: event.eventType,
+          eventName: event.eventName,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return {
+      logs:
+        logRecords.length > 0
+          ? buildLogsPayload(logRecords, this.resourceAttributes, this.scope)
+          : null,
+      traces:
+        spans.length > 0
+          ? buildTracesPayload(spans, this.resourceAttributes, this.scope)
+          : null,
+    };
+  }
+
+  /**
+   * Sends logs and traces as separate beacons since they target different paths.
+   * Custom headers can't be attached to beacons, so collectors must accept unauthenticated requests.
+   */
+  exportWithBeacon(events: TelemetryEvent[], endpoint?: string): boolean {
+    const baseUrl = this.getEndpoint(endpoint);
+    if (!baseUrl) {
+      return false;
+    }
+
+    const { logs, traces } = this.transformPayload(events, true);
+    const requests: Array<[string, unknown]> = [];
+    if (logs) {
+      requests.push([`${baseUrl}${LOGS_PATH}`, logs]);
+    }
+    if (traces) {
+      requests.push([`${baseUrl}${TRACES_PATH}`, traces]);
+    }
+
+    // Queue every signal before combining, a rejected logs beacon must not hold back traces
+    const results = requests.map(([url, payload]) =>
+      window.navigator.sendBeacon(
+        url,
+        new Blob([JSON.stringify(payload)], { type: "application/json" })
+      )
+    );
+    return results.every(Boolean);
+  }
+
+  async export(events: TelemetryEvent[], endpoint?: string): Promise<void> {
+    const baseUrl = this.getEndpoint(endpoint);
+    if (!baseUrl) {
+      this.logger.error("OTLP export failed - no endpoint configured", {
+        eventCount: events.length,
+      });
+      // Retrying cannot help, and returning would report the events as delivered
+      const configError: Error & Partial<EnhancedError> = new Error(
+        "OTLP export failed (config_error): no endpoint configured"
+      );
+      configError.isRetryable = false;
+      configError.errorType = "config_error";
+      throw configError;
+    }
+
+    // A retry only sends the signal that failed last time
+    const pending = this.delivered.remaining(events);
+    const { logs, traces } = this.transformPayload(pending);
+    if (!logs && !traces) {
+      this.logger.debug("No OTLP-compatible events to export");
+      this.delivered.forget(events);
+      return;
+    }
+
+    this.logger.debug("Exporting events via OTLP", {
+      endpoint: baseUrl,
+      eventCount: pending.length,
+    });
+
+    const [logsResult, tracesResult] = await Promise.allSettled([
+      logs ? this.send(`${baseUrl}${LOGS_PATH}`, logs) : Promise.resolve(),
+      traces
+        ? this.send(`${baseUrl}${TRACES_PATH}`, traces)
+        : Promise.resolve(),
+    ]);
+    if (logsResult.status === "fulfilled") {
+      this.delivered.add(pending.filter(event => !isSpanEvent(event)));
+    }
+    if (tracesResult.status === "fulfilled") {
+      this.delivered.add(pending.filter(event => isSpanEvent(event)));
+    }
+
+    // Both signals must be delivered for the batch to count as exported
+    for (const result of [logsResult, tracesResult]) {
+      if (result.status === "rejected") {
+        throw result.reason;
+      }
+    }
+    this.delivered.forget(events);
+  }
+
+  private normalizeBaseUrl(endpoint: string): string {
+    return endpoint
+      .trim()
+      .replace(/\/+$/, "")
+      .replace(/\/v1\/(logs|traces)$/, "");
+  }
+
+  private async send(url: string, payload: unknown): Promise<void> {
+    const connectionController = new AbortController();
+    const requestController = new AbortController();
+
+    const connectionTimeoutId = setTimeout(() => {
+      connectionController.abort();
+      this.logger.warn("Connection timeout reached", { endpoint: url });
+    }, this.connectionTimeout);
+
+    const requestTimeoutId = setTimeout(() => {
+      requestController.abort();
+      this.logger.warn("Request timeout reached", { endpoint: url });
+    }, this.requestTimeout);
+
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          ...this.headers,
+          "Content-Type": "application/json",
+          "X-SDK-Version": getCurrentVersion(),
+        },
+        body: JSON.stringify(payload),
+        signal: requestController.signal,
+      });
+
+      clearTimeout(connectionTimeoutId);
+      clearTimeout(requestTimeoutId);
+
+      if (!response.ok) {
+        let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+        let errorBody = "";
+        try {
+          errorBody = await response.text();
+          if (errorBody) {
+            errorMessage += ` - ${errorBody}`;
+          }
+        } catch {
+          // Ignore error reading response body
+        }
+        const statusError: Error & Partial<EnhancedError> = new Error(
+          errorMessage
+        );
+        statusError.isRetryable = RETRYABLE_STATUS_CODES.has(response.status);
+        statusError.errorType =
+          response.status === 429
+            ? "rate_limited"
+            : response.status >= 500
+              ? "server_error"
+              : "client_error";
+        const retryAfter = getRetryAfter(response, errorBody);
+        if (retryAfter !== undefined) {
+          statusError.retryAfter = retryAfter;
+        }
+        throw statusError;
+      }
+
+      await this.logPartialSuccess(url, response);
+      this.logger.debug("OTLP export successful", {
+        endpoint: url,
+        status: response.status,
+      });
+    } catch (error) {
+      clearTimeout(connectionTimeoutId);
+      clearTimeout(requestTimeoutId);
+
+      // Enhanced error classification
+      let errorType = "unknown";
+      let isRetryable = true;
+      let retryAfter: number | undefined;
+
+      if (error instanceof Error) {
+        const enhanced = error as EnhancedError;
+        if (enhanced.errorType !== undefined) {
+          errorType = enhanced.errorType;
+          isRetryable = enhanced.isRetryable ?? true;
+          retryAfter = enhanced.retryAfter;
+        } else if (error.name === "AbortError") {
+          errorType = "timeout";
+        } else if (error.message.includes("Failed to fetch")) {
+          errorType = "network";
+        }
+      }
+
+      this.logger.error("OTLP export failed", {
+        endpoint: url,
+        errorType,
+        isRetryable,
+        retryAfter,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      // Re-throw with additional context
+      const enhancedError = new Error(
+        `OTLP export failed (${errorType}): ${error instanceof Error ? error.message : String(error)}`
+      );
+      (enhancedError as EnhancedError).isRetryable = isRetryable;
+      (enhancedError as EnhancedError).errorType = errorType;
+      if (retryAfter !== undefined) {
+        (enhancedError as EnhancedError).retryAfter = retryAfter;
+      }
+      throw enhancedError;
+    }
+  }
+
+  private async logPartialSuccess(
+    url: string,
+    response: Response
+  ): Promise<void> {
+    try {
+      const text = await response.text();
+      if (!text) {
+        return;
+      }
+      const body = JSON.parse(text) as {
+        partialSuccess?: {
+          rejectedLogRecords?: string | number;
+          rejectedSpans?: string | number;
+          errorMessage?: string;
+        };
+      };
+      const partial = body.partialSuccess;
+      const rejected = Number(
+        partial?.rejectedLogRecords ?? partial?.rejectedSpans ?? 0
+      );
+      if (rejected > 0) {
+        this.logger.warn("OTLP collector rejected part of the batch", {
+          endpoint: url,
+          rejected,
+          errorMessage: partial?.errorMessage,
+        });
+      }
+    } catch {
+      // Response bodies are optional, ignore anything we can't parse
+    }
+  }
+}
+
+// Export types and utils
+export * from "./types";
+export * from "./utils";
@@ -0,0 +1,78 @@
+// OTLP/HTTP JSON encoding (see opentelemetry-proto, v1)
+export type OTLPAnyValue =
+  | { stringValue: string }
+  | { boolValue: boolean }
+  | { intValue: string }
+  | { doubleValue: number }
+  | { arrayValue: { values: OTLPAnyValue[] } }
+  | { kvlistValue: { values: OTLPKeyValue[] } };
+
+export type OTLPKeyValue = {
+  key: string;
+  value: OTLPAnyValue;
+};
+
+export type OTLPResource = {
+  attributes: OTLPKeyValue[];
+};
+
+export type OTLPInstrumentationScope = {
+  name: string;
+  version: string;
+};
+
+export type OTLPLogRecord = {
+  timeUnixNano: string;
+  observedTimeUnixNano: string;
+  severityNumber: number;
+  severityText: string;
+  body: OTLPAnyValue;
+  attributes: OTLPKeyValue[];
+  traceId?: string;
+  spanId?: string;
+};
+
+export type OTLPSpan = {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OTLPKeyValue[];
+  status: {
+    code: number;
+    message?: string;
+  };
+};
+
+export type OTLPLogsPayload = {
+  resourceLogs: Array<{
+    resource: OTLPResource;
+    scopeLogs: Array<{
+      scope: OTLPInstrumentationScope;
+      logRecords: OTLPLogRecord[];
+    }>;
+  }>;
+};
+
+export type OTLPTracesPayload = {
+  resourceSpans: Array<{
+    resource: OTLPResource;
+    scopeSpans: Array<{
+      scope: OTLPInstrumentationScope;
+      spans: OTLPSpan[];
+    }>;
+  }>;
+};
+
+// Fields accept undefined so config values can be passed straight through
+export type OTLPExporterOptions = {
+  endpoint?: string | undefined; // Collector base URL, e.g. http://localhost:4318
+  headers?: Record<string, string> | undefined; // Extra request headers (ignored in beacon mode)
+  serviceName?: string | undefined; // service.name resource attribute
+  resourceAttributes?: Record<string, string | number | boolean> | undefined;
+  connectionTimeout?: number | undefined;
+  requestTimeout?: number | undefined;
+};
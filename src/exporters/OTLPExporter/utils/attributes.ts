@@ -0,0 +1,86 @@
+import type { OTLPAnyValue, OTLPKeyValue } from "../types";
+
+const MAX_ATTRIBUTE_DEPTH = 5;
+
+/**
+ * Converts an arbitrary JSON-compatible value into an OTLP AnyValue
+ * @param value - The value to convert
+ * @param depth - Current nesting depth, deeper values are stringified
+ * @returns The OTLP AnyValue, or null for null/undefined values
+ */
+export function toAnyValue(value: unknown, depth = 0): OTLPAnyValue | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  if (typeof value === "string") {
+    return { stringValue: value };
+  }
+  if (typeof value === "boolean") {
+    return { boolValue: value };
+  }
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) {
+      return { stringValue: String(value) };
+    }
+    return Number.isInteger(value)
+      ? { intValue: String(value) }
+      : { doubleValue: value };
+  }
+
+  if (depth >= MAX_ATTRIBUTE_DEPTH) {
+    try {
+      return { stringValue: JSON.stringify(value) };
+    } catch {
+      return { stringValue: Object.prototype.toString.call(value) };
+    }
+  }
+
+  if (Array.isArray(value)) {
+    return {
+      arrayValue: {
+        values: value
+          .map(item => toAnyValue(item, depth + 1))
+          .filter((item): item is OTLPAnyValue => item !== null),
+      },
+    };
+  }
+
+  if (typeof value === "object") {
+    return {
+      kvlistValue: {
+        values: toKeyValues(value as Record<string, unknown>, "", depth + 1),
+      },
+    };
+  }
+
+  // Remaining primitives: bigint, symbol and function
+  return { stringValue: String(value as bigint | symbol) };
+}
+
+/**
+ * Converts a record into OTLP key/value attributes, skipping empty values
+ */
+export function toKeyValues(
+  record: Record<string, unknown>,
+  prefix = "",
+  depth = 0
+): OTLPKeyValue[] {
+  const attributes: OTLPKeyValue[] = [];
+  for (const [key, rawValue] of Object.entries(record)) {
+    const value = toAnyValue(rawValue, depth);
+    if (value !== null) {
+      attributes.push({ key: `${prefix}${key}`, value });
+    }
+  }
+  return attributes;
+}
+
+/**
+ * Converts epoch milliseconds (with fractional part) to a nanosecond string
+ */
+export function toUnixNano(epochMs: number): string {
+  const wholeMs = Math.floor(epochMs);
+  const fractionNs = Math.round((epochMs - wholeMs) * 1e6);
+  return (BigInt(wholeMs) * BigInt(1e6) + BigInt(fractionNs)).toString();
+}
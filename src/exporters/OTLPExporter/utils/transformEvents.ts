@@ -0,0 +1,232 @@
+import type { TelemetryEvent } from "../../../types";
+import type {
+  OTLPKeyValue,
+  OTLPLogRecord,
+  OTLPSpan,
+  OTLPLogsPayload,
+  OTLPTracesPayload,
+  OTLPInstrumentationScope,
+} from "../types";
+import { generateHexId } from "../../../utils/generateHexId";
+import { toKeyValues, toUnixNano } from "./attributes";
+
+// OTLP severity numbers (see the OpenTelemetry logs data model)
+const SEVERITY = {
+  DEBUG: { number: 5, text: "DEBUG" },
+  INFO: { number: 9, text: "INFO" },
+  WARN: { number: 13, text: "WARN" },
+  ERROR: { number: 17, text: "ERROR" },
+} as const;
+
+const SPAN_KIND_CLIENT = 3;
+const STATUS_CODE_UNSET = 0;
+const STATUS_CODE_ERROR = 2;
+
+// Network events that describe a finished request and can be expressed as a span
+const SPAN_EVENT_NAME_PATTERN = /^(supabase_)?(fetch|xhr)_(complete|error)$/;
+
+type NetworkSpanPayload = {
+  url?: string;
+  method?: string;
+  responseStatus?: number;
+  responseStatusText?: string;
+  error?: string;
+  duration?: number;
+  traceId?: string;
+  spanId?: string;
+};
+
+/**
+ * Checks whether an event maps to an OTLP span rather than a log record
+ */
+export function isSpanEvent(event: TelemetryEvent): boolean {
+  if (event.eventType !== "network" && event.eventType !== "supabase") {
+    return false;
+  }
+  const payload = event.payload as NetworkSpanPayload;
+  return (
+    SPAN_EVENT_NAME_PATTERN.test(event.eventName) &&
+    typeof payload.duration === "number"
+  );
+}
+
+function getEventTimeMs(event: TelemetryEvent): number {
+  const parsed = Date.parse(event.timestamp);
+  return Number.isNaN(parsed) ? Date.now() : parsed;
+}
+
+function getSeverity(event: TelemetryEvent): {
+  number: number;
+  text: string;
+} {
+  if (event.eventType === "error") {
+    return SEVERITY.ERROR;
+  }
+  if (event.eventType === "console") {
+    switch (event.eventName) {
+      case "console_error":
+        return SEVERITY.ERROR;
+      case "console_warn":
+        return SEVERITY.WARN;
+      case "console_debug":
+        return SEVERITY.DEBUG;
+      default:
+        return SEVERITY.INFO;
+    }
+  }
+  return SEVERITY.INFO;
+}
+
+function getCommonAttributes(event: TelemetryEvent): OTLPKeyValue[] {
+  const attributes = toKeyValues({
+    "event.type": event.eventType,
+    "event.name": event.eventName,
+    "event.id": event.event_id,
+    "session.id": event.sessionId,
+    "user.id": event.userId,
+    "user.anonymous_id": event.anonymousId,
+  });
+  if (event.sdkMetadata) {
+    attributes.push(...toKeyValues(event.sdkMetadata, "telemetry.sdk."));
+  }
+  return attributes;
+}
+
+/**
+ * Maps a console, error, custom or any other non-span event to an OTLP log record
+ */
+export function toLogRecord(event: TelemetryEvent): OTLPLogRecord {
+  const severity = getSeverity(event);
+  const payload = event.payload ?? {};
+  const message =
+    typeof payload.message === "string" ? payload.message : event.eventName;
+  const timeUnixNano = toUnixNano(getEventTimeMs(event));
+
+  const record: OTLPLogRecord = {
+    timeUnixNano,
+    observedTimeUnixNano: timeUnixNano,
+    severityNumber: severity.number,
+    severityText: severity.text,
+    body: { stringValue: message },
+    attributes: [
+      ...getCommonAttributes(event),
+      ...toKeyValues(payload, "payload."),
+    ],
+  };
+
+  // Correlate logs with the request they were emitted under, when known
+  if (typeof payload.traceId === "string" && payload.traceId.length === 32) {
+    record.traceId = payload.traceId;
+    if (typeof payload.spanId === "string" && payload.spanId.length === 16) {
+      record.spanId = payload.spanId;
+    }
+  }
+
+  return record;
+}
+
+/**
+ * Maps a completed fetch/XHR network event to an OTLP client span
+ */
+export function toSpan(event: TelemetryEvent): OTLPSpan {
+  const payload = event.payload as NetworkSpanPayload & Record<string, unknown>;
+  // Plugin start/end times are performance.now() based, so anchor on the event timestamp
+  const endTimeMs = getEventTimeMs(event);
+  const startTimeMs = endTimeMs - Math.max(0, payload.duration ?? 0);
+  const method = (payload.method ?? "GET").toUpperCase();
+  const isError =
+    event.eventName.endsWith("_error") ||
+    (typeof payload.responseStatus === "number" &&
+      payload.responseStatus >= 400);
+
+  const status: OTLPSpan["status"] = isError
+    ? {
+        code: STATUS_CODE_ERROR,
+        message:
+          payload.error ??
+          `HTTP ${payload.responseStatus ?? ""} ${payload.responseStatusText ?? ""}`.trim(),
+      }
+    : { code: STATUS_CODE_UNSET };
+
+  const attributes = [
+    ...getCommonAttributes(event),
+    ...toKeyValues({
+      "http.request.method": method,
+      "url.full": payload.url,
+      "http.response.status_code": payload.responseStatus,
+      "exception.message": payload.error,
+    }),
+  ];
+  const extraPayload = { ...payload };
+  delete extraPayload.url;
+  delete extraPayload.method;
+  delete extraPayload.responseStatus;
+  delete extraPayload.error;
+  delete extraPayload.traceId;
+  delete extraPayload.spanId;
+  attributes.push(...toKeyValues(extraPayload, "payload."));
+
+  return {
+    traceId:
+      typeof payload.traceId === "string" && payload.traceId.length === 32
+        ? payload.traceId
+        : generateHexId(16),
+    spanId:
+      typeof payload.spanId === "string" && payload.spanId.length === 16
+        ? payload.spanId
+        : generateHexId(8),
+    name: `HTTP ${method}`,
+    kind: SPAN_KIND_CLIENT,
+    startTimeUnixNano: toUnixNano(startTimeMs),
+    endTimeUnixNano: toUnixNano(endTimeMs),
+    attributes,
+    status,
+  };
+}
+
+/**
+ * Builds the OTLP resource attribute list shared by logs and traces
+ */
+export function buildResourceAttributes(
+  serviceName: string,
+  sdkVersion: string,
+  resourceAttributes: Record<string, string | number | boolean> = {}
+): OTLPKeyValue[] {
+  return toKeyValues({
+    "service.name": serviceName,
+    "telemetry.sdk.name": "@hyperlook/telemetry-sdk",
+    "telemetry.sdk.language": "webjs",
+    "telemetry.sdk.version": sdkVersion,
+    ...resourceAttributes,
+  });
+}
+
+export function buildLogsPayload(
+  records: OTLPLogRecord[],
+  resourceAttributes: OTLPKeyValue[],
+  scope: OTLPInstrumentationScope
+): OTLPLogsPayload {
+  return {
+    resourceLogs: [
+      {
+        resource: { attributes: resourceAttributes },
+        scopeLogs: [{ scope, logRecords: records }],
+      },
+    ],
+  };
+}
+
+export function buildTracesPayload(
+  spans: OTLPSpan[],
+  resourceAttributes: OTLPKeyValue[],
+  scope: OTLPInstrumentationScope
+): OTLPTracesPayload {
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: resourceAttributes },
+        scopeSpans: [{ scope, spans }],
+      },
+    ],
+  };
+}
@@ -1,2 +1,3 @@
 export * from "./HTTPExporter";
 export * from "./HyperlookExporter";
+export * from "./OTLPExporter";
@@ -7,8 +7,42 @@ import type {
   Logger,
   LogLevel,
   LoggerConfig,
+  EventStorage,
+  OfflineQueueConfig,
+  PersistedBatch,
+  TracePropagationTarget,
+  BeforeSendHook,
+  BeforeSendStats,
+  RedactionConfig,
+  RedactionRule,
+  RedactionDetector,
+  SamplingRule,
+  SamplingMode,
+  SessionConfig,
+  SessionEndReason,
+  SessionChangeListener,
+  Breadcrumb,
+  BreadcrumbCategory,
+  BreadcrumbLevel,
+  BreadcrumbInput,
+  BreadcrumbConfig,
+  SeverityLevel,
+  CaptureExceptionOptions,
+  NodeRuntimeConfig,
+  NodeIntegrations,
+  CompressionAlgorithm,
+  CompressionConfig,
 } from "./types";
-import { HTTPExporter } from "./exporters";
+import { ExporterType, type DeliveryPolicy } from "./types/ExporterTypes";
+import {
+  HTTPExporter,
+  HyperlookExporter,
+  OTLPExporter,
+  type OTLPExporterOptions,
+  type HTTPExporterOptions,
+  type HTTPHeadersProvider,
+  type HTTPBodySerializer,
+} from "./exporters";
 import { getLogger, setLogger, createLogger } from "./logger";
 import { BasePlugin } from "./plugins/BasePlugin";
 import { ClickPlugin } from "./plugins/ClickPlugin";
@@ -18,6 +52,7 @@ import { PerformancePlugin } from "./plugins/PerformancePlugin";
 import { CustomEventsPlugin } from "./plugins/CustomEventsPlugin";
 import { PageViewPlugin } from "./plugins/PageViewPlugin";
 import { ErrorPlugin } from "./plugins/ErrorPlugin";
+import { NodeRuntimePlugin } from "./plugins/NodeRuntimePlugin";
 import { initialTelemetryConfig } from "./utils/initialTelemetryConfig";
 import { getCurrentVersion } from "./utils/versionUtils";
 
@@ -31,7 +66,11 @@ export {
   CustomEventsPlugin,
   PageViewPlugin,
   ErrorPlugin,
+  NodeRuntimePlugin,
   HTTPExporter,
+  HyperlookExporter,
+  OTLPExporter,
+  ExporterType,
   getLogger,
   setLogger,
   createLogger,
@@ -46,6 +85,36 @@ export type {
   Logger,
   LogLevel,
   LoggerConfig,
+  EventStorage,
+  OfflineQueueConfig,
+  PersistedBatch,
+  TracePropagationTarget,
+  BeforeSendHook,
+  BeforeSendStats,
+  RedactionConfig,
+  RedactionRule,
+  RedactionDetector,
+  SamplingRule,
+  SamplingMode,
+  SessionConfig,
+  SessionEndReason,
+  SessionChangeListener,
+  Breadcrumb,
+  BreadcrumbCategory,
+  BreadcrumbLevel,
+  BreadcrumbInput,
+  BreadcrumbConfig,
+  SeverityLevel,
+  CaptureExceptionOptions,
+  NodeRuntimeConfig,
+  NodeIntegrations,
+  CompressionAlgorithm,
+  CompressionConfig,
+  OTLPExporterOptions,
+  HTTPExporterOptions,
+  HTTPHeadersProvider,
+  HTTPBodySerializer,
+  DeliveryPolicy,
 };
 
 export function initTelemetry(
@@ -79,6 +148,15 @@ export function initTelemetry(
       void gracefulShutdown();
     });
 
+    // Retry undelivered events as soon as the connection comes back
+    window.addEventListener("online", () => {
+      if (!telemetry.isShutdown()) {
+        telemetry.flush().catch(error => {
+          console.warn("Online flush failed:", error);
+        });
+      }
+    });
+
     // Handle visibility change (when user switches tabs/apps)
     document.addEventListener("visibilitychange", () => {
       if (document.visibilityState === "hidden") {
@@ -104,6 +182,11 @@ export function initTelemetry(
           `Received ${signal || "shutdown"} signal, flushing telemetry...`
         );
 
+        // Included in the final flush below
+        telemetry
+          .getPlugin(NodeRuntimePlugin)
+          ?.recordShutdown(signal || "shutdown");
+
         // Only shutdown if not already shutting down or shutdown
         if (!telemetry.isShutdown()) {
           await telemetry.shutdown();
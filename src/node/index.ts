@@ -0,0 +1,18 @@
+// Node.js-only integrations, kept out of the browser bundle
+import http from "http";
+import https from "https";
+import { syncBuiltinESMExports } from "module";
+import { monitorEventLoopDelay } from "perf_hooks";
+import zlib from "zlib";
+import type { NodeIntegrations } from "../types";
+
+export { FileStorage } from "../TelemetryManager/storage/FileStorage";
+
+// Pass to initTelemetry as `nodeIntegrations` to enable the features using them
+export const nodeIntegrations: NodeIntegrations = {
+  monitorEventLoopDelay,
+  http,
+  https,
+  syncBuiltinESMExports,
+  zlib,
+};
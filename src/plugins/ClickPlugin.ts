@@ -1,7 +1,17 @@
 import { BasePlugin } from "./BasePlugin";
 import type { TelemetryEvent } from "../types";
+import { getElementSelector } from "../utils/getElementSelector";
+
+export type ClickSummary = {
+  selector: string;
+  tagName: string;
+  timeStamp: number; // Event timeStamp, comparable with performance entry times
+  timestamp: string;
+};
 
 export class ClickPlugin extends BasePlugin {
+  private lastClick: ClickSummary | null = null;
+
   private handler = (e: MouseEvent) => {
     try {
       const target = e.target;
@@ -23,6 +33,15 @@ export class ClickPlugin extends BasePlugin {
       // Removed unused textContent extraction and try-catch block
 
       const rect = tgt.getBoundingClientRect();
+      const selector = getElementSelector(tgt);
+      const timestamp = new Date().toISOString();
+
+      this.lastClick = {
+        selector,
+        tagName: tgt.tagName,
+        timeStamp: e.timeStamp,
+        timestamp,
+      };
 
       const evt: TelemetryEvent = {
         eventType: "interaction",
@@ -30,6 +49,7 @@ export class ClickPlugin extends BasePlugin {
         payload: {
           element: {
             tagName: tgt.tagName,
+            selector,
             id: tgt.id || null,
             className: tgt.className || null,
             textContent: tgt.textContent?.slice(0, 100) || null,
@@ -72,7 +92,7 @@ export class ClickPlugin extends BasePlugin {
           scrollX: window.scrollX,
           scrollY: window.scrollY,
         },
-        timestamp: new Date().toISOString(),
+        timestamp,
       };
 
       this.logger.debug("Click event captured", {
@@ -89,6 +109,13 @@ export class ClickPlugin extends BasePlugin {
     }
   };
 
+  /**
+   * The most recent click, used to attribute jank to the interaction that caused it
+   */
+  public getLastClick(): ClickSummary | null {
+    return this.lastClick ? { ...this.lastClick } : null;
+  }
+
   public isSupported(): boolean {
     return typeof window !== "undefined" && typeof document !== "undefined";
   }
@@ -1,6 +1,7 @@
 import { BasePlugin } from "./BasePlugin";
 import type { TelemetryEvent } from "../types";
 import { sanitizeString, sanitizePayload } from "../TelemetryManager/utils";
+import { getActiveTraceContext } from "../utils/traceContext";
 
 export class CustomEventsPlugin extends BasePlugin {
   private readonly MAX_EVENT_TYPE_LENGTH = 50;
@@ -80,6 +81,18 @@ export class CustomEventsPlugin extends BasePlugin {
     }
   }
 
+  /**
+   * Link the event to the network request in flight, if trace propagation injected one
+   */
+  private withTraceContext<T>(payload: T): T {
+    const traceContext = getActiveTraceContext();
+    if (!traceContext) {
+      return payload;
+    }
+    // Never override IDs the caller set explicitly
+    return { ...traceContext, ...payload };
+  }
+
   /**
    * Capture a custom event with the specified type, name, and payload
    */
@@ -107,7 +120,7 @@ export class CustomEventsPlugin extends BasePlugin {
       const event: TelemetryEvent<T> = {
         eventType: sanitizedEventType,
         eventName: sanitizedEventName,
-        payload: sanitizedPayload as T,
+        payload: this.withTraceContext(sanitizedPayload as T),
         timestamp: new Date().toISOString(),
         ...(sessionId && { sessionId }),
         ...(userId && { userId }),
@@ -163,7 +176,10 @@ export class CustomEventsPlugin extends BasePlugin {
         payloadKeys: Object.keys(event.payload as Record<string, unknown>),
       });
 
-      this.safeCapture(event as TelemetryEvent);
+      this.safeCapture({
+        ...event,
+        payload: this.withTraceContext(event.payload),
+      } as TelemetryEvent);
     } catch (error) {
       this.logger.error("Failed to capture custom event", {
         eventType: event?.eventType,
@@ -0,0 +1,145 @@
+import { BasePlugin } from "../BasePlugin";
+import type {
+  ErrorEvent as ErrorTelemetryEvent,
+  ErrorMechanism,
+} from "./types";
+import {
+  computeFingerprint,
+  createErrorEvent,
+  createFrame,
+  ErrorDeduplicator,
+} from "./utils";
+
+// Identical errors inside this window are reported once with a count
+const DEDUP_WINDOW = 5000;
+
+export class ErrorPlugin extends BasePlugin {
+  private deduplicator = new ErrorDeduplicator(
+    event => this.safeCapture(event),
+    DEDUP_WINDOW
+  );
+
+  private errorHandler = (event: ErrorEvent) => {
+    try {
+      // Cross-origin scripts without CORS only report "Script error."
+      const evt = this.createErrorEvent(
+        "javascript_error",
+        "onerror",
+        event.error ?? event.message
+      );
+      if (event.filename) {
+        evt.payload.filename = event.filename;
+        evt.payload.lineno = event.lineno;
+        evt.payload.colno = event.colno;
+        if (evt.payload.frames.length === 0) {
+          evt.payload.frames = [
+            createFrame(undefined, event.filename, event.lineno, event.colno),
+          ];
+          evt.payload.fingerprint = computeFingerprint(evt.payload);
+        }
+      }
+
+      this.logger.debug("JavaScript error captured", {
+        message: evt.payload.message,
+        filename: event.filename,
+        lineno: event.lineno,
+        fingerprint: evt.payload.fingerprint,
+      });
+
+      this.captureError(evt);
+    } catch (error) {
+      this.logger.error("Failed to process JavaScript error", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  private unhandledRejectionHandler = (event: PromiseRejectionEvent) => {
+    try {
+      const evt = this.createErrorEvent(
+        "unhandled_promise_rejection",
+        "onunhandledrejection",
+        event.reason
+      );
+
+      this.logger.debug("Unhandled promise rejection captured", {
+        message: evt.payload.message,
+        fingerprint: evt.payload.fingerprint,
+      });
+
+      this.captureError(evt);
+    } catch (error) {
+      this.logger.error("Failed to process unhandled promise rejection", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  public isSupported(): boolean {
+    return typeof window !== "undefined";
+  }
+
+  private createErrorEvent(
+    eventName: ErrorTelemetryEvent["eventName"],
+    mechanism: ErrorMechanism,
+    value: unknown
+  ): ErrorTelemetryEvent {
+    return createErrorEvent(value, {
+      eventName,
+      mechanism,
+      handled: false,
+      breadcrumbs: this.manager.getBreadcrumbs(),
+    });
+  }
+
+  private captureError(event: ErrorTelemetryEvent): void {
+    if (!this.deduplicator.track(event)) {
+      this.logger.debug("Duplicate error folded into pending report", {
+        fingerprint: event.payload.fingerprint,
+      });
+      return;
+    }
+    this.safeCapture(event);
+  }
+
+  protected setup(): void {
+    if (!this.isSupported()) {
+      this.logger.warn("ErrorPlugin not supported in this environment");
+      this.isEnabled = false;
+      return;
+    }
+
+    try {
+      window.addEventListener("error", this.errorHandler);
+      window.addEventListener(
+        "unhandledrejection",
+        this.unhandledRejectionHandler
+      );
+      this.logger.info("ErrorPlugin setup complete");
+    } catch (error) {
+      this.logger.error("Failed to setup ErrorPlugin", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      this.isEnabled = false;
+    }
+  }
+
+  teardown(): void {
+    try {
+      if (typeof window !== "undefined") {
+        window.removeEventListener("error", this.errorHandler);
+        window.removeEventListener(
+          "unhandledrejection",
+          this.unhandledRejectionHandler
+        );
+      }
+      // Report repeats still waiting for their window to close
+      this.deduplicator.flush();
+      this.logger.info("ErrorPlugin teardown complete");
+    } catch (error) {
+      this.logger.error("Failed to teardown ErrorPlugin", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import type { Breadcrumb, SeverityLevel } from "../../../types";
+
+export type StackFrame = {
+  function?: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  inApp: boolean; // False for browser internals, extensions and node_modules
+};
+
+export type ErrorDetails = {
+  type: string; // Error name, e.g. TypeError
+  message: string;
+  stack?: string; // Raw stack, truncated
+  frames: StackFrame[]; // Innermost frame first
+};
+
+export type ErrorMechanism =
+  | "onerror"
+  | "onunhandledrejection"
+  | "captureException"
+  | "captureMessage"
+  | "uncaughtException" // Node.js
+  | "unhandledRejection"; // Node.js
+
+export type ErrorEventPayload = ErrorDetails & {
+  fingerprint: string; // Groups occurrences of the same error
+  mechanism: ErrorMechanism;
+  handled: boolean; // True for errors the app caught and reported itself
+  level: SeverityLevel;
+  tags?: Record<string, string>;
+  extra?: Record<string, unknown>;
+  occurrences: number; // 1, or the repeats folded into a deduplicated report
+  causes?: ErrorDetails[]; // Error.cause chain, outermost first
+  errors?: ErrorDetails[]; // AggregateError members
+  // Location reported by the browser, useful when there is no stack
+  filename?: string;
+  lineno?: number;
+  colno?: number;
+  breadcrumbs?: Breadcrumb[]; // Recent activity before the error, oldest first
+  // Only on deduplicated reports
+  firstSeen?: string;
+  lastSeen?: string;
+};
+
+export type ErrorEvent = {
+  eventType: "error";
+  eventName:
+    | "javascript_error"
+    | "unhandled_promise_rejection"
+    | "captured_exception"
+    | "captured_message";
+  payload: ErrorEventPayload;
+  timestamp: string;
+};
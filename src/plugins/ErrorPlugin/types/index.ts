@@ -0,0 +1,7 @@
+export type {
+  StackFrame,
+  ErrorDetails,
+  ErrorMechanism,
+  ErrorEventPayload,
+  ErrorEvent,
+} from "./ErrorEvent";
@@ -0,0 +1,46 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { ErrorDeduplicator } from "./ErrorDeduplicator";
+import { createErrorEvent } from "./createErrorEvent";
+import type { ErrorEvent } from "../types";
+
+// Thrown from one place, so every capture shares the fingerprint
+const error = new Error("boom");
+const createEvent = (): ErrorEvent =>
+  createErrorEvent(error, {
+    eventName: "javascript_error",
+    mechanism: "onerror",
+    handled: false,
+  });
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("ErrorDeduplicator", () => {
+  it("reports repeats once the window closes", () => {
+    vi.useFakeTimers();
+    const repeats: ErrorEvent[] = [];
+    const deduplicator = new ErrorDeduplicator(event => repeats.push(event));
+
+    expect(deduplicator.track(createEvent())).toBe(true);
+    expect(deduplicator.track(createEvent())).toBe(false);
+    expect(deduplicator.track(createEvent())).toBe(false);
+    vi.advanceTimersByTime(5000);
+
+    expect(repeats).toHaveLength(1);
+    expect(repeats[0].payload.occurrences).toBe(2);
+  });
+
+  it("doesn't keep the Node.js process alive while repeats are pending", () => {
+    const setTimeoutSpy = vi.spyOn(globalThis, "setTimeout");
+    const deduplicator = new ErrorDeduplicator(() => {});
+
+    deduplicator.track(createEvent());
+    deduplicator.track(createEvent());
+
+    const timer = setTimeoutSpy.mock.results[0].value as NodeJS.Timeout;
+    expect(timer.hasRef()).toBe(false);
+    deduplicator.clear();
+  });
+});
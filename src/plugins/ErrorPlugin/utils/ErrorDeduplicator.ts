@@ -0,0 +1,131 @@
+import type { ErrorEvent } from "../types";
+
+type TrackedError = {
+  event: ErrorEvent;
+  firstSeen: number;
+  lastSeen: number;
+  repeats: number;
+  timer: ReturnType<typeof setTimeout> | null;
+};
+
+/**
+ * Folds identical errors inside a time window into one report. The first
+ * occurrence is captured right away; repeats are counted and reported once,
+ * with their count in occurrences, when the window closes.
+ */
+export class ErrorDeduplicator {
+  private windowMs: number;
+  private maxTracked: number;
+  private onRepeat: (event: ErrorEvent) => void;
+  private tracked = new Map<string, TrackedError>();
+
+  constructor(
+    onRepeat: (event: ErrorEvent) => void,
+    windowMs: number = 5000,
+    maxTracked: number = 100
+  ) {
+    // Validate parameters
+    if (windowMs <= 0) {
+      throw new Error("windowMs must be greater than 0");
+    }
+    if (maxTracked < 1) {
+      throw new Error("maxTracked must be at least 1");
+    }
+
+    this.onRepeat = onRepeat;
+    this.windowMs = windowMs;
+    this.maxTracked = maxTracked;
+  }
+
+  /**
+   * @returns True when the event should be captured now, false when it was
+   * folded into a pending report
+   */
+  track(event: ErrorEvent, now: number = Date.now()): boolean {
+    const { fingerprint } = event.payload;
+    const existing = this.tracked.get(fingerprint);
+
+    if (existing && now - existing.firstSeen < this.windowMs) {
+      existing.repeats++;
+      existing.lastSeen = now;
+      if (!existing.timer) {
+        existing.timer = setTimeout(
+          () => this.report(fingerprint),
+          existing.firstSeen + this.windowMs - now
+        );
+        // A pending repeat count shouldn't keep a Node.js process alive
+        existing.timer.unref?.();
+      }
+      return false;
+    }
+
+    if (existing) {
+      this.report(fingerprint);
+    }
+    this.evictOldest();
+    this.tracked.set(fingerprint, {
+      event,
+      firstSeen: now,
+      lastSeen: now,
+      repeats: 0,
+      timer: null,
+    });
+    return true;
+  }
+
+  /**
+   * Report all pending repeats, e.g. before the plugin is torn down
+   */
+  flush(): void {
+    for (const fingerprint of Array.from(this.tracked.keys())) {
+      this.report(fingerprint);
+    }
+  }
+
+  /**
+   * Forget tracked errors without reporting their repeats
+   */
+  clear(): void {
+    this.tracked.forEach(tracked => {
+      if (tracked.timer) {
+        clearTimeout(tracked.timer);
+      }
+    });
+    this.tracked.clear();
+  }
+
+  private evictOldest(): void {
+    while (this.tracked.size >= this.maxTracked) {
+      const oldest = this.tracked.keys().next();
+      if (oldest.done) {
+        return;
+      }
+      this.report(oldest.value);
+    }
+  }
+
+  private report(fingerprint: string): void {
+    const tracked = this.tracked.get(fingerprint);
+    if (!tracked) {
+      return;
+    }
+    this.tracked.delete(fingerprint);
+    if (tracked.timer) {
+      clearTimeout(tracked.timer);
+    }
+    if (tracked.repeats === 0) {
+      return;
+    }
+
+    this.onRepeat({
+      ...tracked.event,
+      payload: {
+        ...tracked.event.payload,
+        occurrences: tracked.repeats,
+        firstSeen: new Date(tracked.firstSeen).toISOString(),
+        lastSeen: new Date(tracked.lastSeen).toISOString(),
+      },
+      timestamp: new Date(tracked.lastSeen).toISOString(),
+    });
+  }
+}
@@ -0,0 +1,42 @@
+import type { Breadcrumb, CaptureExceptionOptions } from "../../../types";
+import type { ErrorEvent, ErrorMechanism } from "../types";
+import { computeFingerprint, hashFingerprint } from "./fingerprint";
+import { normalizeError } from "./normalizeError";
+
+export type CreateErrorEventOptions = CaptureExceptionOptions & {
+  eventName: ErrorEvent["eventName"];
+  mechanism: ErrorMechanism;
+  handled: boolean;
+  breadcrumbs?: Breadcrumb[];
+};
+
+/**
+ * Builds the structured error event shared by the global handlers and
+ * captureException/captureMessage
+ */
+export const createErrorEvent = (
+  value: unknown,
+  options: CreateErrorEventOptions
+): ErrorEvent => {
+  const details = normalizeError(value);
+  const { tags, extra, fingerprint, breadcrumbs } = options;
+  return {
+    eventType: "error",
+    eventName: options.eventName,
+    payload: {
+      ...details,
+      fingerprint:
+        fingerprint && fingerprint.length > 0
+          ? hashFingerprint(fingerprint)
+          : computeFingerprint(details),
+      mechanism: options.mechanism,
+      handled: options.handled,
+      level: options.level ?? "error",
+      occurrences: 1,
+      ...(tags && Object.keys(tags).length > 0 && { tags }),
+      ...(extra && Object.keys(extra).length > 0 && { extra }),
+      ...(breadcrumbs && breadcrumbs.length > 0 && { breadcrumbs }),
+    },
+    timestamp: new Date().toISOString(),
+  };
+};
@@ -0,0 +1,52 @@
+import { hashString } from "../../../utils";
+import type { ErrorDetails, StackFrame } from "../types";
+
+// Frames below this depth rarely tell errors apart
+const FINGERPRINT_FRAMES = 5;
+
+// Strips the origin, query and hash so the same script groups across hosts
+const normalizeFile = (file: string): string =>
+  file.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]+/i, "").replace(/[?#].*$/, "");
+
+// Replaces IDs, numbers and quoted values that vary between occurrences
+const normalizeMessage = (message: string): string =>
+  message
+    .replace(
+      /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi,
+      "<id>"
+    )
+    .replace(/\b0x[0-9a-f]+\b/gi, "<hex>")
+    .replace(/\d+/g, "<n>")
+    .replace(/(["'`]).*?\1/g, "<str>");
+
+const describeFrame = (frame: StackFrame): string =>
+  [
+    frame.function ?? "?",
+    frame.file ? normalizeFile(frame.file) : "?",
+    frame.line ?? "?",
+  ].join(":");
+
+/**
+ * Hashes fingerprint parts into a short hex ID
+ */
+export const hashFingerprint = (parts: string[]): string =>
+  Math.floor(hashString(parts.join("\n")) * 0x100000000)
+    .toString(16)
+    .padStart(8, "0");
+
+/**
+ * Computes a stable ID for grouping occurrences of the same error: the error
+ * type plus the top in-app frames, or the normalized message without a stack
+ */
+export const computeFingerprint = (details: ErrorDetails): string => {
+  const appFrames = details.frames.filter(frame => frame.inApp);
+  const frames = (appFrames.length > 0 ? appFrames : details.frames).slice(
+    0,
+    FINGERPRINT_FRAMES
+  );
+  return hashFingerprint(
+    frames.length > 0
+      ? [details.type, ...frames.map(describeFrame)]
+      : [details.type, normalizeMessage(details.message)]
+  );
+};
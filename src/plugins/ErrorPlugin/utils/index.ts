@@ -0,0 +1,7 @@
+export { parseStack, createFrame } from "./parseStack";
+export { normalizeError, toErrorDetails } from "./normalizeError";
+export type { NormalizedError } from "./normalizeError";
+export { computeFingerprint, hashFingerprint } from "./fingerprint";
+export { ErrorDeduplicator } from "./ErrorDeduplicator";
+export { createErrorEvent } from "./createErrorEvent";
+export type { CreateErrorEventOptions } from "./createErrorEvent";
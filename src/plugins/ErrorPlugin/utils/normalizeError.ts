@@ -0,0 +1,113 @@
+import type { ErrorDetails } from "../types";
+import { parseStack } from "./parseStack";
+
+const MAX_MESSAGE_LENGTH = 1000;
+const MAX_STACK_LENGTH = 2000;
+const MAX_CAUSES = 5;
+const MAX_AGGREGATE_ERRORS = 10;
+// Causes and aggregate members only need the top of their stacks
+const MAX_NESTED_FRAMES = 10;
+
+export type NormalizedError = ErrorDetails & {
+  causes?: ErrorDetails[];
+  errors?: ErrorDetails[];
+};
+
+type ErrorLike = {
+  name?: unknown;
+  message?: unknown;
+  stack?: unknown;
+  cause?: unknown;
+  errors?: unknown;
+};
+
+const truncate = (value: string, maxLength: number): string =>
+  value.length > maxLength ? `${value.slice(0, maxLength)}...` : value;
+
+const isErrorLike = (value: unknown): value is ErrorLike =>
+  value instanceof Error ||
+  (!!value &&
+    typeof value === "object" &&
+    typeof (value as ErrorLike).message === "string" &&
+    (typeof (value as ErrorLike).name === "string" ||
+      typeof (value as ErrorLike).stack === "string"));
+
+// Rejections and throws aren't always Errors, e.g. reject("timeout") or an Event
+const describeValue = (value: unknown): string => {
+  if (typeof value === "string") {
+    return value;
+  }
+  if (typeof Event !== "undefined" && value instanceof Event) {
+    return `${value.constructor.name} (${value.type})`;
+  }
+  try {
+    const json = JSON.stringify(value);
+    if (json !== undefined) {
+      return json;
+    }
+  } catch {
+    // Circular or otherwise unserializable, fall through
+  }
+  return Object.prototype.toString.call(value);
+};
+
+/**
+ * Converts any thrown or rejected value into error details with parsed frames
+ */
+export const toErrorDetails = (value: unknown): ErrorDetails => {
+  if (!isErrorLike(value)) {
+    return {
+      type: typeof value === "string" ? "Error" : `Non-Error ${typeof value}`,
+      message: truncate(describeValue(value), MAX_MESSAGE_LENGTH),
+      frames: [],
+    };
+  }
+
+  const stack = typeof value.stack === "string" ? value.stack : undefined;
+  return {
+    type: typeof value.name === "string" && value.name ? value.name : "Error",
+    message: truncate(String(value.message), MAX_MESSAGE_LENGTH),
+    ...(stack && { stack: truncate(stack, MAX_STACK_LENGTH) }),
+    frames: parseStack(stack),
+  };
+};
+
+const toNestedDetails = (value: unknown): ErrorDetails => {
+  const details = toErrorDetails(value);
+  return { ...details, frames: details.frames.slice(0, MAX_NESTED_FRAMES) };
+};
+
+/**
+ * Converts a thrown or rejected value into error details, following its
+ * Error.cause chain and AggregateError members
+ */
+export const normalizeError = (value: unknown): NormalizedError => {
+  const normalized: NormalizedError = toErrorDetails(value);
+  if (!isErrorLike(value)) {
+    return normalized;
+  }
+
+  const causes: ErrorDetails[] = [];
+  const seen = new Set<unknown>([value]);
+  let cause = value.cause;
+  while (
+    cause !== undefined &&
+    !seen.has(cause) &&
+    causes.length < MAX_CAUSES
+  ) {
+    seen.add(cause);
+    causes.push(toNestedDetails(cause));
+    cause = isErrorLike(cause) ? cause.cause : undefined;
+  }
+  if (causes.length > 0) {
+    normalized.causes = causes;
+  }
+
+  if (Array.isArray(value.errors) && value.errors.length > 0) {
+    normalized.errors = (value.errors as unknown[])
+      .slice(0, MAX_AGGREGATE_ERRORS)
+      .map(toNestedDetails);
+  }
+
+  return normalized;
+};
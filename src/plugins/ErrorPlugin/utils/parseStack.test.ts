@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { parseStack } from "./parseStack";
+
+describe("parseStack", () => {
+  it("parses V8 frames, innermost first", () => {
+    const stack = [
+      "TypeError: Cannot read properties of undefined",
+      "    at handleClick (https://app.example.com/assets/main.js:10:15)",
+      "    at async submit (https://app.example.com/assets/main.js:20:3)",
+      "    at https://app.example.com/assets/vendor.js:1:200",
+    ].join("\n");
+
+    expect(parseStack(stack)).toEqual([
+      {
+        function: "handleClick",
+        file: "https://app.example.com/assets/main.js",
+        line: 10,
+        column: 15,
+        inApp: true,
+      },
+      {
+        function: "submit",
+        file: "https://app.example.com/assets/main.js",
+        line: 20,
+        column: 3,
+        inApp: true,
+      },
+      {
+        file: "https://app.example.com/assets/vendor.js",
+        line: 1,
+        column: 200,
+        inApp: true,
+      },
+    ]);
+  });
+
+  it("treats Promise.all indexes and native builtins as non-file frames", () => {
+    const stack = [
+      "Error: failed",
+      "    at async Promise.all (index 0)",
+      "    at Array.map (native)",
+      "    at new Promise (<anonymous>)",
+    ].join("\n");
+
+    expect(parseStack(stack)).toEqual([
+      { function: "Promise.all", inApp: false },
+      { function: "Array.map", inApp: false },
+      { function: "Promise", file: "<anonymous>", inApp: false },
+    ]);
+  });
+
+  it("parses SpiderMonkey and JavaScriptCore frames", () => {
+    const stack = [
+      "handleClick@https://app.example.com/main.js:10:15",
+      "@https://app.example.com/main.js:1:1",
+      "forEach@[native code]",
+      "[native code]",
+    ].join("\n");
+
+    expect(parseStack(stack)).toEqual([
+      {
+        function: "handleClick",
+        file: "https://app.example.com/main.js",
+        line: 10,
+        column: 15,
+        inApp: true,
+      },
+      {
+        file: "https://app.example.com/main.js",
+        line: 1,
+        column: 1,
+        inApp: true,
+      },
+      { function: "forEach", inApp: false },
+      { inApp: false },
+    ]);
+  });
+
+  it("marks dependencies and runtime internals as not in app", () => {
+    const stack = [
+      "Error: failed",
+      "    at request (/srv/app/node_modules/axios/index.js:1:1)",
+      "    at process.processTicksAndRejections (node:internal/process/task_queues:95:5)",
+    ].join("\n");
+
+    expect(parseStack(stack).map(frame => frame.inApp)).toEqual([false, false]);
+  });
+
+  it("uses the origin of eval frames", () => {
+    const stack =
+      "    at eval (eval at run (https://app.example.com/main.js:5:7), <anonymous>:1:1)";
+
+    expect(parseStack(stack)[0]).toMatchObject({
+      file: "https://app.example.com/main.js",
+      line: 5,
+      column: 7,
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import type { StackFrame } from "../types";
+
+const MAX_FRAMES = 20;
+const MAX_STACK_LINES = 100;
+
+// V8: "    at fn (file:1:2)", "    at file:1:2", "    at async fn (file:1:2)"
+const V8_FRAME = /^\s*at\s+(?:(.*?)\s+\()?(.*?)(?::(\d+))?(?::(\d+))?\)?\s*$/;
+// V8 eval: "eval at fn (file:1:2), <anonymous>:3:4"
+const V8_EVAL_ORIGIN = /\((\S+?):(\d+):(\d+)\)/;
+// SpiderMonkey and JavaScriptCore: "fn@file:1:2", "@file:1:2", "fn@[native code]"
+const GECKO_FRAME = /^\s*(.*?)@(.*?)(?::(\d+))?(?::(\d+))?\s*$/;
+// SpiderMonkey eval: "file line 12 > eval"
+const GECKO_EVAL_ORIGIN = /^(.*?) line (\d+) > (?:eval|Function)/;
+
+// Locations that are not files: V8 "(index 0)" for Promise.all elements and native builtins
+const NON_FILE_LOCATION = /^(?:index \d+|native|\[native code\])$/;
+
+const NON_APP_FILE =
+  /^(?:<anonymous>|node:|(?:chrome|moz|safari(?:-web)?)-extension:)|\/node_modules\//;
+
+const toNumber = (value: string | undefined): number | undefined =>
+  value === undefined ? undefined : parseInt(value, 10);
+
+export const createFrame = (
+  fn: string | undefined,
+  file: string | undefined,
+  line: number | undefined,
+  column: number | undefined
+): StackFrame => {
+  const name = fn
+    ?.replace(/^async\s+/, "")
+    .replace(/^new\s+/, "")
+    .trim();
+  const location = file && !NON_FILE_LOCATION.test(file) ? file : undefined;
+  return {
+    ...(name && name !== "?" && { function: name }),
+    ...(location && { file: location }),
+    ...(line !== undefined && { line }),
+    ...(column !== undefined && { column }),
+    inApp: !!location && !NON_APP_FILE.test(location),
+  };
+};
+
+const parseV8Line = (line: string): StackFrame | null => {
+  const match = V8_FRAME.exec(line);
+  if (!match) {
+    return null;
+  }
+  const [, fn, file, lineNo, column] = match;
+  if (file?.startsWith("eval at")) {
+    const origin = V8_EVAL_ORIGIN.exec(file);
+    if (origin) {
+      return createFrame(
+        fn,
+        origin[1],
+        toNumber(origin[2]),
+        toNumber(origin[3])
+      );
+    }
+  }
+  return createFrame(fn, file, toNumber(lineNo), toNumber(column));
+};
+
+const parseGeckoLine = (line: string): StackFrame | null => {
+  const match = GECKO_FRAME.exec(line);
+  if (!match) {
+    return null;
+  }
+  const [, fn, file, lineNo, column] = match;
+  const evalOrigin = file ? GECKO_EVAL_ORIGIN.exec(file) : null;
+  if (evalOrigin) {
+    return createFrame(fn, evalOrigin[1], toNumber(evalOrigin[2]), undefined);
+  }
+  return createFrame(fn, file, toNumber(lineNo), toNumber(column));
+};
+
+/**
+ * Parses V8 (Chrome, Edge, Node.js), SpiderMonkey (Firefox) and
+ * JavaScriptCore (Safari) stack traces into frames. Lines in other formats,
+ * including the V8 message header, are skipped.
+ * @returns Frames, innermost first
+ */
+export const parseStack = (stack: string | undefined): StackFrame[] => {
+  if (!stack) {
+    return [];
+  }
+
+  const frames: StackFrame[] = [];
+  for (const line of stack.split("\n").slice(0, MAX_STACK_LINES)) {
+    if (frames.length >= MAX_FRAMES) {
+      break;
+    }
+    let frame: StackFrame | null = null;
+    if (/^\s*at\s/.test(line)) {
+      frame = parseV8Line(line);
+    } else if (line.includes("@")) {
+      frame = parseGeckoLine(line);
+    } else if (line.trim() === "[native code]") {
+      // JavaScriptCore prints native frames without a function name
+      frame = createFrame(undefined, "[native code]", undefined, undefined);
+    }
+    if (frame) {
+      frames.push(frame);
+    }
+  }
+  return frames;
+};
@@ -1,14 +1,26 @@
 import { BasePlugin } from "../BasePlugin";
 import type { TelemetryManager } from "../../TelemetryManager";
-import { patchFetch, patchXHR } from "./utils/unifiedInterceptors";
+import {
+  patchFetch,
+  patchXHR,
+  patchNodeHttp,
+} from "./utils/unifiedInterceptors";
 import { patchEventSource } from "./utils/sseInterceptor";
+import type { TracePropagationTarget } from "../../types";
+import {
+  formatTracestate,
+  shouldPropagateTraceContext,
+} from "../../utils/traceContext";
 
 export class NetworkPlugin extends BasePlugin {
   private unpatchFetch: (() => void) | null = null;
   private unpatchXHR: (() => void) | null = null;
   private unpatchEventSource: (() => void) | null = null;
+  private unpatchNodeHttp: (() => void) | null = null;
   private telemetryEndpoint: string = "";
   private captureStreamingMessages: boolean = false;
+  private enableTracePropagation: boolean = false;
+  private tracePropagationTargets: TracePropagationTarget[] = [];
   private xhrHandlers = new WeakMap<XMLHttpRequest, () => void>();
   private patchedXHRs = new Set<XMLHttpRequest>();
   private cleanupInterval: NodeJS.Timeout | null = null;
@@ -16,9 +28,18 @@ export class NetworkPlugin extends BasePlugin {
   public isSupported(): boolean {
     // Simple browser check for fetch and XMLHttpRequest
     return (
-      typeof window !== "undefined" &&
-      typeof window.fetch !== "undefined" &&
-      typeof XMLHttpRequest !== "undefined"
+      (typeof window !== "undefined" &&
+        typeof window.fetch !== "undefined" &&
+        typeof XMLHttpRequest !== "undefined") ||
+      this.isNodeRuntime()
+    );
+  }
+
+  private isNodeRuntime(): boolean {
+    return (
+      typeof window === "undefined" &&
+      typeof process !== "undefined" &&
+      !!process.versions?.node
     );
   }
 
@@ -32,6 +53,21 @@ export class NetworkPlugin extends BasePlugin {
     this.telemetryEndpoint = manager.getEndpoint();
     this.captureStreamingMessages =
       manager.getConfig().captureStreamingMessages ?? false;
+    this.enableTracePropagation =
+      manager.getConfig().enableTracePropagation ?? false;
+    this.tracePropagationTargets =
+      manager.getConfig().tracePropagationTargets ?? [];
+  }
+
+  private shouldPropagateTraceContext(url: string): boolean {
+    return (
+      this.enableTracePropagation &&
+      shouldPropagateTraceContext(url, this.tracePropagationTargets)
+    );
+  }
+
+  private getTraceState(): string | undefined {
+    return formatTracestate(this.manager.getSessionId());
   }
 
   protected setup(): void {
@@ -41,6 +77,11 @@ export class NetworkPlugin extends BasePlugin {
       return;
     }
 
+    if (this.isNodeRuntime()) {
+      this.setupNodeInterceptors();
+      return;
+    }
+
     try {
       // Set up unified fetch interceptor
       this.unpatchFetch = patchFetch({
@@ -48,6 +89,9 @@ export class NetworkPlugin extends BasePlugin {
         telemetryEndpoint: this.telemetryEndpoint,
         logger: this.logger,
         captureStreamingMessages: this.captureStreamingMessages,
+        shouldPropagateTraceContext:
+          this.shouldPropagateTraceContext.bind(this),
+        getTraceState: this.getTraceState.bind(this),
       });
 
       // Set up unified XHR interceptor
@@ -56,6 +100,9 @@ export class NetworkPlugin extends BasePlugin {
           handleTelemetryEvent: this.safeCapture.bind(this),
           telemetryEndpoint: this.telemetryEndpoint,
           logger: this.logger,
+          shouldPropagateTraceContext:
+            this.shouldPropagateTraceContext.bind(this),
+          getTraceState: this.getTraceState.bind(this),
         });
         // Set up periodic cleanup to prevent memory leaks
         this.setupCleanupInterval();
@@ -90,6 +137,46 @@ export class NetworkPlugin extends BasePlugin {
     }
   }
 
+  private setupNodeInterceptors(): void {
+    try {
+      // Global fetch (undici) is only available from Node.js 18
+      if (typeof globalThis.fetch !== "undefined") {
+        this.unpatchFetch = patchFetch({
+          handleTelemetryEvent: this.safeCapture.bind(this),
+          telemetryEndpoint: this.telemetryEndpoint,
+          logger: this.logger,
+          captureStreamingMessages: this.captureStreamingMessages,
+          shouldPropagateTraceContext:
+            this.shouldPropagateTraceContext.bind(this),
+          getTraceState: this.getTraceState.bind(this),
+        });
+      }
+
+      const { http, https, syncBuiltinESMExports } =
+        this.manager.getConfig().nodeIntegrations ?? {};
+      if (http || https) {
+        this.unpatchNodeHttp = patchNodeHttp({
+          handleTelemetryEvent: this.safeCapture.bind(this),
+          telemetryEndpoint: this.telemetryEndpoint,
+          logger: this.logger,
+          shouldPropagateTraceContext:
+            this.shouldPropagateTraceContext.bind(this),
+          getTraceState: this.getTraceState.bind(this),
+          http,
+          https,
+          syncBuiltinESMExports,
+        });
+      }
+
+      this.logger.info("NetworkPlugin setup complete for Node.js");
+    } catch (error) {
+      this.logger.error("Failed to setup NetworkPlugin", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      this.isEnabled = false;
+    }
+  }
+
   private setupCleanupInterval(): void {
     // Clean up dead XHR references every 30 seconds
     this.cleanupInterval = setInterval(() => {
@@ -159,6 +246,12 @@ export class NetworkPlugin extends BasePlugin {
         this.unpatchEventSource = null;
       }
 
+      // Restore Node.js http/https
+      if (this.unpatchNodeHttp) {
+        this.unpatchNodeHttp();
+        this.unpatchNodeHttp = null;
+      }
+
       // Clean up XHR handlers
       this.cleanupAllXHRHandlers();
 
@@ -8,6 +8,9 @@ export type NetworkEventPayload = {
   startTime: number;
   endTime: number;
   isSupabaseQuery: boolean;
+  // W3C trace context injected into the request, when propagation is enabled
+  traceId?: string;
+  spanId?: string;
   queryParams?: Record<string, string>;
   responseHeaders?: Record<string, string>;
   responseBody?: unknown;
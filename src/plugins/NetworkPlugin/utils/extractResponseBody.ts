@@ -117,3 +117,44 @@ export const extractXHRResponseBody = (xhr: XMLHttpRequest): unknown => {
   }
   return null;
 };
+
+/**
+ * Helper function to extract a response body read from a Node.js http.IncomingMessage
+ * @param statusCode - The response status code
+ * @param contentType - The response content-type header
+ * @param responseText - The decoded response body
+ * @returns The response body as parsed JSON or text
+ */
+export const extractNodeResponseBody = (
+  statusCode: number | undefined,
+  contentType: string,
+  responseText: string
+): unknown => {
+  // Check for empty responses
+  if (statusCode === 204 || statusCode === 304 || !responseText) {
+    return null;
+  }
+
+  if (
+    contentType.includes("application/json") ||
+    contentType.includes("application/ld+json") ||
+    contentType.includes("text/json")
+  ) {
+    try {
+      return JSON.parse(responseText);
+    } catch {
+      // If JSON parsing fails, return the raw text
+      return responseText;
+    }
+  }
+
+  // For other content types, try to parse as JSON first, then fallback to text
+  try {
+    return JSON.parse(responseText);
+  } catch {
+    // If JSON parsing fails, return the raw text (truncated if too long)
+    return responseText.length > 10000
+      ? responseText.substring(0, 10000) + "..."
+      : responseText;
+  }
+};
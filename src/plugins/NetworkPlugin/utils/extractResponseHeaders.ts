@@ -1,3 +1,5 @@
+import type { IncomingHttpHeaders } from "http";
+
 /**
  * Helper function to extract response headers from Response object
  * @param response - The Response object to extract headers from
@@ -41,3 +43,22 @@ export const extractXHRResponseHeaders = (
   }
   return headers;
 };
+
+/**
+ * Helper function to extract response headers from a Node.js http.IncomingMessage
+ * @param headers - The incoming message headers to extract from
+ * @returns Record of response headers
+ */
+export const extractNodeResponseHeaders = (
+  headers: IncomingHttpHeaders
+): Record<string, string> => {
+  const result: Record<string, string> = {};
+  Object.entries(headers).forEach(([key, value]) => {
+    if (value !== undefined) {
+      result[key.toLowerCase()] = Array.isArray(value)
+        ? value.join(", ")
+        : value;
+    }
+  });
+  return result;
+};
@@ -2,10 +2,12 @@ export { extractQueryParams } from "./extractQueryParams";
 export {
   extractResponseBody,
   extractXHRResponseBody,
+  extractNodeResponseBody,
 } from "./extractResponseBody";
 export {
   extractResponseHeaders,
   extractXHRResponseHeaders,
+  extractNodeResponseHeaders,
 } from "./extractResponseHeaders";
 export { normalizeUrl } from "./normalizeUrl";
 export { isStreamingResponse } from "./streamingDetection";
@@ -16,3 +18,4 @@ export {
 } from "./sseInterceptor";
 export { patchFetch } from "./unifiedInterceptors/fetch";
 export { patchXHR } from "./unifiedInterceptors/xhr";
+export { patchNodeHttp } from "./unifiedInterceptors/http";
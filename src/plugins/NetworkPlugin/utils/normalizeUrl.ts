@@ -14,6 +14,11 @@ export function normalizeUrl(url: string | URL): string {
     return urlString;
   }
 
+  // Servers have no page to resolve against
+  if (typeof window === "undefined") {
+    return urlString;
+  }
+
   // If it's a protocol-relative URL, add current protocol
   if (urlString.startsWith("//")) {
     return `${window.location.protocol}${urlString}`;
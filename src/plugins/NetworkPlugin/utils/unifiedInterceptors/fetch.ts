@@ -10,6 +10,13 @@ import {
   interceptGenericStreamingResponse,
 } from "../sseInterceptor";
 import { normalizeUrl } from "../normalizeUrl";
+import {
+  activateTraceContext,
+  createTraceContext,
+  formatTraceparent,
+  parseTraceparent,
+  type TraceContext,
+} from "../../../../utils/traceContext";
 
 export interface FetchInterceptorOptions {
   handleTelemetryEvent: (event: TelemetryEvent<NetworkEventPayload>) => void;
@@ -17,6 +24,32 @@ export interface FetchInterceptorOptions {
   telemetryEndpoint?: string;
   logger?: Logger;
   captureStreamingMessages?: boolean;
+  shouldPropagateTraceContext?: (url: string) => boolean; // Inject traceparent for matching URLs
+  getTraceState?: () => string | undefined;
+}
+
+/**
+ * Adds W3C trace headers to the request, keeping any traceparent the app already set
+ */
+function injectTraceHeaders(
+  input: RequestInfo | URL,
+  init: RequestInit | undefined,
+  traceState: string | undefined
+): { init: RequestInit; traceContext: TraceContext } {
+  const headers = new Headers(
+    init?.headers ?? (input instanceof Request ? input.headers : undefined)
+  );
+  const existingContext = parseTraceparent(headers.get("traceparent"));
+  if (existingContext) {
+    return { init: init ?? {}, traceContext: existingContext };
+  }
+
+  const traceContext = createTraceContext();
+  headers.set("traceparent", formatTraceparent(traceContext));
+  if (traceState && !headers.has("tracestate")) {
+    headers.set("tracestate", traceState);
+  }
+  return { init: { ...init, headers }, traceContext };
 }
 
 export function patchFetch({
@@ -25,13 +58,18 @@ export function patchFetch({
   telemetryEndpoint,
   logger,
   captureStreamingMessages = false,
+  shouldPropagateTraceContext,
+  getTraceState,
 }: FetchInterceptorOptions): () => void {
-  if (typeof window === "undefined" || typeof window.fetch === "undefined") {
+  // window in browsers, the global scope of Node.js 18+ (undici) on servers
+  const scope: typeof globalThis =
+    typeof window !== "undefined" ? window : globalThis;
+  if (typeof scope.fetch === "undefined") {
     throw new Error(
-      "patchFetch can only be used in a browser environment with window.fetch available"
+      "patchFetch requires a global fetch implementation (browsers or Node.js 18+)"
     );
   }
-  const originalFetch = window.fetch;
+  const originalFetch = scope.fetch;
 
   const defaultShouldCapture = (url: string) => {
     // Default: filter out telemetry endpoint and Hyperlook
@@ -42,7 +80,10 @@ export function patchFetch({
 
   const captureCheck = shouldCaptureRequest || defaultShouldCapture;
 
-  const interceptor = async (input: RequestInfo | URL, init?: RequestInit) => {
+  const interceptor = async (
+    input: RequestInfo | URL,
+    requestInit?: RequestInit
+  ) => {
     const startTime = performance.now();
     let url: string;
     if (typeof input === "string") {
@@ -54,14 +95,31 @@ export function patchFetch({
     } else {
       url = JSON.stringify(input);
     }
+    let init = requestInit;
     const method = init?.method || "GET";
 
     if (!captureCheck(url)) {
-      return originalFetch.call(window, input, init);
+      return originalFetch.call(scope, input, init);
+    }
+
+    let traceContext: TraceContext | null = null;
+    let releaseTraceContext: (() => void) | null = null;
+    if (shouldPropagateTraceContext?.(url)) {
+      try {
+        const injected = injectTraceHeaders(input, init, getTraceState?.());
+        init = injected.init;
+        traceContext = injected.traceContext;
+        releaseTraceContext = activateTraceContext(traceContext);
+      } catch (error) {
+        logger?.warn("Failed to inject trace headers", {
+          error: error instanceof Error ? error.message : String(error),
+          url,
+        });
+      }
     }
 
     try {
-      const response = await originalFetch.call(window, input, init);
+      const response = await originalFetch.call(scope, input, init);
       const endTime = performance.now();
       const duration = endTime - startTime;
 
@@ -182,6 +240,7 @@ export function patchFetch({
             startTime,
             endTime,
             isSupabaseQuery: url.includes("supabase"),
+            ...traceContext,
             isStreaming: true,
             isKeepAlive:
               response.headers
@@ -238,6 +297,7 @@ export function patchFetch({
           startTime,
           endTime,
           isSupabaseQuery: url.includes("supabase"),
+          ...traceContext,
           isStreaming: false,
           isKeepAlive:
             response.headers
@@ -274,6 +334,7 @@ export function patchFetch({
           startTime,
           endTime,
           isSupabaseQuery: url.includes("supabase"),
+          ...traceContext,
         },
         timestamp: new Date().toISOString(),
       };
@@ -286,14 +347,16 @@ export function patchFetch({
         // Don't throw here to avoid masking the original error
       }
       throw error;
+    } finally {
+      releaseTraceContext?.();
     }
   };
 
   // Patch fetch
-  window.fetch = interceptor as typeof fetch;
+  scope.fetch = interceptor as typeof fetch;
 
   // Return unpatch function
   return () => {
-    window.fetch = originalFetch;
+    scope.fetch = originalFetch;
   };
 }
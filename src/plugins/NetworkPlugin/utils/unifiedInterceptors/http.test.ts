@@ -0,0 +1,89 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import { afterAll, afterEach, beforeAll, describe, it, expect } from "vitest";
+import { patchNodeHttp } from "./http";
+import type { TelemetryEvent } from "../../../../types";
+import type { NetworkEventPayload } from "../../types/NetworkEvent";
+
+const readBody = (response: http.IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let body = "";
+    response.setEncoding("utf8");
+    response.on("data", (chunk: string) => (body += chunk));
+    response.on("end", () => resolve(body));
+    response.on("error", reject);
+  });
+
+describe("patchNodeHttp", () => {
+  let server: http.Server;
+  let url: string;
+  let events: TelemetryEvent<NetworkEventPayload>[];
+  let unpatch: () => void;
+
+  beforeAll(async () => {
+    server = http.createServer((_request, response) => {
+      response.writeHead(200, { "Content-Type": "application/json" });
+      response.end(JSON.stringify({ ok: true }));
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/orders`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const patch = () => {
+    events = [];
+    unpatch = patchNodeHttp({
+      handleTelemetryEvent: event => events.push(event),
+      http,
+      https: undefined,
+      syncBuiltinESMExports: undefined,
+    });
+  };
+
+  afterEach(() => {
+    unpatch();
+  });
+
+  it("leaves the body to a callback passed to http.get", async () => {
+    patch();
+
+    const response = await new Promise<http.IncomingMessage>(
+      (resolve, reject) => {
+        http.get(url, resolve).on("error", reject);
+      }
+    );
+    // Reads that start later must still see the whole body
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(await readBody(response)).toBe('{"ok":true}');
+    await new Promise(resolve => setImmediate(resolve));
+    expect(events).toHaveLength(1);
+    expect(events[0].eventName).toBe("fetch_complete");
+    expect(events[0].payload.responseBody).toEqual({ ok: true });
+  });
+
+  it("leaves the body to a response listener added after the request", async () => {
+    patch();
+
+    const request = http.request(url);
+    const body = new Promise<string>(resolve =>
+      request.on("response", response => resolve(readBody(response)))
+    );
+    request.end();
+
+    expect(await body).toBe('{"ok":true}');
+  });
+
+  it("drains responses nobody listens for and still reports them", async () => {
+    patch();
+
+    const request = http.get(url);
+
+    await new Promise(resolve => request.on("close", resolve));
+    await new Promise(resolve => setImmediate(resolve));
+    expect(events.map(event => event.eventName)).toEqual(["fetch_complete"]);
+  });
+});
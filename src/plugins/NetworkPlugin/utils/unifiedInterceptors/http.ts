@@ -0,0 +1,330 @@
+import type { ClientRequest, IncomingMessage, RequestOptions } from "http";
+import type { NodeIntegrations, TelemetryEvent } from "../../../../types";
+import type { Logger } from "../../../../types/Logger";
+import type { NetworkEventPayload } from "../../types/NetworkEvent";
+import { extractQueryParams } from "../extractQueryParams";
+import { extractNodeResponseHeaders } from "../extractResponseHeaders";
+import { extractNodeResponseBody } from "../extractResponseBody";
+import {
+  activateTraceContext,
+  createTraceContext,
+  formatTraceparent,
+  parseTraceparent,
+  type TraceContext,
+} from "../../../../utils/traceContext";
+
+// Same limit as extractResponseBody applies to fetch responses
+const MAX_BODY_BYTES = 1024 * 1024;
+
+type RequestFunction = (...args: unknown[]) => ClientRequest;
+
+type HttpModule = {
+  request: RequestFunction;
+  get: RequestFunction;
+};
+
+type PushEncoding = Parameters<IncomingMessage["push"]>[1];
+
+type RequestTarget = {
+  url: string;
+  method: string;
+};
+
+export interface NodeHttpInterceptorOptions {
+  handleTelemetryEvent: (event: TelemetryEvent<NetworkEventPayload>) => void;
+  shouldCaptureRequest?: (url: string) => boolean;
+  telemetryEndpoint?: string;
+  logger?: Logger;
+  shouldPropagateTraceContext?: (url: string) => boolean; // Inject traceparent for matching URLs
+  getTraceState?: () => string | undefined;
+  http: NodeIntegrations["http"]; // Built-ins from nodeIntegrations, missing ones are not patched
+  https: NodeIntegrations["https"];
+  syncBuiltinESMExports: NodeIntegrations["syncBuiltinESMExports"];
+}
+
+/**
+ * Rebuilds the URL and method of an http.request call from its
+ * (url, options) or (options) arguments
+ */
+const resolveRequestTarget = (
+  args: unknown[],
+  defaultProtocol: string
+): RequestTarget => {
+  const [first, second] = args;
+  const base =
+    typeof first === "string" || first instanceof URL ? new URL(first) : null;
+  const source = base ? second : first;
+  const options: RequestOptions =
+    source && typeof source === "object" ? (source as RequestOptions) : {};
+
+  const protocol = options.protocol ?? base?.protocol ?? defaultProtocol;
+  const hostname =
+    options.hostname ?? options.host ?? base?.hostname ?? "localhost";
+  const host =
+    hostname.includes(":") && !hostname.startsWith("[")
+      ? `[${hostname}]`
+      : hostname;
+  const port = options.port ?? base?.port;
+  const path = options.path ?? (base ? `${base.pathname}${base.search}` : "/");
+
+  return {
+    url: new URL(`${protocol}//${host}${port ? `:${port}` : ""}${path}`).href,
+    method: (options.method ?? "GET").toUpperCase(),
+  };
+};
+
+/**
+ * Records the response body as the HTTP parser pushes it, so the
+ * application's own reads of the stream are untouched
+ * @returns A function returning the captured body, or null when the body is not captured
+ */
+const recordResponseBody = (
+  response: IncomingMessage
+): (() => unknown) | null => {
+  const { statusCode, headers } = response;
+  if (statusCode === 204 || statusCode === 304) {
+    return null;
+  }
+  // Compressed bodies would need decompressing a second time
+  const encoding = headers["content-encoding"];
+  if (encoding && encoding !== "identity") {
+    return null;
+  }
+
+  const contentLength = parseInt(headers["content-length"] ?? "", 10);
+  let tooLarge = contentLength > MAX_BODY_BYTES;
+  let size = 0;
+  let text = "";
+  const decoder = new TextDecoder();
+  const originalPush = response.push.bind(response);
+
+  response.push = (chunk: unknown, chunkEncoding?: PushEncoding) => {
+    if (!tooLarge && chunk instanceof Uint8Array) {
+      size += chunk.byteLength;
+      if (size > MAX_BODY_BYTES) {
+        tooLarge = true;
+        text = "";
+      } else {
+        text += decoder.decode(chunk, { stream: true });
+      }
+    }
+    return originalPush(chunk, chunkEncoding);
+  };
+
+  return () =>
+    tooLarge
+      ? "[Response too large to capture]"
+      : extractNodeResponseBody(
+          statusCode,
+          headers["content-type"] ?? "",
+          text + decoder.decode()
+        );
+};
+
+/**
+ * Instruments Node.js http.request/get and https.request/get, reporting
+ * fetch_complete and fetch_error events in the same shape as patchFetch
+ * @returns The unpatch function
+ */
+export function patchNodeHttp({
+  handleTelemetryEvent,
+  shouldCaptureRequest,
+  telemetryEndpoint,
+  logger,
+  shouldPropagateTraceContext,
+  getTraceState,
+  http,
+  https,
+  syncBuiltinESMExports,
+}: NodeHttpInterceptorOptions): () => void {
+  // Propagates the patch to named ES module imports of http and https
+  const syncBuiltinExports = () => {
+    try {
+      syncBuiltinESMExports?.();
+    } catch {
+      // Only CommonJS callers see the patch
+    }
+  };
+
+  const defaultShouldCapture = (url: string) => {
+    // Default: filter out telemetry endpoint and Hyperlook
+    if (telemetryEndpoint && url.includes(telemetryEndpoint)) return false;
+    if (url.includes("hyperlook")) return false;
+    return true;
+  };
+
+  const captureCheck = shouldCaptureRequest || defaultShouldCapture;
+
+  const instrument = (
+    request: ClientRequest,
+    { url, method }: RequestTarget,
+    startTime: number
+  ) => {
+    let traceContext: TraceContext | null = null;
+    let releaseTraceContext: (() => void) | null = null;
+    if (shouldPropagateTraceContext?.(url) && !request.headersSent) {
+      try {
+        const existing = request.getHeader("traceparent");
+        traceContext = parseTraceparent(
+          typeof existing === "string" ? existing : null
+        );
+        if (!traceContext) {
+          traceContext = createTraceContext();
+          request.setHeader("traceparent", formatTraceparent(traceContext));
+          const traceState = getTraceState?.();
+          if (traceState && !request.hasHeader("tracestate")) {
+            request.setHeader("tracestate", traceState);
+          }
+        }
+        releaseTraceContext = activateTraceContext(traceContext);
+      } catch (error) {
+        logger?.warn("Failed to inject trace headers", {
+          error: error instanceof Error ? error.message : String(error),
+          url,
+        });
+      }
+    }
+
+    let isReported = false;
+    const report = (details: Partial<NetworkEventPayload>, failed: boolean) => {
+      if (isReported) {
+        return;
+      }
+      isReported = true;
+      releaseTraceContext?.();
+
+      const endTime = performance.now();
+      const isSupabaseQuery = url.includes("supabase");
+      const event: TelemetryEvent<NetworkEventPayload> = {
+        eventType: isSupabaseQuery ? "supabase" : "network",
+        eventName: `${isSupabaseQuery ? "supabase_" : ""}fetch_${failed ? "error" : "complete"}`,
+        payload: {
+          url,
+          method,
+          queryParams: extractQueryParams(url),
+          ...details,
+          duration: endTime - startTime,
+          startTime,
+          endTime,
+          isSupabaseQuery,
+          ...traceContext,
+        },
+        timestamp: new Date().toISOString(),
+      };
+      try {
+        handleTelemetryEvent(event);
+      } catch (err) {
+        logger?.error("Telemetry handler error in http request", {
+          error: err,
+        });
+      }
+    };
+
+    // Prepended so listeners still waiting for the event, including the
+    // callback Node.js registers with once(), are counted below
+    request.prependOnceListener("response", (response: IncomingMessage) => {
+      // Without a listener of its own the application never reads the
+      // response, so discard it the way Node.js would have
+      if (request.listenerCount("response") === 0) {
+        response.resume();
+      }
+
+      const readBody = recordResponseBody(response);
+      response.once("end", () => {
+        const responseBody = readBody?.();
+        report(
+          {
+            responseStatus: response.statusCode ?? 0,
+            responseStatusText: response.statusMessage ?? "",
+            responseHeaders: extractNodeResponseHeaders(response.headers),
+            ...(responseBody !== undefined && { responseBody }),
+            isStreaming: false,
+            isKeepAlive:
+              response.headers.connection
+                ?.toLowerCase()
+                .includes("keep-alive") ?? false,
+          },
+          false
+        );
+      });
+      response.once("close", () => {
+        if (!response.complete) {
+          report(
+            {
+              responseStatus: response.statusCode ?? 0,
+              error: "Response closed before it completed",
+            },
+            true
+          );
+        }
+      });
+    });
+
+    request.prependOnceListener("error", (error: Error) => {
+      report({ error: error.message }, true);
+      // Keep the crash an unhandled request error would have caused
+      if (request.listenerCount("error") === 0) {
+        throw error;
+      }
+    });
+  };
+
+  const wrapRequest = (
+    original: RequestFunction,
+    defaultProtocol: string
+  ): RequestFunction =>
+    function (this: unknown, ...args: unknown[]) {
+      let target: RequestTarget;
+      try {
+        target = resolveRequestTarget(args, defaultProtocol);
+      } catch {
+        // Let Node.js report the invalid arguments
+        return original.apply(this, args);
+      }
+      if (!captureCheck(target.url)) {
+        return original.apply(this, args);
+      }
+
+      const startTime = performance.now();
+      const request = original.apply(this, args);
+      try {
+        instrument(request, target, startTime);
+      } catch (error) {
+        logger?.error("Failed to instrument http request", {
+          error: error instanceof Error ? error.message : String(error),
+          url: target.url,
+        });
+      }
+      return request;
+    };
+
+  const patched = [
+    { module: http, protocol: "http:" },
+    { module: https, protocol: "https:" },
+  ].flatMap(({ module, protocol }) => {
+    if (!module) {
+      return [];
+    }
+    const target = module as unknown as HttpModule;
+    const original = { request: target.request, get: target.get };
+
+    const request = wrapRequest(original.request, protocol);
+    target.request = request;
+    // Same as Node.js's own get, so headers can still be injected before end()
+    target.get = function (this: unknown, ...args: unknown[]) {
+      const clientRequest = request.apply(this, args);
+      clientRequest.end();
+      return clientRequest;
+    };
+    return [{ target, original }];
+  });
+  syncBuiltinExports();
+
+  return () => {
+    patched.forEach(({ target, original }) => {
+      target.request = original.request;
+      target.get = original.get;
+    });
+    syncBuiltinExports();
+  };
+}
@@ -29,3 +29,4 @@ export interface UnifiedInterceptorOptions {
 // Export unified fetch and XHR patchers
 export { patchFetch } from "./fetch";
 export { patchXHR } from "./xhr";
+export { patchNodeHttp } from "./http";
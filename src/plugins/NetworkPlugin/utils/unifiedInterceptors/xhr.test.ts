@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { patchXHR } from "./xhr";
+
+const APP_TRACEPARENT =
+  "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01";
+
+// Records headers the way XMLHttpRequest does, repeated names are sent twice
+class FakeXMLHttpRequest {
+  sentHeaders: Array<[string, string]> = [];
+  status = 0;
+  statusText = "";
+
+  open(): void {}
+  send(): void {}
+  setRequestHeader(name: string, value: string): void {
+    this.sentHeaders.push([name.toLowerCase(), value]);
+  }
+  addEventListener(): void {}
+  removeEventListener(): void {}
+  getResponseHeader(): string | null {
+    return null;
+  }
+}
+
+const headerValues = (xhr: FakeXMLHttpRequest, name: string): string[] =>
+  xhr.sentHeaders.filter(([key]) => key === name).map(([, value]) => value);
+
+describe("patchXHR trace propagation", () => {
+  let unpatch: () => void;
+
+  beforeEach(() => {
+    vi.stubGlobal("XMLHttpRequest", FakeXMLHttpRequest);
+    unpatch = patchXHR({
+      handleTelemetryEvent: () => {},
+      shouldPropagateTraceContext: () => true,
+      getTraceState: () => "hyperlook=session",
+    });
+  });
+
+  afterEach(() => {
+    unpatch();
+    vi.unstubAllGlobals();
+  });
+
+  const request = (headers: Record<string, string> = {}) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("GET", "https://api.example.com/orders");
+    Object.entries(headers).forEach(([name, value]) =>
+      xhr.setRequestHeader(name, value)
+    );
+    xhr.send();
+    return xhr as unknown as FakeXMLHttpRequest;
+  };
+
+  it("injects traceparent and tracestate once", () => {
+    const xhr = request();
+
+    expect(headerValues(xhr, "traceparent")).toHaveLength(1);
+    expect(headerValues(xhr, "tracestate")).toEqual(["hyperlook=session"]);
+  });
+
+  it("keeps the traceparent the application set", () => {
+    const xhr = request({ traceparent: APP_TRACEPARENT });
+
+    expect(headerValues(xhr, "traceparent")).toEqual([APP_TRACEPARENT]);
+    expect(headerValues(xhr, "tracestate")).toEqual([]);
+  });
+
+  it("keeps the tracestate the application set", () => {
+    const xhr = request({ TraceState: "vendor=value" });
+
+    expect(headerValues(xhr, "traceparent")).toHaveLength(1);
+    expect(headerValues(xhr, "tracestate")).toEqual(["vendor=value"]);
+  });
+
+  it("forgets headers from a previous open", () => {
+    const xhr = request({ traceparent: APP_TRACEPARENT });
+    xhr.sentHeaders = [];
+    (xhr as unknown as XMLHttpRequest).open("GET", "https://api.example.com");
+    (xhr as unknown as XMLHttpRequest).send();
+
+    expect(headerValues(xhr, "traceparent")).toHaveLength(1);
+  });
+});
@@ -6,12 +6,21 @@ import { extractXHRResponseHeaders } from "../extractResponseHeaders";
 import { extractXHRResponseBody } from "../extractResponseBody";
 import { isSupabaseUrl } from "../../../../utils";
 import { normalizeUrl } from "../normalizeUrl";
+import {
+  activateTraceContext,
+  createTraceContext,
+  formatTraceparent,
+  parseTraceparent,
+  type TraceContext,
+} from "../../../../utils/traceContext";
 
 export interface XHRInterceptorOptions {
   handleTelemetryEvent: (event: TelemetryEvent<NetworkEventPayload>) => void;
   shouldCaptureRequest?: (url: string) => boolean;
   telemetryEndpoint?: string;
   logger?: Logger;
+  shouldPropagateTraceContext?: (url: string) => boolean; // Inject traceparent for matching URLs
+  getTraceState?: () => string | undefined;
 }
 
 /**
@@ -45,6 +54,8 @@ export function patchXHR({
   shouldCaptureRequest,
   telemetryEndpoint,
   logger,
+  shouldPropagateTraceContext,
+  getTraceState,
 }: XHRInterceptorOptions): () => void {
   const originalOpen = XMLHttpRequest.prototype.open.bind(
     XMLHttpRequest.prototype
@@ -52,6 +63,9 @@ export function patchXHR({
   const originalSend = XMLHttpRequest.prototype.send.bind(
     XMLHttpRequest.prototype
   );
+  // Called with the request as this, so it stays unbound
+  // eslint-disable-next-line @typescript-eslint/unbound-method
+  const originalSetRequestHeader = XMLHttpRequest.prototype.setRequestHeader;
   const xhrHandlers = new WeakMap<XMLHttpRequest, () => void>();
   const patchedXHRs = new Set<XMLHttpRequest>();
 
@@ -75,10 +89,26 @@ export function patchXHR({
     self._telemetryMethod = method;
     self._telemetryUrl = urlStr;
     self._telemetryStartTime = performance.now();
+    // open() clears the author request headers
+    self._telemetryHeaders = {};
     patchedXHRs.add(this);
     return originalOpen.call(this, method, url, async ?? true, user, password);
   };
 
+  // Repeated headers are combined rather than replaced, so remember what the application set
+  const setRequestHeaderInterceptor = function (
+    this: XMLHttpRequest,
+    name: string,
+    value: string
+  ) {
+    const self = this as XMLHttpRequest & Record<string, unknown>;
+    const headers = (self._telemetryHeaders ?? {}) as Record<string, string>;
+    const key = name.toLowerCase();
+    headers[key] = key in headers ? `${headers[key]}, ${value}` : value;
+    self._telemetryHeaders = headers;
+    return originalSetRequestHeader.call(this, name, value);
+  };
+
   const sendInterceptor = function (
     this: XMLHttpRequest,
     body?: Document | XMLHttpRequestBodyInit | null
@@ -92,11 +122,47 @@ export function patchXHR({
     }
     let eventCaptured = false;
     const isSupabase = isSupabaseUrl(url);
+
+    let traceContext: TraceContext | null = null;
+    let releaseTraceContext: (() => void) | null = null;
+    if (shouldPropagateTraceContext?.(url)) {
+      try {
+        const headers = (self._telemetryHeaders ?? {}) as Record<
+          string,
+          string
+        >;
+        // Headers the application set win, ours would be appended to them
+        if ("traceparent" in headers) {
+          traceContext = parseTraceparent(headers.traceparent);
+        } else {
+          traceContext = createTraceContext();
+          this.setRequestHeader("traceparent", formatTraceparent(traceContext));
+          const traceState = getTraceState?.();
+          if (traceState && !("tracestate" in headers)) {
+            this.setRequestHeader("tracestate", traceState);
+          }
+        }
+        if (traceContext) {
+          releaseTraceContext = activateTraceContext(traceContext);
+          // loadend also fires for timeouts, which have no handler below
+          this.addEventListener("loadend", () => releaseTraceContext?.(), {
+            once: true,
+          });
+        }
+      } catch (error) {
+        logger?.warn("Failed to inject trace headers", {
+          error: error instanceof Error ? error.message : String(error),
+          url,
+        });
+      }
+    }
+
     const cleanup = () => {
       this.removeEventListener("load", successHandler);
       this.removeEventListener("error", errorHandler);
       this.removeEventListener("abort", abortHandler);
       xhrHandlers.delete(this);
+      releaseTraceContext?.();
     };
     const successHandler = function (this: XMLHttpRequest) {
       if (eventCaptured) return;
@@ -135,6 +201,7 @@ export function patchXHR({
           startTime,
           endTime,
           isSupabaseQuery: isSupabase,
+          ...traceContext,
           isStreaming,
           isKeepAlive,
         },
@@ -167,6 +234,7 @@ export function patchXHR({
           startTime,
           endTime,
           isSupabaseQuery: isSupabase,
+          ...traceContext,
         },
         timestamp: new Date().toISOString(),
       };
@@ -199,6 +267,7 @@ export function patchXHR({
           startTime,
           endTime,
           isSupabaseQuery: isSupabase,
+          ...traceContext,
         },
         timestamp: new Date().toISOString(),
       };
@@ -221,11 +290,13 @@ export function patchXHR({
 
   XMLHttpRequest.prototype.open = openInterceptor;
   XMLHttpRequest.prototype.send = sendInterceptor;
+  XMLHttpRequest.prototype.setRequestHeader = setRequestHeaderInterceptor;
 
   // Return unpatch function
   return () => {
     XMLHttpRequest.prototype.open = originalOpen;
     XMLHttpRequest.prototype.send = originalSend;
+    XMLHttpRequest.prototype.setRequestHeader = originalSetRequestHeader;
     patchedXHRs.clear();
     // No clear() on WeakMap, but GC will clean up
   };
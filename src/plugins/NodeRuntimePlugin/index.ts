@@ -0,0 +1,247 @@
+import { BasePlugin } from "../BasePlugin";
+import { createErrorEvent, ErrorDeduplicator } from "../ErrorPlugin/utils";
+import type { ErrorEvent as ErrorTelemetryEvent } from "../ErrorPlugin/types";
+import type {
+  ProcessShutdownEvent,
+  ProcessStartEvent,
+  ProcessWarningEvent,
+  RuntimeMetricsEvent,
+} from "./types";
+import {
+  startEventLoopLagMonitor,
+  applyUnhandledRejectionsMode,
+  sampleMemoryUsage,
+  createCpuUsageTracker,
+  type EventLoopLagMonitor,
+  type CpuUsageTracker,
+} from "./utils";
+
+// Identical errors inside this window are reported once with a count
+const DEDUP_WINDOW = 5000;
+
+export class NodeRuntimePlugin extends BasePlugin {
+  private deduplicator = new ErrorDeduplicator(
+    event => this.safeCapture(event),
+    DEDUP_WINDOW
+  );
+  private metricsTimer: ReturnType<typeof setInterval> | null = null;
+  private eventLoopLagMonitor: EventLoopLagMonitor | null = null;
+  private cpuUsageTracker: CpuUsageTracker | null = null;
+  private isListening = false;
+  private hasRecordedShutdown = false;
+
+  // A monitor observes crashes without keeping the process alive
+  private uncaughtExceptionHandler = (error: Error) => {
+    this.captureError(error, "javascript_error", "uncaughtException");
+  };
+
+  private unhandledRejectionHandler = (reason: unknown) => {
+    this.captureError(
+      reason,
+      "unhandled_promise_rejection",
+      "unhandledRejection"
+    );
+    // Any listener turns off --unhandled-rejections, so apply it if we're alone
+    if (process.listenerCount("unhandledRejection") === 1) {
+      applyUnhandledRejectionsMode(reason);
+    }
+  };
+
+  private warningHandler = (warning: Error & { code?: string }) => {
+    try {
+      const evt: ProcessWarningEvent = {
+        eventType: "runtime",
+        eventName: "process_warning",
+        payload: {
+          name: warning.name,
+          message: warning.message,
+          ...(warning.code && { code: warning.code }),
+          ...(warning.stack && { stack: warning.stack }),
+        },
+        timestamp: new Date().toISOString(),
+      };
+      this.safeCapture(evt);
+    } catch (error) {
+      this.logger.error("Failed to process warning", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  public isSupported(): boolean {
+    return (
+      typeof window === "undefined" &&
+      typeof process !== "undefined" &&
+      typeof process.versions?.node === "string" &&
+      typeof process.on === "function"
+    );
+  }
+
+  /**
+   * Record why the process is shutting down, called by the signal handlers
+   * initTelemetry installs before they flush
+   */
+  recordShutdown(signal: string): void {
+    if (this.hasRecordedShutdown) {
+      return;
+    }
+    this.hasRecordedShutdown = true;
+    const evt: ProcessShutdownEvent = {
+      eventType: "runtime",
+      eventName: "process_shutdown",
+      payload: { signal, uptime: process.uptime() },
+      timestamp: new Date().toISOString(),
+    };
+    this.safeCapture(evt);
+  }
+
+  private captureError(
+    value: unknown,
+    eventName: ErrorTelemetryEvent["eventName"],
+    mechanism: "uncaughtException" | "unhandledRejection"
+  ): void {
+    try {
+      const evt = createErrorEvent(value, {
+        eventName,
+        mechanism,
+        handled: false,
+        level: mechanism === "uncaughtException" ? "fatal" : "error",
+        breadcrumbs: this.manager.getBreadcrumbs(),
+      });
+
+      this.logger.debug("Node.js error captured", {
+        mechanism,
+        message: evt.payload.message,
+        fingerprint: evt.payload.fingerprint,
+      });
+
+      if (this.deduplicator.track(evt)) {
+        this.safeCapture(evt);
+      }
+    } catch (error) {
+      this.logger.error("Failed to process Node.js error", {
+        mechanism,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private captureStartup(): void {
+    const evt: ProcessStartEvent = {
+      eventType: "runtime",
+      eventName: "process_start",
+      payload: {
+        runtime: "node",
+        nodeVersion: process.version,
+        ...(process.versions.v8 && { v8Version: process.versions.v8 }),
+        platform: process.platform,
+        arch: process.arch,
+        pid: process.pid,
+        uptime: process.uptime(),
+      },
+      timestamp: new Date().toISOString(),
+    };
+    this.safeCapture(evt);
+  }
+
+  private captureRuntimeMetrics = () => {
+    try {
+      const eventLoopLag = this.eventLoopLagMonitor?.sample();
+      const evt: RuntimeMetricsEvent = {
+        eventType: "runtime",
+        eventName: "runtime_metrics",
+        payload: {
+          ...(eventLoopLag && { eventLoopLag }),
+          memory: sampleMemoryUsage(),
+          cpu: (this.cpuUsageTracker ??= createCpuUsageTracker()).sample(),
+          uptime: process.uptime(),
+        },
+        timestamp: new Date().toISOString(),
+      };
+      this.safeCapture(evt);
+    } catch (error) {
+      this.logger.error("Failed to capture runtime metrics", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  private startMetrics(metricsInterval: number): void {
+    this.cpuUsageTracker = createCpuUsageTracker();
+    const { monitorEventLoopDelay } =
+      this.manager.getConfig().nodeIntegrations ?? {};
+    if (monitorEventLoopDelay) {
+      this.eventLoopLagMonitor = startEventLoopLagMonitor(
+        monitorEventLoopDelay
+      );
+    }
+    this.metricsTimer = setInterval(
+      this.captureRuntimeMetrics,
+      metricsInterval
+    );
+    // Sampling must not keep the process alive
+    this.metricsTimer.unref?.();
+  }
+
+  protected setup(): void {
+    if (!this.isSupported()) {
+      this.logger.warn("NodeRuntimePlugin not supported in this environment");
+      this.isEnabled = false;
+      return;
+    }
+
+    try {
+      const config = this.manager.getConfig().nodeRuntime ?? {};
+      const metricsInterval = config.metricsInterval ?? 30000;
+
+      process.on("uncaughtExceptionMonitor", this.uncaughtExceptionHandler);
+      process.on("unhandledRejection", this.unhandledRejectionHandler);
+      if (config.captureWarnings ?? true) {
+        process.on("warning", this.warningHandler);
+      }
+      this.isListening = true;
+
+      // Events are accepted once setup has returned
+      void Promise.resolve().then(() => this.captureStartup());
+
+      if (metricsInterval > 0) {
+        this.startMetrics(metricsInterval);
+      }
+
+      this.logger.info("NodeRuntimePlugin setup complete", {
+        metricsInterval,
+      });
+    } catch (error) {
+      this.logger.error("Failed to setup NodeRuntimePlugin", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      this.isEnabled = false;
+    }
+  }
+
+  teardown(): void {
+    try {
+      if (this.isListening) {
+        process.off("uncaughtExceptionMonitor", this.uncaughtExceptionHandler);
+        process.off("unhandledRejection", this.unhandledRejectionHandler);
+        process.off("warning", this.warningHandler);
+        this.isListening = false;
+      }
+
+      if (this.metricsTimer) {
+        clearInterval(this.metricsTimer);
+        this.metricsTimer = null;
+      }
+      this.eventLoopLagMonitor?.stop();
+      this.eventLoopLagMonitor = null;
+
+      // Report repeats still waiting for their window to close
+      this.deduplicator.flush();
+      this.logger.info("NodeRuntimePlugin teardown complete");
+    } catch (error) {
+      this.logger.error("Failed to teardown NodeRuntimePlugin", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
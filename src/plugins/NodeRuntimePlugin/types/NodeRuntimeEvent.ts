@@ -0,0 +1,70 @@
+export type EventLoopLag = {
+  min: number; // Milliseconds
+  max: number;
+  mean: number;
+  p50: number;
+  p99: number;
+};
+
+export type MemoryUsageSample = {
+  rss: number; // Bytes
+  heapTotal: number;
+  heapUsed: number;
+  external: number;
+  arrayBuffers: number;
+};
+
+export type CpuUsageSample = {
+  user: number; // Microseconds of CPU time since the previous sample
+  system: number;
+  percent: number; // Share of one core over the sample interval
+};
+
+export type ProcessStartEvent = {
+  eventType: "runtime";
+  eventName: "process_start";
+  payload: {
+    runtime: "node";
+    nodeVersion: string;
+    v8Version?: string;
+    platform: string;
+    arch: string;
+    pid: number;
+    uptime: number; // Seconds the process ran before the SDK started
+  };
+  timestamp: string;
+};
+
+export type RuntimeMetricsEvent = {
+  eventType: "runtime";
+  eventName: "runtime_metrics";
+  payload: {
+    eventLoopLag?: EventLoopLag; // Missing where perf_hooks is unavailable
+    memory: MemoryUsageSample;
+    cpu: CpuUsageSample;
+    uptime: number;
+  };
+  timestamp: string;
+};
+
+export type ProcessWarningEvent = {
+  eventType: "runtime";
+  eventName: "process_warning";
+  payload: {
+    name: string;
+    message: string;
+    code?: string;
+    stack?: string;
+  };
+  timestamp: string;
+};
+
+export type ProcessShutdownEvent = {
+  eventType: "runtime";
+  eventName: "process_shutdown";
+  payload: {
+    signal: string;
+    uptime: number;
+  };
+  timestamp: string;
+};
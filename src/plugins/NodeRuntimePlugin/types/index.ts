@@ -0,0 +1,9 @@
+export type {
+  EventLoopLag,
+  MemoryUsageSample,
+  CpuUsageSample,
+  ProcessStartEvent,
+  RuntimeMetricsEvent,
+  ProcessWarningEvent,
+  ProcessShutdownEvent,
+} from "./NodeRuntimeEvent";
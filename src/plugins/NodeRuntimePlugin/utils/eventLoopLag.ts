@@ -0,0 +1,55 @@
+import type {
+  IntervalHistogram,
+  monitorEventLoopDelay as MonitorEventLoopDelay,
+} from "perf_hooks";
+import type { EventLoopLag } from "../types";
+
+const NS_PER_MS = 1e6;
+const RESOLUTION_MS = 20;
+
+// The histogram includes the sampling timer's own interval
+const toLagMs = (nanoseconds: number): number =>
+  Math.max(
+    0,
+    Math.round((nanoseconds / NS_PER_MS - RESOLUTION_MS) * 100) / 100
+  );
+
+export type EventLoopLagMonitor = {
+  sample: () => EventLoopLag | null; // Lag since the previous sample
+  stop: () => void;
+};
+
+/**
+ * Measures event loop delay with perf_hooks.monitorEventLoopDelay, passed in
+ * through nodeIntegrations so browser bundles never import Node built-ins
+ * @returns A monitor, or null when the histogram cannot be created
+ */
+export const startEventLoopLagMonitor = (
+  monitorEventLoopDelay: typeof MonitorEventLoopDelay
+): EventLoopLagMonitor | null => {
+  let histogram: IntervalHistogram;
+  try {
+    histogram = monitorEventLoopDelay({ resolution: RESOLUTION_MS });
+    histogram.enable();
+  } catch {
+    return null;
+  }
+
+  return {
+    sample: () => {
+      if (histogram.count === 0) {
+        return null;
+      }
+      const lag: EventLoopLag = {
+        min: toLagMs(histogram.min),
+        max: toLagMs(histogram.max),
+        mean: toLagMs(histogram.mean),
+        p50: toLagMs(histogram.percentile(50)),
+        p99: toLagMs(histogram.percentile(99)),
+      };
+      histogram.reset();
+      return lag;
+    },
+    stop: () => histogram.disable(),
+  };
+};
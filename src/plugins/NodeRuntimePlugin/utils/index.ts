@@ -0,0 +1,5 @@
+export { startEventLoopLagMonitor } from "./eventLoopLag";
+export type { EventLoopLagMonitor } from "./eventLoopLag";
+export { applyUnhandledRejectionsMode } from "./unhandledRejections";
+export { sampleMemoryUsage, createCpuUsageTracker } from "./resourceUsage";
+export type { CpuUsageTracker } from "./resourceUsage";
@@ -0,0 +1,36 @@
+import type { CpuUsageSample, MemoryUsageSample } from "../types";
+
+export const sampleMemoryUsage = (): MemoryUsageSample => {
+  const { rss, heapTotal, heapUsed, external, arrayBuffers } =
+    process.memoryUsage();
+  return { rss, heapTotal, heapUsed, external, arrayBuffers };
+};
+
+export type CpuUsageTracker = {
+  sample: () => CpuUsageSample; // CPU used since the previous sample
+};
+
+export const createCpuUsageTracker = (): CpuUsageTracker => {
+  let previousUsage = process.cpuUsage();
+  let previousTime = process.hrtime.bigint();
+
+  return {
+    sample: () => {
+      const usage = process.cpuUsage(previousUsage);
+      const now = process.hrtime.bigint();
+      const elapsedMicros = Number(now - previousTime) / 1000;
+      previousUsage = process.cpuUsage();
+      previousTime = now;
+      return {
+        user: usage.user,
+        system: usage.system,
+        percent:
+          elapsedMicros > 0
+            ? Math.round(
+                ((usage.user + usage.system) / elapsedMicros) * 10000
+              ) / 100
+            : 0,
+      };
+    },
+  };
+};
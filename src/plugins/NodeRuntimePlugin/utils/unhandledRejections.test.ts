@@ -0,0 +1,67 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import {
+  applyUnhandledRejectionsMode,
+  getUnhandledRejectionsMode,
+} from "./unhandledRejections";
+
+describe("getUnhandledRejectionsMode", () => {
+  const execArgv = process.execArgv;
+
+  afterEach(() => {
+    process.execArgv = execArgv;
+    vi.unstubAllEnvs();
+  });
+
+  it("defaults to throw", () => {
+    process.execArgv = [];
+    vi.stubEnv("NODE_OPTIONS", "");
+
+    expect(getUnhandledRejectionsMode()).toBe("throw");
+  });
+
+  it("reads NODE_OPTIONS and lets the command line override it", () => {
+    process.execArgv = [];
+    vi.stubEnv(
+      "NODE_OPTIONS",
+      "--max-old-space-size=512 --unhandled-rejections=warn"
+    );
+    expect(getUnhandledRejectionsMode()).toBe("warn");
+
+    process.execArgv = ["--unhandled-rejections", "none"];
+    expect(getUnhandledRejectionsMode()).toBe("none");
+  });
+});
+
+describe("applyUnhandledRejectionsMode", () => {
+  const exitCode = process.exitCode;
+
+  afterEach(() => {
+    process.exitCode = exitCode;
+    vi.restoreAllMocks();
+  });
+
+  it("rethrows in throw mode", () => {
+    const reason = new Error("boom");
+
+    expect(() => applyUnhandledRejectionsMode(reason, "throw")).toThrow(reason);
+  });
+
+  it("warns and sets the exit code in warn-with-error-code mode", () => {
+    const emitWarning = vi
+      .spyOn(process, "emitWarning")
+      .mockImplementation(() => {});
+
+    applyUnhandledRejectionsMode(new Error("boom"), "warn-with-error-code");
+
+    expect(emitWarning).toHaveBeenCalledOnce();
+    expect(process.exitCode).toBe(1);
+  });
+
+  it("leaves warn, none and strict to Node.js", () => {
+    (["warn", "none", "strict"] as const).forEach(mode =>
+      expect(() =>
+        applyUnhandledRejectionsMode(new Error("boom"), mode)
+      ).not.toThrow()
+    );
+  });
+});
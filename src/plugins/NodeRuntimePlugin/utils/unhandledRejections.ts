@@ -0,0 +1,65 @@
+export type UnhandledRejectionsMode =
+  | "throw"
+  | "strict"
+  | "warn"
+  | "warn-with-error-code"
+  | "none";
+
+const MODES: UnhandledRejectionsMode[] = [
+  "throw",
+  "strict",
+  "warn",
+  "warn-with-error-code",
+  "none",
+];
+
+const FLAG = "--unhandled-rejections";
+
+const findMode = (args: string[]): UnhandledRejectionsMode | undefined => {
+  let mode: UnhandledRejectionsMode | undefined;
+  args.forEach((arg, index) => {
+    const value = arg.startsWith(`${FLAG}=`)
+      ? arg.slice(FLAG.length + 1)
+      : arg === FLAG
+        ? args[index + 1]
+        : undefined;
+    if (MODES.includes(value as UnhandledRejectionsMode)) {
+      mode = value as UnhandledRejectionsMode;
+    }
+  });
+  return mode;
+};
+
+/**
+ * The --unhandled-rejections mode Node.js was started with. Command line
+ * flags override NODE_OPTIONS, the default is "throw"
+ */
+export const getUnhandledRejectionsMode = (): UnhandledRejectionsMode =>
+  findMode(process.execArgv) ??
+  findMode(process.env.NODE_OPTIONS?.split(/\s+/) ?? []) ??
+  "throw";
+
+/**
+ * Does what Node.js would have done with a rejection nobody else handles,
+ * since listening for unhandledRejection turns its own handling off
+ */
+export const applyUnhandledRejectionsMode = (
+  reason: unknown,
+  mode: UnhandledRejectionsMode = getUnhandledRejectionsMode()
+): void => {
+  switch (mode) {
+    case "throw":
+      throw reason;
+    case "warn-with-error-code":
+      process.emitWarning(
+        `Unhandled promise rejection: ${reason instanceof Error ? reason.message : String(reason)}`,
+        "UnhandledPromiseRejectionWarning"
+      );
+      process.exitCode = 1;
+      break;
+    // "strict" has already raised it as an uncaught exception and "warn"
+    // warns whether or not a listener exists
+    default:
+      break;
+  }
+};
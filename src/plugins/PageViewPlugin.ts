@@ -127,6 +127,16 @@ export class PageViewPlugin extends BasePlugin {
     };
   }
 
+  /**
+   * URL of the page or client-side route currently being viewed
+   */
+  public getCurrentRoute(): string | null {
+    if (this.lastUrl) {
+      return this.lastUrl;
+    }
+    return typeof window !== "undefined" ? window.location.href : null;
+  }
+
   public isSupported(): boolean {
     return typeof window !== "undefined" && typeof document !== "undefined";
   }
@@ -1,4 +1,6 @@
 import { BasePlugin } from "../BasePlugin";
+import { ClickPlugin } from "../ClickPlugin";
+import { PageViewPlugin } from "../PageViewPlugin";
 import type { PageLoadMetricsEvent } from "./types";
 import {
   isPerformanceSupported,
@@ -8,12 +10,26 @@ import {
   captureWebVitals,
   setupLongTaskObserver,
   setupLayoutShiftObserver,
+  setupWebVitals,
+  setupLongAnimationFrameObserver,
+  isLongAnimationFrameSupported,
+  createEventThrottle,
+  setupRouteChangeTracking,
+  setupResourceObserver,
 } from "./utils";
 
+// At most this many long task / long animation frame events per window
+const JANK_EVENTS_PER_WINDOW = 10;
+const JANK_THROTTLE_WINDOW = 10000;
+
 export class PerformancePlugin extends BasePlugin {
   private hasCapturedInitialMetrics = false;
   private longTaskObserver: PerformanceObserver | null = null;
+  private longAnimationFrameObserver: PerformanceObserver | null = null;
   private layoutShiftObserver: PerformanceObserver | null = null;
+  private stopWebVitals: (() => void) | null = null;
+  private stopRouteChangeTracking: (() => void) | null = null;
+  private stopResourceObserver: (() => void) | null = null;
   private pageLoadTimeout: NodeJS.Timeout | null = null;
 
   public isSupported(): boolean {
@@ -37,10 +53,11 @@ export class PerformancePlugin extends BasePlugin {
       // Capture navigation timing
       const navigationMetrics = captureNavigationTiming();
 
-      // Capture resource timing
-      const resourceMetrics = captureResourceTiming();
-      navigationMetrics.resourceCount = resourceMetrics.length;
-      navigationMetrics.resourceLoadTimes = resourceMetrics;
+      // Summarize resource timing, the full entry list doesn't fit in the payload
+      const telemetryEndpoints = this.manager.getExporterEndpoints();
+      const resourceSummary = captureResourceTiming(telemetryEndpoints);
+      navigationMetrics.resourceCount = resourceSummary.count;
+      navigationMetrics.resources = resourceSummary;
 
       // Capture web vitals
       const webVitals = captureWebVitals();
@@ -60,6 +77,13 @@ export class PerformancePlugin extends BasePlugin {
       });
 
       this.safeCapture(evt);
+
+      // Resources loaded from here on are reported in resource_timing events
+      this.stopResourceObserver = setupResourceObserver({
+        safeCapture: this.safeCapture.bind(this),
+        telemetryEndpoints,
+        logger: this.logger,
+      });
     } catch (error) {
       this.logger.error("Failed to capture performance metrics", {
         error: error instanceof Error ? error.message : String(error),
@@ -90,38 +114,91 @@ export class PerformancePlugin extends BasePlugin {
         }
       }, 10000); // 10 second timeout
 
-      // Monitor for long tasks with error handling
+      // Monitor for long animation frames, or long tasks where they aren't supported
+      const jankThrottle = createEventThrottle(
+        JANK_EVENTS_PER_WINDOW,
+        JANK_THROTTLE_WINDOW
+      );
+      if (isLongAnimationFrameSupported()) {
+        try {
+          this.longAnimationFrameObserver = setupLongAnimationFrameObserver({
+            safeCapture: this.safeCapture.bind(this),
+            logger: this.logger,
+            throttle: jankThrottle,
+            getLastClick: () =>
+              this.manager.getPlugin(ClickPlugin)?.getLastClick() ?? null,
+            getCurrentRoute: () =>
+              this.manager.getPlugin(PageViewPlugin)?.getCurrentRoute() ??
+              window.location.href,
+          });
+          this.logger.debug("Long animation frame observer setup successful");
+        } catch (error) {
+          this.logger.error("Failed to setup long animation frame observer", {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      } else {
+        try {
+          this.longTaskObserver = setupLongTaskObserver({
+            safeCapture: this.safeCapture.bind(this),
+            logger: this.logger,
+            throttle: jankThrottle,
+          });
+
+          if (this.longTaskObserver) {
+            this.logger.debug("Long task observer setup successful");
+          } else {
+            this.logger.warn("Long task observer not supported");
+          }
+        } catch (error) {
+          this.logger.error("Failed to setup long task observer", {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
+      // Monitor for layout shifts with error handling
       try {
-        this.longTaskObserver = setupLongTaskObserver({
+        this.layoutShiftObserver = setupLayoutShiftObserver({
           safeCapture: this.safeCapture.bind(this),
           logger: this.logger,
         });
 
-        if (this.longTaskObserver) {
-          this.logger.debug("Long task observer setup successful");
+        if (this.layoutShiftObserver) {
+          this.logger.debug("Layout shift observer setup successful");
         } else {
-          this.logger.warn("Long task observer not supported");
+          this.logger.warn("Layout shift observer not supported");
         }
       } catch (error) {
-        this.logger.error("Failed to setup long task observer", {
+        this.logger.error("Failed to setup layout shift observer", {
           error: error instanceof Error ? error.message : String(error),
         });
       }
 
-      // Monitor for layout shifts with error handling
+      // Report LCP, CLS and INP as web_vital events
       try {
-        this.layoutShiftObserver = setupLayoutShiftObserver({
+        this.stopWebVitals = setupWebVitals({
           safeCapture: this.safeCapture.bind(this),
           logger: this.logger,
         });
+        this.logger.debug("Web vitals observers setup successful");
+      } catch (error) {
+        this.logger.error("Failed to setup web vitals observers", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
 
-        if (this.layoutShiftObserver) {
-          this.logger.debug("Layout shift observer setup successful");
-        } else {
-          this.logger.warn("Layout shift observer not supported");
+      // Measure client-side route changes, page_load only covers the first load
+      try {
+        this.stopRouteChangeTracking = setupRouteChangeTracking({
+          safeCapture: this.safeCapture.bind(this),
+          logger: this.logger,
+        });
+        if (this.stopRouteChangeTracking) {
+          this.logger.debug("Route change tracking setup successful");
         }
       } catch (error) {
-        this.logger.error("Failed to setup layout shift observer", {
+        this.logger.error("Failed to setup route change tracking", {
           error: error instanceof Error ? error.message : String(error),
         });
       }
@@ -165,6 +242,22 @@ export class PerformancePlugin extends BasePlugin {
         this.longTaskObserver = null;
       }
 
+      // Disconnect long animation frame observer
+      if (this.longAnimationFrameObserver) {
+        try {
+          this.longAnimationFrameObserver.disconnect();
+          this.logger.debug("Long animation frame observer disconnected");
+        } catch (error) {
+          this.logger.error(
+            "Failed to disconnect long animation frame observer",
+            {
+              error: error instanceof Error ? error.message : String(error),
+            }
+          );
+        }
+        this.longAnimationFrameObserver = null;
+      }
+
       // Disconnect layout shift observer
       if (this.layoutShiftObserver) {
         try {
@@ -178,6 +271,45 @@ export class PerformancePlugin extends BasePlugin {
         this.layoutShiftObserver = null;
       }
 
+      // Disconnect web vitals observers
+      if (this.stopWebVitals) {
+        try {
+          this.stopWebVitals();
+          this.logger.debug("Web vitals observers disconnected");
+        } catch (error) {
+          this.logger.error("Failed to disconnect web vitals observers", {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+        this.stopWebVitals = null;
+      }
+
+      // Stop route change tracking
+      if (this.stopRouteChangeTracking) {
+        try {
+          this.stopRouteChangeTracking();
+          this.logger.debug("Route change tracking stopped");
+        } catch (error) {
+          this.logger.error("Failed to stop route change tracking", {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+        this.stopRouteChangeTracking = null;
+      }
+
+      // Stop observing late resources
+      if (this.stopResourceObserver) {
+        try {
+          this.stopResourceObserver();
+          this.logger.debug("Resource observer disconnected");
+        } catch (error) {
+          this.logger.error("Failed to disconnect resource observer", {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+        this.stopResourceObserver = null;
+      }
+
       this.logger.info("PerformancePlugin teardown complete");
     } catch (error) {
       this.logger.error("Failed to teardown PerformancePlugin", {
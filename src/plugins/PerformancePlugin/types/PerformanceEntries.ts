@@ -0,0 +1,27 @@
+// Entry shapes from the Layout Instability and Event Timing specs, not yet in lib.dom
+export type LayoutShiftEntry = PerformanceEntry & {
+  value: number;
+  hadRecentInput: boolean;
+  sources?: { node: Node | null }[];
+};
+
+export type EventTimingEntry = PerformanceEventTiming & {
+  interactionId?: number;
+};
+
+// Long Animation Frames API entries, Chromium only
+export type LongAnimationFrameScript = {
+  duration: number;
+  invoker: string;
+  invokerType: string;
+  sourceURL: string;
+  sourceFunctionName: string;
+  forcedStyleAndLayoutDuration: number;
+};
+
+export type LongAnimationFrameEntry = PerformanceEntry & {
+  blockingDuration: number;
+  renderStart: number;
+  styleAndLayoutStart: number;
+  scripts: LongAnimationFrameScript[];
+};
@@ -1,4 +1,7 @@
-import type { PerformanceMetrics } from "./PerformanceMetrics";
+import type {
+  PerformanceMetrics,
+  ResourceTimingSummary,
+} from "./PerformanceMetrics";
 
 export type LongTaskEvent = {
   eventType: "performance";
@@ -11,6 +14,68 @@ export type LongTaskEvent = {
   timestamp: string;
 };
 
+export type LongAnimationFrameScriptSummary = {
+  sourceURL: string;
+  sourceFunctionName: string;
+  invoker: string; // e.g. "BUTTON#buy.onclick" or "Window.requestAnimationFrame"
+  invokerType: string;
+  duration: number;
+  forcedStyleAndLayoutDuration: number;
+};
+
+export type LongAnimationFrameEvent = {
+  eventType: "performance";
+  eventName: "long_animation_frame";
+  payload: {
+    duration: number;
+    startTime: number;
+    blockingDuration: number; // Time beyond 50ms that blocked input handling
+    renderDuration: number;
+    styleAndLayoutDuration: number;
+    scripts: LongAnimationFrameScriptSummary[]; // Slowest scripts first
+    route: string | null;
+    interaction: {
+      selector: string;
+      tagName: string;
+      delay: number; // Milliseconds from the click to the end of the frame
+    } | null;
+    throttledCount: number; // Frames dropped by throttling since the previous event
+  };
+  timestamp: string;
+};
+
+export type RouteChangeTrigger = "pushstate" | "replacestate" | "popstate";
+
+export type RouteChangePerformanceEvent = {
+  eventType: "performance";
+  eventName: "route_change_performance";
+  payload: {
+    from: string;
+    to: string;
+    trigger: RouteChangeTrigger;
+    startTime: number;
+    domSettleTime: number; // Milliseconds until the last DOM mutation before the page went quiet
+    timedOut: boolean; // The DOM never settled within the measurement limit
+    interrupted: boolean; // Another navigation started before the DOM settled
+    resources: {
+      count: number;
+      transferSize: number;
+      byType: Record<string, number>; // Count per initiatorType
+      slowest: { name: string; initiatorType: string; duration: number }[];
+    };
+    network: {
+      count: number; // fetch and XHR requests
+      totalDuration: number;
+    };
+    longTasks: {
+      count: number;
+      totalDuration: number;
+      totalBlockingTime: number; // Sum of the time each task ran beyond 50ms
+    };
+  };
+  timestamp: string;
+};
+
 export type LayoutShiftEvent = {
   eventType: "performance";
   eventName: "layout_shift";
@@ -22,6 +87,13 @@ export type LayoutShiftEvent = {
   timestamp: string;
 };
 
+export type ResourceTimingEvent = {
+  eventType: "performance";
+  eventName: "resource_timing";
+  payload: ResourceTimingSummary; // Resources loaded since the previous report
+  timestamp: string;
+};
+
 export type PageLoadMetricsEvent = {
   eventType: "page";
   eventName: "page_load";
@@ -1,8 +1,32 @@
 export type ResourceTiming = {
   name: string;
   duration: number;
-  size: number;
-  type: string;
+  size: number; // Transfer size in bytes, 0 when cached or cross-origin without Timing-Allow-Origin
+  type: string; // initiatorType
+  dns: number;
+  tcp: number; // Includes the TLS handshake
+  tls: number;
+  ttfb: number; // Request sent to first response byte
+  download: number;
+  cached: boolean;
+  renderBlocking: boolean;
+};
+
+export type ResourceGroupStats = {
+  count: number;
+  totalDuration: number;
+  transferSize: number;
+  cachedCount: number;
+};
+
+export type ResourceTimingSummary = {
+  count: number;
+  transferSize: number;
+  cachedCount: number;
+  renderBlockingCount: number;
+  byType: Record<string, ResourceGroupStats>;
+  byDomain: Record<string, ResourceGroupStats>; // Busiest domains only
+  slowest: ResourceTiming[];
 };
 
 export type PerformanceMetrics = {
@@ -41,7 +65,7 @@ export type PerformanceMetrics = {
 
   // Resource Timing API metrics
   resourceCount: number;
-  resourceLoadTimes: ResourceTiming[];
+  resources?: ResourceTimingSummary;
 
   // Web Vitals (if available)
   fcp?: number; // First Contentful Paint
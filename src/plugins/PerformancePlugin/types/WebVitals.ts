@@ -0,0 +1,33 @@
+export type WebVitalName = "LCP" | "CLS" | "INP";
+
+export type WebVitalRating = "good" | "needs-improvement" | "poor";
+
+// Page lifecycle phase the metric's entry happened in
+export type LoadState =
+  | "loading"
+  | "dom-interactive"
+  | "dom-content-loaded"
+  | "complete";
+
+export type WebVitalAttribution = {
+  target: string | null; // CSS selector of the element responsible
+  loadState: LoadState;
+  [key: string]: unknown; // Metric specific details, e.g. url for LCP or eventType for INP
+};
+
+export type WebVitalMetric = {
+  name: WebVitalName;
+  value: number; // Milliseconds, or a unitless score for CLS
+  delta: number; // Change since this metric was last reported
+  attribution: WebVitalAttribution;
+};
+
+export type WebVitalEvent = {
+  eventType: "performance";
+  eventName: "web_vital";
+  payload: WebVitalMetric & {
+    rating: WebVitalRating;
+    navigationType: string | null;
+  };
+  timestamp: string;
+};
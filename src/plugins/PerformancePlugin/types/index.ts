@@ -1,6 +1,30 @@
-export type { PerformanceMetrics, ResourceTiming } from "./PerformanceMetrics";
+export type {
+  PerformanceMetrics,
+  ResourceTiming,
+  ResourceGroupStats,
+  ResourceTimingSummary,
+} from "./PerformanceMetrics";
 export type {
   LongTaskEvent,
   LayoutShiftEvent,
   PageLoadMetricsEvent,
+  LongAnimationFrameEvent,
+  LongAnimationFrameScriptSummary,
+  RouteChangeTrigger,
+  RouteChangePerformanceEvent,
+  ResourceTimingEvent,
 } from "./PerformanceEvents";
+export type {
+  WebVitalName,
+  WebVitalRating,
+  LoadState,
+  WebVitalAttribution,
+  WebVitalMetric,
+  WebVitalEvent,
+} from "./WebVitals";
+export type {
+  LayoutShiftEntry,
+  EventTimingEntry,
+  LongAnimationFrameEntry,
+  LongAnimationFrameScript,
+} from "./PerformanceEntries";
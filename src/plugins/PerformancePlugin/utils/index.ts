@@ -3,3 +3,6 @@ export * from "./resourceTiming";
 export * from "./webVitals";
 export * from "./observers";
 export * from "./initialization";
+export * from "./longAnimationFrames";
+export * from "./throttle";
+export * from "./routeChangePerformance";
@@ -6,6 +6,10 @@ export const isPerformanceSupported = (): boolean => {
   );
 };
 
+export const supportsEntryType = (type: string): boolean =>
+  typeof PerformanceObserver !== "undefined" &&
+  (PerformanceObserver.supportedEntryTypes ?? []).includes(type);
+
 export const isPageFullyLoaded = (): boolean => {
   return document.readyState === "complete";
 };
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { setupLongAnimationFrameObserver } from "./longAnimationFrames";
+import { createEventThrottle } from "./throttle";
+import {
+  MockPerformanceObserver,
+  emitEntries,
+} from "./mockPerformanceObserver";
+import type { ClickSummary } from "../../ClickPlugin";
+import type { LongAnimationFrameEvent } from "../types";
+
+const frame = (startTime: number, duration: number, scripts = 0) => ({
+  startTime,
+  duration,
+  blockingDuration: duration - 50,
+  renderStart: startTime + duration - 20,
+  styleAndLayoutStart: startTime + duration - 5,
+  scripts: Array.from({ length: scripts }, (_, i) => ({
+    duration: (i + 1) * 10,
+    invoker: `handler-${i}`,
+    invokerType: "event-listener",
+    sourceURL: "https://shop.example.com/app.js",
+    sourceFunctionName: `fn${i}`,
+    forcedStyleAndLayoutDuration: 0,
+  })),
+});
+
+let events: LongAnimationFrameEvent[];
+let lastClick: ClickSummary | null;
+
+const start = (maxEvents = 10) =>
+  setupLongAnimationFrameObserver({
+    safeCapture: event => events.push(event),
+    logger: { warn: () => {} },
+    throttle: createEventThrottle(maxEvents, 60000),
+    getLastClick: () => lastClick,
+    getCurrentRoute: () => "/checkout",
+  });
+
+beforeEach(() => {
+  MockPerformanceObserver.install(["long-animation-frame"]);
+  vi.stubGlobal("PerformanceObserver", MockPerformanceObserver);
+  events = [];
+  lastClick = null;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("setupLongAnimationFrameObserver", () => {
+  it("isn't set up where long animation frames aren't supported", () => {
+    MockPerformanceObserver.install(["longtask"]);
+
+    expect(start()).toBeNull();
+  });
+
+  it("reports frame phases and the slowest scripts on the current route", () => {
+    start();
+    emitEntries("long-animation-frame", [frame(1000, 200, 7)]);
+
+    expect(events).toHaveLength(1);
+    const { payload } = events[0];
+    expect(payload).toMatchObject({
+      duration: 200,
+      blockingDuration: 150,
+      renderDuration: 20,
+      styleAndLayoutDuration: 5,
+      route: "/checkout",
+      interaction: null,
+      throttledCount: 0,
+    });
+    expect(payload.scripts.map(script => script.duration)).toEqual([
+      70, 60, 50, 40, 30,
+    ]);
+  });
+
+  it("links a frame to a click shortly before or during it", () => {
+    start();
+    lastClick = {
+      selector: "button#buy",
+      tagName: "button",
+      timeStamp: 900,
+      timestamp: "2026-01-01T00:00:00.000Z",
+    };
+    emitEntries("long-animation-frame", [frame(1000, 200)]);
+    // Too long after the click to be caused by it
+    emitEntries("long-animation-frame", [frame(2500, 200)]);
+
+    expect(events.map(event => event.payload.interaction)).toEqual([
+      { selector: "button#buy", tagName: "button", delay: 300 },
+      null,
+    ]);
+  });
+
+  it("counts throttled frames on the next event that gets through", () => {
+    vi.useFakeTimers();
+    start(2);
+    emitEntries(
+      "long-animation-frame",
+      Array.from({ length: 5 }, (_, i) => frame(i * 300, 100))
+    );
+    vi.advanceTimersByTime(60000);
+    emitEntries("long-animation-frame", [frame(70000, 100)]);
+
+    expect(events.map(event => event.payload.throttledCount)).toEqual([
+      0, 0, 3,
+    ]);
+  });
+});
@@ -0,0 +1,122 @@
+import type {
+  LongAnimationFrameEntry,
+  LongAnimationFrameEvent,
+  LongAnimationFrameScriptSummary,
+} from "../types";
+import type { ClickSummary } from "../../ClickPlugin";
+import { supportsEntryType } from "./initialization";
+import type { EventThrottle } from "./throttle";
+
+const MAX_SCRIPTS = 5;
+// A click this long before a frame started is no longer considered its cause
+const INTERACTION_WINDOW = 1000;
+
+export type LongAnimationFrameContext = {
+  safeCapture: (event: LongAnimationFrameEvent) => void;
+  logger: {
+    warn: (message: string, meta?: Record<string, unknown>) => void;
+  };
+  throttle: EventThrottle;
+  getLastClick: () => ClickSummary | null;
+  getCurrentRoute: () => string | null;
+};
+
+export const isLongAnimationFrameSupported = (): boolean =>
+  supportsEntryType("long-animation-frame");
+
+const summarizeScripts = (
+  entry: LongAnimationFrameEntry
+): LongAnimationFrameScriptSummary[] =>
+  (entry.scripts ?? [])
+    .slice()
+    .sort((a, b) => b.duration - a.duration)
+    .slice(0, MAX_SCRIPTS)
+    .map(script => ({
+      sourceURL: script.sourceURL,
+      sourceFunctionName: script.sourceFunctionName,
+      invoker: script.invoker,
+      invokerType: script.invokerType,
+      duration: script.duration,
+      forcedStyleAndLayoutDuration: script.forcedStyleAndLayoutDuration,
+    }));
+
+const getInteraction = (
+  entry: LongAnimationFrameEntry,
+  lastClick: ClickSummary | null
+): LongAnimationFrameEvent["payload"]["interaction"] => {
+  const frameEnd = entry.startTime + entry.duration;
+  if (
+    !lastClick ||
+    lastClick.timeStamp > frameEnd ||
+    lastClick.timeStamp < entry.startTime - INTERACTION_WINDOW
+  ) {
+    return null;
+  }
+  return {
+    selector: lastClick.selector,
+    tagName: lastClick.tagName,
+    delay: frameEnd - lastClick.timeStamp,
+  };
+};
+
+/**
+ * Observes long animation frames with script attribution, linked to the
+ * last click and the current route
+ */
+export const setupLongAnimationFrameObserver = (
+  context: LongAnimationFrameContext
+) => {
+  const { safeCapture, logger, throttle, getLastClick, getCurrentRoute } =
+    context;
+
+  if (!isLongAnimationFrameSupported()) {
+    return null;
+  }
+
+  try {
+    const observer = new PerformanceObserver(list => {
+      (list.getEntries() as LongAnimationFrameEntry[]).forEach(entry => {
+        try {
+          if (!throttle.tryAcquire()) {
+            return;
+          }
+
+          const evt: LongAnimationFrameEvent = {
+            eventType: "performance",
+            eventName: "long_animation_frame",
+            payload: {
+              duration: entry.duration,
+              startTime: entry.startTime,
+              blockingDuration: entry.blockingDuration,
+              renderDuration: entry.renderStart
+                ? entry.startTime + entry.duration - entry.renderStart
+                : 0,
+              styleAndLayoutDuration: entry.styleAndLayoutStart
+                ? entry.startTime + entry.duration - entry.styleAndLayoutStart
+                : 0,
+              scripts: summarizeScripts(entry),
+              route: getCurrentRoute(),
+              interaction: getInteraction(entry, getLastClick()),
+              throttledCount: throttle.takeDroppedCount(),
+            },
+            timestamp: new Date().toISOString(),
+          };
+
+          safeCapture(evt);
+        } catch (error) {
+          logger.warn("Failed to capture long animation frame", {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      });
+    });
+
+    observer.observe({ type: "long-animation-frame", buffered: true });
+    return observer;
+  } catch (error) {
+    logger.warn("Long animation frame monitoring not supported", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+};
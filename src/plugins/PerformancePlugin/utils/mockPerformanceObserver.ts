@@ -0,0 +1,90 @@
+// Test double for PerformanceObserver, Node.js only emits its own entry types
+
+type ObserverCallback = (
+  list: { getEntries: () => PerformanceEntryList },
+  observer: MockPerformanceObserver
+) => void;
+
+export class MockPerformanceObserver {
+  static supportedEntryTypes: string[] = [];
+  static instances: MockPerformanceObserver[] = [];
+
+  types: string[] = [];
+  // Entries the browser has queued but not delivered yet, see takeRecords()
+  pending: PerformanceEntry[] = [];
+  disconnected = false;
+  private callback: ObserverCallback;
+
+  constructor(callback: ObserverCallback) {
+    this.callback = callback;
+    MockPerformanceObserver.instances.push(this);
+  }
+
+  observe(options: PerformanceObserverInit): void {
+    if (options.type) {
+      this.types.push(options.type);
+    }
+    if (options.entryTypes) {
+      this.types.push(...options.entryTypes);
+    }
+  }
+
+  disconnect(): void {
+    this.disconnected = true;
+  }
+
+  takeRecords(): PerformanceEntryList {
+    return this.pending.splice(0);
+  }
+
+  deliver(entries: PerformanceEntry[]): void {
+    this.callback({ getEntries: () => entries }, this);
+  }
+
+  /**
+   * Reset the registry and make only the given entry types supported
+   */
+  static install(supportedEntryTypes: string[]): void {
+    MockPerformanceObserver.supportedEntryTypes = supportedEntryTypes;
+    MockPerformanceObserver.instances = [];
+  }
+
+  static observing(type: string): MockPerformanceObserver[] {
+    return MockPerformanceObserver.instances.filter(
+      observer => !observer.disconnected && observer.types.includes(type)
+    );
+  }
+}
+
+/**
+ * Deliver entries to every connected observer of their type
+ */
+export const emitEntries = (type: string, entries: object[]): void => {
+  MockPerformanceObserver.observing(type).forEach(observer =>
+    observer.deliver(entries as PerformanceEntry[])
+  );
+};
+
+/**
+ * Queue entries that only takeRecords() picks up, like ones the browser
+ * hasn't delivered yet when the page is hidden
+ */
+export const queueEntries = (type: string, entries: object[]): void => {
+  MockPerformanceObserver.observing(type).forEach(observer =>
+    observer.pending.push(...(entries as PerformanceEntry[]))
+  );
+};
+
+/**
+ * A document with just enough of the lifecycle API for the observers
+ */
+export const createMockDocument = () =>
+  Object.assign(new EventTarget(), {
+    visibilityState: "visible" as DocumentVisibilityState,
+    readyState: "complete" as DocumentReadyState,
+  });
+
+export const hidePage = (document: ReturnType<typeof createMockDocument>) => {
+  document.visibilityState = "hidden";
+  document.dispatchEvent(new Event("visibilitychange"));
+};
@@ -46,7 +46,6 @@ export const captureNavigationTiming = (): PerformanceMetrics => {
 
     // Resource metrics
     resourceCount: 0,
-    resourceLoadTimes: [],
   };
 
   return metrics;
@@ -1,14 +1,16 @@
 import type { LongTaskEvent, LayoutShiftEvent } from "../types";
+import type { EventThrottle } from "./throttle";
 
 export type ObserverContext = {
   safeCapture: (event: LongTaskEvent | LayoutShiftEvent) => void;
   logger: {
     warn: (message: string, meta?: Record<string, unknown>) => void;
   };
+  throttle?: EventThrottle;
 };
 
 export const setupLongTaskObserver = (context: ObserverContext) => {
-  const { safeCapture, logger } = context;
+  const { safeCapture, logger, throttle } = context;
 
   if (!("PerformanceObserver" in window)) {
     return null;
@@ -18,6 +20,10 @@ export const setupLongTaskObserver = (context: ObserverContext) => {
     const longTaskObserver = new PerformanceObserver(list => {
       list.getEntries().forEach(entry => {
         try {
+          if (throttle && !throttle.tryAcquire()) {
+            return;
+          }
+
           const evt: LongTaskEvent = {
             eventType: "performance",
             eventName: "long_task",
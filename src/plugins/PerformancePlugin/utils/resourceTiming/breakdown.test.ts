@@ -0,0 +1,71 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { isTrackedResource } from "./breakdown";
+
+const resource = (name: string) => ({ name }) as PerformanceResourceTiming;
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("isTrackedResource", () => {
+  const endpoints = [
+    "https://ingest.hyperlook.io/events/batch",
+    "https://collector.example.com:4318",
+  ];
+
+  it("drops requests to an exporter endpoint's origin", () => {
+    expect(
+      isTrackedResource(
+        resource("https://ingest.hyperlook.io/events/batch"),
+        endpoints
+      )
+    ).toBe(false);
+    expect(
+      isTrackedResource(
+        resource("https://collector.example.com:4318/v1/traces"),
+        endpoints
+      )
+    ).toBe(false);
+  });
+
+  it("keeps app resources that merely mention hyperlook", () => {
+    expect(
+      isTrackedResource(
+        resource("https://cdn.example.com/hyperlook-dashboard.js"),
+        endpoints
+      )
+    ).toBe(true);
+    expect(
+      isTrackedResource(
+        resource("https://collector.example.com/dashboard.css"),
+        endpoints
+      )
+    ).toBe(true);
+  });
+
+  it("only drops the endpoint path when it is on the page's origin", () => {
+    vi.stubGlobal("window", {
+      location: new URL("https://shop.example.com/checkout"),
+    });
+
+    expect(
+      isTrackedResource(resource("https://shop.example.com/api/telemetry"), [
+        "/api/telemetry",
+      ])
+    ).toBe(false);
+    expect(
+      isTrackedResource(resource("https://shop.example.com/app.js"), [
+        "/api/telemetry",
+      ])
+    ).toBe(true);
+  });
+
+  it("drops inline data: and blob: resources", () => {
+    expect(isTrackedResource(resource("data:image/png;base64,AAAA"))).toBe(
+      false
+    );
+    expect(isTrackedResource(resource("blob:https://shop.example.com/1"))).toBe(
+      false
+    );
+  });
+});
@@ -0,0 +1,91 @@
+import type { ResourceTiming } from "../../types";
+
+const MAX_NAME_LENGTH = 200;
+
+// Chromium only fields not yet in lib.dom
+type ResourceEntry = PerformanceResourceTiming & {
+  deliveryType?: string;
+  renderBlockingStatus?: string;
+};
+
+const phase = (start: number, end: number): number =>
+  start > 0 && end > start ? end - start : 0;
+
+/**
+ * Splits a resource entry into connection and transfer phases. Cross-origin
+ * resources without Timing-Allow-Origin report zeros for everything but duration.
+ */
+export const toResourceTiming = (
+  entry: PerformanceResourceTiming
+): ResourceTiming => {
+  const resource = entry as ResourceEntry;
+  return {
+    name:
+      resource.name.length > MAX_NAME_LENGTH
+        ? `${resource.name.slice(0, MAX_NAME_LENGTH)}...`
+        : resource.name,
+    duration: resource.duration,
+    size: resource.transferSize || 0,
+    type: resource.initiatorType,
+    dns: phase(resource.domainLookupStart, resource.domainLookupEnd),
+    tcp: phase(resource.connectStart, resource.connectEnd),
+    tls: phase(resource.secureConnectionStart, resource.connectEnd),
+    ttfb: phase(resource.requestStart, resource.responseStart),
+    download: phase(resource.responseStart, resource.responseEnd),
+    cached:
+      resource.deliveryType === "cache" ||
+      (resource.transferSize === 0 && resource.decodedBodySize > 0),
+    renderBlocking: resource.renderBlockingStatus === "blocking",
+  };
+};
+
+const parseUrl = (url: string): URL | null => {
+  try {
+    return new URL(
+      url,
+      typeof window !== "undefined" ? window.location.href : undefined
+    );
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Whether a request goes to an exporter endpoint: its origin, or only its
+ * path when the endpoint shares the page's origin so app resources are kept
+ */
+const isExporterRequest = (url: URL, endpoints: string[]): boolean =>
+  endpoints.some(endpoint => {
+    const target = parseUrl(endpoint);
+    if (!target || target.origin !== url.origin) {
+      return false;
+    }
+    const isPageOrigin =
+      typeof window !== "undefined" && target.origin === window.location.origin;
+    return !isPageOrigin || url.pathname.startsWith(target.pathname);
+  });
+
+/**
+ * Drops the SDK's own export requests and inline data:/blob: resources
+ * @param telemetryEndpoints - URLs the exporters send to
+ */
+export const isTrackedResource = (
+  entry: PerformanceResourceTiming,
+  telemetryEndpoints: string[] = []
+): boolean => {
+  const url = entry.name;
+  if (url.startsWith("data:") || url.startsWith("blob:")) return false;
+  const parsed = parseUrl(url);
+  return !parsed || !isExporterRequest(parsed, telemetryEndpoints);
+};
+
+export const getResourceDomain = (url: string): string => {
+  try {
+    const { protocol, hostname } = new URL(url);
+    return protocol === "http:" || protocol === "https:"
+      ? hostname
+      : protocol.replace(":", "");
+  } catch {
+    return "unknown";
+  }
+};
@@ -0,0 +1,3 @@
+export * from "./breakdown";
+export * from "./summarize";
+export * from "./observer";
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { setupResourceObserver } from "./observer";
+import {
+  MockPerformanceObserver,
+  createMockDocument,
+  emitEntries,
+  hidePage,
+  queueEntries,
+} from "../mockPerformanceObserver";
+import type { ResourceTimingEvent } from "../../types";
+
+const entry = (name: string) => ({
+  name,
+  initiatorType: "fetch",
+  duration: 120,
+  transferSize: 500,
+});
+
+let document: ReturnType<typeof createMockDocument>;
+let events: ResourceTimingEvent[];
+let stop: (() => void) | null;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  MockPerformanceObserver.install(["resource"]);
+  document = createMockDocument();
+  events = [];
+  vi.stubGlobal("PerformanceObserver", MockPerformanceObserver);
+  vi.stubGlobal("document", document);
+  vi.stubGlobal(
+    "window",
+    Object.assign(new EventTarget(), {
+      location: new URL("https://shop.example.com/"),
+    })
+  );
+  stop = setupResourceObserver({
+    safeCapture: event => events.push(event),
+    telemetryEndpoints: ["https://ingest.hyperlook.io/events/batch"],
+    logger: { warn: () => {} },
+  });
+});
+
+afterEach(() => {
+  stop?.();
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("setupResourceObserver", () => {
+  it("summarizes new resources every 30 seconds", () => {
+    emitEntries("resource", [
+      entry("https://api.example.com/cart"),
+      entry("https://ingest.hyperlook.io/events/batch"),
+    ]);
+    vi.advanceTimersByTime(30000);
+    // Nothing new, nothing to report
+    vi.advanceTimersByTime(30000);
+    emitEntries("resource", [entry("https://api.example.com/orders")]);
+    vi.advanceTimersByTime(30000);
+
+    expect(events.map(event => event.payload.count)).toEqual([1, 1]);
+    expect(events[1].payload.slowest[0].name).toBe(
+      "https://api.example.com/orders"
+    );
+  });
+
+  it("reports queued resources when the page is hidden", () => {
+    emitEntries("resource", [entry("https://api.example.com/cart")]);
+    queueEntries("resource", [entry("https://api.example.com/checkout")]);
+
+    hidePage(document);
+
+    expect(events).toHaveLength(1);
+    expect(events[0].payload.count).toBe(2);
+  });
+});
@@ -0,0 +1,80 @@
+import type { ResourceTimingEvent } from "../../types";
+import { supportsEntryType } from "../initialization";
+import { onHidden } from "../webVitals/lifecycle";
+import { isTrackedResource } from "./breakdown";
+import { summarizeResourceTiming } from "./summarize";
+
+// Resources loaded after page_load are summarized at most this often
+const REPORT_INTERVAL = 30000;
+
+export type ResourceObserverContext = {
+  safeCapture: (event: ResourceTimingEvent) => void;
+  telemetryEndpoints?: string[];
+  logger: {
+    warn: (message: string, meta?: Record<string, unknown>) => void;
+  };
+};
+
+/**
+ * Observes resources loaded after the page_load event and reports them in
+ * periodic resource_timing summaries, plus a final one when the page is hidden
+ * @returns A function that stops observing
+ */
+export const setupResourceObserver = (
+  context: ResourceObserverContext
+): (() => void) | null => {
+  const { safeCapture, telemetryEndpoints, logger } = context;
+
+  if (!supportsEntryType("resource")) {
+    return null;
+  }
+
+  let pending: PerformanceResourceTiming[] = [];
+
+  const collect = (entries: PerformanceEntryList) => {
+    for (const entry of entries as PerformanceResourceTiming[]) {
+      if (isTrackedResource(entry, telemetryEndpoints)) {
+        pending.push(entry);
+      }
+    }
+  };
+
+  const report = () => {
+    if (pending.length === 0) {
+      return;
+    }
+    try {
+      const evt: ResourceTimingEvent = {
+        eventType: "performance",
+        eventName: "resource_timing",
+        payload: summarizeResourceTiming(pending),
+        timestamp: new Date().toISOString(),
+      };
+      pending = [];
+      safeCapture(evt);
+    } catch (error) {
+      pending = [];
+      logger.warn("Failed to capture resource timing", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  // Not buffered: everything up to now is already in page_load
+  const observer = new PerformanceObserver(list => {
+    collect(list.getEntries());
+  });
+  observer.observe({ type: "resource" });
+
+  const interval = setInterval(report, REPORT_INTERVAL);
+  const removeHiddenListener = onHidden(() => {
+    collect(observer.takeRecords());
+    report();
+  });
+
+  return () => {
+    observer.disconnect();
+    clearInterval(interval);
+    removeHiddenListener();
+  };
+};
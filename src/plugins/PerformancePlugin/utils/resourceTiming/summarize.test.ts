@@ -0,0 +1,143 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { captureResourceTiming, summarizeResourceTiming } from "./summarize";
+
+const entry = (
+  name: string,
+  overrides: Partial<Record<string, number | string>> = {}
+) =>
+  ({
+    name,
+    initiatorType: "script",
+    startTime: 100,
+    duration: 100,
+    transferSize: 1000,
+    decodedBodySize: 3000,
+    domainLookupStart: 0,
+    domainLookupEnd: 0,
+    connectStart: 0,
+    connectEnd: 0,
+    secureConnectionStart: 0,
+    requestStart: 0,
+    responseStart: 0,
+    responseEnd: 0,
+    ...overrides,
+  }) as unknown as PerformanceResourceTiming;
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("summarizeResourceTiming", () => {
+  it("breaks the slowest resources down into phases", () => {
+    const summary = summarizeResourceTiming([
+      entry("https://cdn.example.com/app.js", {
+        duration: 400,
+        domainLookupStart: 110,
+        domainLookupEnd: 130,
+        connectStart: 130,
+        secureConnectionStart: 150,
+        connectEnd: 190,
+        requestStart: 190,
+        responseStart: 350,
+        responseEnd: 500,
+        renderBlockingStatus: "blocking",
+      }),
+      entry("https://cdn.example.com/app.css", {
+        duration: 20,
+        transferSize: 0,
+        initiatorType: "link",
+      }),
+      entry("https://api.example.com/cart", {
+        duration: 250,
+        initiatorType: "fetch",
+        // Cross-origin without Timing-Allow-Origin
+        decodedBodySize: 0,
+      }),
+    ]);
+
+    expect(summary).toMatchObject({
+      count: 3,
+      transferSize: 2000,
+      cachedCount: 1,
+      renderBlockingCount: 1,
+      byType: {
+        script: { count: 1, totalDuration: 400, cachedCount: 0 },
+        link: { count: 1, transferSize: 0, cachedCount: 1 },
+        fetch: { count: 1, totalDuration: 250 },
+      },
+      byDomain: {
+        "cdn.example.com": { count: 2, totalDuration: 420 },
+        "api.example.com": { count: 1 },
+      },
+    });
+    expect(summary.slowest.map(resource => resource.name)).toEqual([
+      "https://cdn.example.com/app.js",
+      "https://api.example.com/cart",
+      "https://cdn.example.com/app.css",
+    ]);
+    expect(summary.slowest[0]).toMatchObject({
+      dns: 20,
+      tcp: 60,
+      tls: 40,
+      ttfb: 160,
+      download: 150,
+      cached: false,
+      renderBlocking: true,
+    });
+    expect(summary.slowest[1]).toMatchObject({
+      dns: 0,
+      tcp: 0,
+      tls: 0,
+      ttfb: 0,
+      download: 0,
+    });
+  });
+
+  it("keeps only the ten busiest domains", () => {
+    // domain-0 has one resource, domain-11 has twelve
+    const entries = Array.from({ length: 12 }, (_, domain) =>
+      Array.from({ length: domain + 1 }, (_, i) =>
+        entry(`https://domain-${domain}.example.com/${i}.js`)
+      )
+    ).flat();
+
+    const summary = summarizeResourceTiming(entries, 3);
+
+    expect(summary.count).toBe(78);
+    expect(Object.keys(summary.byDomain)).toEqual(
+      Array.from({ length: 10 }, (_, i) => `domain-${11 - i}.example.com`)
+    );
+    expect(summary.byDomain["domain-11.example.com"].count).toBe(12);
+    expect(summary.slowest).toHaveLength(3);
+  });
+
+  it("truncates long resource names", () => {
+    const summary = summarizeResourceTiming([
+      entry(`https://cdn.example.com/${"a".repeat(300)}.js`),
+    ]);
+
+    expect(summary.slowest[0].name).toHaveLength(203);
+    expect(summary.slowest[0].name.endsWith("...")).toBe(true);
+  });
+});
+
+describe("captureResourceTiming", () => {
+  it("leaves out export requests and inline resources", () => {
+    vi.stubGlobal("performance", {
+      getEntriesByType: () => [
+        entry("https://shop.example.com/app.js"),
+        entry("https://ingest.hyperlook.io/events/batch", {
+          initiatorType: "fetch",
+        }),
+        entry("data:image/png;base64,AAAA", { initiatorType: "img" }),
+      ],
+    });
+
+    const summary = captureResourceTiming([
+      "https://ingest.hyperlook.io/events/batch",
+    ]);
+
+    expect(summary.count).toBe(1);
+    expect(Object.keys(summary.byDomain)).toEqual(["shop.example.com"]);
+  });
+});
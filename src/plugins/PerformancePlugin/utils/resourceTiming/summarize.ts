@@ -0,0 +1,90 @@
+import type {
+  ResourceGroupStats,
+  ResourceTiming,
+  ResourceTimingSummary,
+} from "../../types";
+import {
+  getResourceDomain,
+  isTrackedResource,
+  toResourceTiming,
+} from "./breakdown";
+
+const DEFAULT_SLOWEST_COUNT = 5;
+// Keeps the summary well inside the 8KB properties limit on busy pages
+const MAX_DOMAINS = 10;
+
+const addToGroup = (
+  groups: Record<string, ResourceGroupStats>,
+  key: string,
+  resource: ResourceTiming
+): void => {
+  const group = (groups[key] ??= {
+    count: 0,
+    totalDuration: 0,
+    transferSize: 0,
+    cachedCount: 0,
+  });
+  group.count++;
+  group.totalDuration += resource.duration;
+  group.transferSize += resource.size;
+  if (resource.cached) {
+    group.cachedCount++;
+  }
+};
+
+/**
+ * Aggregates resource entries by initiator type and domain and keeps the slowest
+ */
+export const summarizeResourceTiming = (
+  entries: PerformanceResourceTiming[],
+  slowestCount: number = DEFAULT_SLOWEST_COUNT
+): ResourceTimingSummary => {
+  const resources = entries.map(toResourceTiming);
+  const byType: Record<string, ResourceGroupStats> = {};
+  const allDomains: Record<string, ResourceGroupStats> = {};
+  let transferSize = 0;
+  let cachedCount = 0;
+  let renderBlockingCount = 0;
+
+  resources.forEach((resource, index) => {
+    addToGroup(byType, resource.type, resource);
+    addToGroup(allDomains, getResourceDomain(entries[index].name), resource);
+    transferSize += resource.size;
+    if (resource.cached) {
+      cachedCount++;
+    }
+    if (resource.renderBlocking) {
+      renderBlockingCount++;
+    }
+  });
+
+  const byDomain = Object.fromEntries(
+    Object.entries(allDomains)
+      .sort(([, a], [, b]) => b.count - a.count)
+      .slice(0, MAX_DOMAINS)
+  );
+
+  return {
+    count: resources.length,
+    transferSize,
+    cachedCount,
+    renderBlockingCount,
+    byType,
+    byDomain,
+    slowest: resources
+      .slice()
+      .sort((a, b) => b.duration - a.duration)
+      .slice(0, slowestCount),
+  };
+};
+
+export const captureResourceTiming = (
+  telemetryEndpoints: string[] = []
+): ResourceTimingSummary => {
+  const entries = performance.getEntriesByType(
+    "resource"
+  ) as PerformanceResourceTiming[];
+  return summarizeResourceTiming(
+    entries.filter(entry => isTrackedResource(entry, telemetryEndpoints))
+  );
+};
@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { setupRouteChangeTracking } from "./routeChangePerformance";
+import {
+  MockPerformanceObserver,
+  emitEntries,
+} from "./mockPerformanceObserver";
+import type { RouteChangePerformanceEvent } from "../types";
+
+class MockMutationObserver {
+  static instances: MockMutationObserver[] = [];
+  observing = false;
+  private callback: () => void;
+
+  constructor(callback: () => void) {
+    this.callback = callback;
+    MockMutationObserver.instances.push(this);
+  }
+
+  observe(): void {
+    this.observing = true;
+  }
+
+  disconnect(): void {
+    this.observing = false;
+  }
+
+  static mutate(): void {
+    MockMutationObserver.instances
+      .filter(observer => observer.observing)
+      .forEach(observer => observer.callback());
+  }
+}
+
+let window: EventTarget & { location: { href: string } };
+let resources: object[];
+let events: RouteChangePerformanceEvent[];
+let stop: (() => void) | null;
+
+const navigate = (path: string, type = "pushstate") => {
+  window.location.href = `https://shop.example.com${path}`;
+  window.dispatchEvent(
+    type === "popstate"
+      ? new Event("popstate")
+      : new CustomEvent("telemetry-navigation", { detail: { type } })
+  );
+};
+
+const resource = (
+  name: string,
+  initiatorType: string,
+  startTime: number,
+  duration: number
+) => ({ name, initiatorType, startTime, duration, transferSize: 1000 });
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(0);
+  MockPerformanceObserver.install(["longtask"]);
+  MockMutationObserver.instances = [];
+  window = Object.assign(new EventTarget(), {
+    location: { href: "https://shop.example.com/" },
+  });
+  resources = [];
+  events = [];
+  vi.stubGlobal("PerformanceObserver", MockPerformanceObserver);
+  vi.stubGlobal("MutationObserver", MockMutationObserver);
+  vi.stubGlobal("window", window);
+  vi.stubGlobal("document", { documentElement: {} });
+  vi.stubGlobal("performance", {
+    now: () => Date.now(),
+    getEntriesByType: () => resources,
+  });
+  stop = setupRouteChangeTracking({
+    safeCapture: event => events.push(event),
+    logger: { warn: () => {} },
+  });
+});
+
+afterEach(() => {
+  stop?.();
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("setupRouteChangeTracking", () => {
+  it("measures a route change until the DOM settles", () => {
+    vi.advanceTimersByTime(1000);
+    navigate("/products");
+    vi.advanceTimersByTime(100);
+    MockMutationObserver.mutate();
+    emitEntries("longtask", [
+      { startTime: 900, duration: 200 },
+      { startTime: 1050, duration: 120 },
+    ]);
+    vi.advanceTimersByTime(200);
+    MockMutationObserver.mutate();
+    resources = [
+      resource("https://shop.example.com/app.js", "script", 500, 300),
+      resource("https://api.example.com/products", "fetch", 1020, 250),
+      resource("https://cdn.example.com/p1.jpg", "img", 1200, 80),
+    ];
+
+    vi.advanceTimersByTime(499);
+    expect(events).toEqual([]);
+    vi.advanceTimersByTime(1);
+
+    expect(events).toHaveLength(1);
+    const { payload } = events[0];
+    expect(payload).toMatchObject({
+      from: "https://shop.example.com/",
+      to: "https://shop.example.com/products",
+      trigger: "pushstate",
+      startTime: 1000,
+      domSettleTime: 300,
+      timedOut: false,
+      interrupted: false,
+      network: { count: 1, totalDuration: 250 },
+      longTasks: { count: 1, totalDuration: 120, totalBlockingTime: 70 },
+    });
+    expect(payload.resources).toMatchObject({
+      count: 2,
+      transferSize: 2000,
+      byType: { fetch: 1, img: 1 },
+    });
+    expect(payload.resources.slowest.map(slow => slow.name)).toEqual([
+      "https://api.example.com/products",
+      "https://cdn.example.com/p1.jpg",
+    ]);
+  });
+
+  it("gives up on a DOM that never settles", () => {
+    navigate("/feed");
+    for (let i = 0; i < 30; i++) {
+      vi.advanceTimersByTime(400);
+      MockMutationObserver.mutate();
+    }
+
+    expect(events).toHaveLength(1);
+    expect(events[0].payload).toMatchObject({
+      to: "https://shop.example.com/feed",
+      timedOut: true,
+      domSettleTime: 9600,
+    });
+  });
+
+  it("reports a change cut short by the next one as interrupted", () => {
+    navigate("/products");
+    vi.advanceTimersByTime(200);
+    // Back button
+    navigate("/", "popstate");
+    vi.advanceTimersByTime(500);
+
+    expect(events.map(({ payload }) => payload)).toMatchObject([
+      {
+        from: "https://shop.example.com/",
+        to: "https://shop.example.com/products",
+        trigger: "pushstate",
+        interrupted: true,
+      },
+      {
+        from: "https://shop.example.com/products",
+        to: "https://shop.example.com/",
+        trigger: "popstate",
+        interrupted: false,
+      },
+    ]);
+  });
+
+  it("ignores history updates that keep the URL", () => {
+    navigate("/", "replacestate");
+    vi.advanceTimersByTime(10000);
+
+    expect(events).toEqual([]);
+  });
+});
@@ -0,0 +1,245 @@
+import type { RouteChangePerformanceEvent, RouteChangeTrigger } from "../types";
+import { supportsEntryType } from "./initialization";
+
+// The DOM counts as settled after this long without mutations
+const QUIET_PERIOD = 500;
+// Give up waiting for the DOM to settle after this long
+const MAX_MEASUREMENT_TIME = 10000;
+const MAX_SLOWEST_RESOURCES = 5;
+const LONG_TASK_THRESHOLD = 50;
+
+export type RouteChangeContext = {
+  safeCapture: (event: RouteChangePerformanceEvent) => void;
+  logger: {
+    warn: (message: string, meta?: Record<string, unknown>) => void;
+  };
+};
+
+type Measurement = {
+  from: string;
+  to: string;
+  trigger: RouteChangeTrigger;
+  startTime: number;
+  lastMutationTime: number | null;
+  longTasks: PerformanceEntry[];
+  quietTimer: ReturnType<typeof setTimeout> | null;
+  maxTimer: ReturnType<typeof setTimeout>;
+};
+
+const summarizeResources = (
+  startTime: number,
+  endTime: number
+): Pick<RouteChangePerformanceEvent["payload"], "resources" | "network"> => {
+  const resources = (
+    performance.getEntriesByType("resource") as PerformanceResourceTiming[]
+  ).filter(
+    resource => resource.startTime >= startTime && resource.startTime <= endTime
+  );
+
+  const byType: Record<string, number> = {};
+  let transferSize = 0;
+  let networkCount = 0;
+  let networkDuration = 0;
+  for (const resource of resources) {
+    byType[resource.initiatorType] = (byType[resource.initiatorType] ?? 0) + 1;
+    transferSize += resource.transferSize || 0;
+    if (
+      resource.initiatorType === "fetch" ||
+      resource.initiatorType === "xmlhttprequest"
+    ) {
+      networkCount++;
+      networkDuration += resource.duration;
+    }
+  }
+
+  return {
+    resources: {
+      count: resources.length,
+      transferSize,
+      byType,
+      slowest: resources
+        .slice()
+        .sort((a, b) => b.duration - a.duration)
+        .slice(0, MAX_SLOWEST_RESOURCES)
+        .map(resource => ({
+          name: resource.name,
+          initiatorType: resource.initiatorType,
+          duration: resource.duration,
+        })),
+    },
+    network: { count: networkCount, totalDuration: networkDuration },
+  };
+};
+
+/**
+ * Measures client-side route changes from the history update until the DOM
+ * stops changing, and reports them as route_change_performance events.
+ * pushState/replaceState are seen through PageViewPlugin's telemetry-navigation event.
+ * @returns A function that stops tracking
+ */
+export const setupRouteChangeTracking = (
+  context: RouteChangeContext
+): (() => void) | null => {
+  const { safeCapture, logger } = context;
+
+  if (typeof MutationObserver === "undefined") {
+    return null;
+  }
+
+  let currentUrl = window.location.href;
+  let measurement: Measurement | null = null;
+
+  const finish = (reason: "settled" | "timeout" | "interrupted") => {
+    const active = measurement;
+    if (!active) {
+      return;
+    }
+    measurement = null;
+    mutationObserver.disconnect();
+    if (active.quietTimer) {
+      clearTimeout(active.quietTimer);
+    }
+    clearTimeout(active.maxTimer);
+
+    try {
+      const endTime = performance.now();
+      const longTaskDuration = active.longTasks.reduce(
+        (total, task) => total + task.duration,
+        0
+      );
+      const totalBlockingTime = active.longTasks.reduce(
+        (total, task) =>
+          total + Math.max(task.duration - LONG_TASK_THRESHOLD, 0),
+        0
+      );
+
+      const evt: RouteChangePerformanceEvent = {
+        eventType: "performance",
+        eventName: "route_change_performance",
+        payload: {
+          from: active.from,
+          to: active.to,
+          trigger: active.trigger,
+          startTime: active.startTime,
+          domSettleTime:
+            active.lastMutationTime !== null
+              ? active.lastMutationTime - active.startTime
+              : 0,
+          timedOut: reason === "timeout",
+          interrupted: reason === "interrupted",
+          ...summarizeResources(active.startTime, endTime),
+          longTasks: {
+            count: active.longTasks.length,
+            totalDuration: longTaskDuration,
+            totalBlockingTime,
+          },
+        },
+        timestamp: new Date().toISOString(),
+      };
+
+      safeCapture(evt);
+    } catch (error) {
+      logger.warn("Failed to capture route change performance", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  const scheduleQuietCheck = () => {
+    if (!measurement) {
+      return;
+    }
+    if (measurement.quietTimer) {
+      clearTimeout(measurement.quietTimer);
+    }
+    measurement.quietTimer = setTimeout(() => finish("settled"), QUIET_PERIOD);
+  };
+
+  const mutationObserver = new MutationObserver(() => {
+    if (measurement) {
+      measurement.lastMutationTime = performance.now();
+      scheduleQuietCheck();
+    }
+  });
+
+  // Long tasks are only delivered to observers, not kept in the performance timeline
+  let longTaskObserver: PerformanceObserver | null = null;
+  const longTaskType = supportsEntryType("long-animation-frame")
+    ? "long-animation-frame"
+    : supportsEntryType("longtask")
+      ? "longtask"
+      : null;
+  if (longTaskType) {
+    try {
+      longTaskObserver = new PerformanceObserver(list => {
+        if (!measurement) {
+          return;
+        }
+        const startTime = measurement.startTime;
+        measurement.longTasks.push(
+          ...list.getEntries().filter(entry => entry.startTime >= startTime)
+        );
+      });
+      longTaskObserver.observe({ type: longTaskType });
+    } catch (error) {
+      logger.warn("Route change long task monitoring not supported", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      longTaskObserver = null;
+    }
+  }
+
+  const start = (trigger: RouteChangeTrigger) => {
+    const nextUrl = window.location.href;
+    // replaceState is often used for scroll or query state, not navigation
+    if (nextUrl === currentUrl) {
+      return;
+    }
+    if (measurement) {
+      finish("interrupted");
+    }
+
+    measurement = {
+      from: currentUrl,
+      to: nextUrl,
+      trigger,
+      startTime: performance.now(),
+      lastMutationTime: null,
+      longTasks: [],
+      quietTimer: null,
+      maxTimer: setTimeout(() => finish("timeout"), MAX_MEASUREMENT_TIME),
+    };
+    currentUrl = nextUrl;
+
+    mutationObserver.observe(document.documentElement, {
+      childList: true,
+      subtree: true,
+      characterData: true,
+    });
+    scheduleQuietCheck();
+  };
+
+  const handleHistoryNavigation = (event: Event) => {
+    const { type } = (event as CustomEvent<{ type?: RouteChangeTrigger }>)
+      .detail ?? { type: undefined };
+    start(type ?? "pushstate");
+  };
+  const handlePopState = () => start("popstate");
+
+  window.addEventListener("telemetry-navigation", handleHistoryNavigation);
+  window.addEventListener("popstate", handlePopState);
+
+  return () => {
+    window.removeEventListener("telemetry-navigation", handleHistoryNavigation);
+    window.removeEventListener("popstate", handlePopState);
+    if (measurement) {
+      if (measurement.quietTimer) {
+        clearTimeout(measurement.quietTimer);
+      }
+      clearTimeout(measurement.maxTimer);
+      measurement = null;
+    }
+    mutationObserver.disconnect();
+    longTaskObserver?.disconnect();
+  };
+};
@@ -0,0 +1,33 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { createEventThrottle } from "./throttle";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("createEventThrottle", () => {
+  it("refuses events over the budget until the window ends", () => {
+    vi.useFakeTimers();
+    const throttle = createEventThrottle(2, 1000);
+
+    expect([1, 2, 3].map(() => throttle.tryAcquire())).toEqual([
+      true,
+      true,
+      false,
+    ]);
+    vi.advanceTimersByTime(999);
+    expect(throttle.tryAcquire()).toBe(false);
+    vi.advanceTimersByTime(1);
+    expect(throttle.tryAcquire()).toBe(true);
+  });
+
+  it("resets the dropped count once taken", () => {
+    const throttle = createEventThrottle(1, 1000);
+    throttle.tryAcquire();
+    throttle.tryAcquire();
+    throttle.tryAcquire();
+
+    expect(throttle.takeDroppedCount()).toBe(2);
+    expect(throttle.takeDroppedCount()).toBe(0);
+  });
+});
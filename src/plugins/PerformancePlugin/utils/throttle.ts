@@ -0,0 +1,39 @@
+export type EventThrottle = {
+  /** Returns false once the window's budget is used up */
+  tryAcquire: () => boolean;
+  /** Number of events refused since the last call, resetting the count */
+  takeDroppedCount: () => number;
+};
+
+/**
+ * Fixed window rate limit so janky pages can't flood the event buffer
+ */
+export const createEventThrottle = (
+  maxEvents: number,
+  windowMs: number
+): EventThrottle => {
+  let windowStart = 0;
+  let count = 0;
+  let dropped = 0;
+
+  return {
+    tryAcquire: () => {
+      const now = Date.now();
+      if (now - windowStart >= windowMs) {
+        windowStart = now;
+        count = 0;
+      }
+      if (count >= maxEvents) {
+        dropped++;
+        return false;
+      }
+      count++;
+      return true;
+    },
+    takeDroppedCount: () => {
+      const result = dropped;
+      dropped = 0;
+      return result;
+    },
+  };
+};
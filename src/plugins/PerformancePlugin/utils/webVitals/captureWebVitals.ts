@@ -1,4 +1,4 @@
-import type { PerformanceMetrics } from "../types";
+import type { PerformanceMetrics } from "../../types";
 
 export const captureWebVitals = (): Partial<PerformanceMetrics> => {
   const vitals: Partial<PerformanceMetrics> = {};
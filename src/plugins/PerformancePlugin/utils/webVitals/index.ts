@@ -0,0 +1,3 @@
+export * from "./captureWebVitals";
+export * from "./setupWebVitals";
+export { getRating, WEB_VITAL_THRESHOLDS } from "./thresholds";
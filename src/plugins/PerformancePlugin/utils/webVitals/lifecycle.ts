@@ -0,0 +1,60 @@
+import type { LoadState } from "../../types";
+
+const getNavigationEntry = (): PerformanceNavigationTiming | undefined =>
+  performance.getEntriesByType("navigation")[0] as
+    | PerformanceNavigationTiming
+    | undefined;
+
+export const getNavigationType = (): string | null =>
+  getNavigationEntry()?.type ?? null;
+
+/**
+ * Works out which loading phase a performance timestamp fell into
+ */
+export const getLoadState = (timestamp: number): LoadState => {
+  const navigation = getNavigationEntry();
+  if (!navigation) {
+    // Without navigation timing, the current readyState is the best guess
+    if (document.readyState === "loading") {
+      return "loading";
+    }
+    return document.readyState === "interactive"
+      ? "dom-interactive"
+      : "complete";
+  }
+  if (timestamp < navigation.domInteractive) {
+    return "loading";
+  }
+  if (
+    navigation.domContentLoadedEventStart === 0 ||
+    timestamp < navigation.domContentLoadedEventStart
+  ) {
+    return "dom-interactive";
+  }
+  if (navigation.domComplete === 0 || timestamp < navigation.domComplete) {
+    return "dom-content-loaded";
+  }
+  return "complete";
+};
+
+/**
+ * Calls back when the page is hidden or unloaded, the last reliable moment to report
+ * @returns A function that removes the listeners
+ */
+export const onHidden = (callback: () => void): (() => void) => {
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === "hidden") {
+      callback();
+    }
+  };
+  document.addEventListener("visibilitychange", handleVisibilityChange, true);
+  window.addEventListener("pagehide", callback, true);
+  return () => {
+    document.removeEventListener(
+      "visibilitychange",
+      handleVisibilityChange,
+      true
+    );
+    window.removeEventListener("pagehide", callback, true);
+  };
+};
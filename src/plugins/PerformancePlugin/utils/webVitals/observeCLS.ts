@@ -0,0 +1,90 @@
+import { getElementSelector } from "../../../../utils/getElementSelector";
+import type { LayoutShiftEntry } from "../../types";
+import { getLoadState, onHidden } from "./lifecycle";
+import { supportsEntryType } from "../initialization";
+import type { WebVitalObserver } from "./types";
+
+// Session window limits from the CLS definition
+const MAX_SHIFT_GAP = 1000;
+const MAX_WINDOW_DURATION = 5000;
+
+/**
+ * Cumulative Layout Shift, the largest burst of unexpected shifts in a session window.
+ * Reported each time the page is hidden if the score has grown since the last report.
+ */
+export const observeCLS: WebVitalObserver = ({ report }) => {
+  if (!supportsEntryType("layout-shift")) {
+    return null;
+  }
+
+  let windowValue = 0;
+  let windowEntries: LayoutShiftEntry[] = [];
+  let clsValue = 0;
+  let clsEntries: LayoutShiftEntry[] = [];
+  let reportedValue: number | null = null;
+
+  const handleEntries = (entries: PerformanceEntryList) => {
+    for (const entry of entries as LayoutShiftEntry[]) {
+      // Shifts right after user input are expected
+      if (entry.hadRecentInput) {
+        continue;
+      }
+      const firstEntry = windowEntries[0];
+      const lastEntry = windowEntries[windowEntries.length - 1];
+      if (
+        firstEntry &&
+        lastEntry &&
+        entry.startTime - lastEntry.startTime < MAX_SHIFT_GAP &&
+        entry.startTime - firstEntry.startTime < MAX_WINDOW_DURATION
+      ) {
+        windowValue += entry.value;
+        windowEntries.push(entry);
+      } else {
+        windowValue = entry.value;
+        windowEntries = [entry];
+      }
+      if (windowValue > clsValue) {
+        clsValue = windowValue;
+        clsEntries = windowEntries.slice();
+      }
+    }
+  };
+
+  const observer = new PerformanceObserver(list => {
+    handleEntries(list.getEntries());
+  });
+  observer.observe({ type: "layout-shift", buffered: true });
+
+  const removeHiddenListener = onHidden(() => {
+    handleEntries(observer.takeRecords());
+    if (reportedValue !== null && clsValue <= reportedValue) {
+      return;
+    }
+
+    const largestShift = clsEntries.reduce<LayoutShiftEntry | null>(
+      (largest, entry) =>
+        !largest || entry.value > largest.value ? entry : largest,
+      null
+    );
+    const largestSource = largestShift?.sources?.find(source => source.node);
+
+    report({
+      name: "CLS",
+      value: clsValue,
+      delta: clsValue - (reportedValue ?? 0),
+      attribution: {
+        target: getElementSelector(largestSource?.node) || null,
+        loadState: getLoadState(largestShift?.startTime ?? 0),
+        largestShiftValue: largestShift?.value ?? 0,
+        largestShiftTime: largestShift?.startTime ?? null,
+        shiftCount: clsEntries.length,
+      },
+    });
+    reportedValue = clsValue;
+  });
+
+  return () => {
+    observer.disconnect();
+    removeHiddenListener();
+  };
+};
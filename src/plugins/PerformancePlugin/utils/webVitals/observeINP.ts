@@ -0,0 +1,120 @@
+import { getElementSelector } from "../../../../utils/getElementSelector";
+import type { EventTimingEntry } from "../../types";
+import { getLoadState, onHidden } from "./lifecycle";
+import { supportsEntryType } from "../initialization";
+import type { WebVitalObserver } from "./types";
+
+// Only the slowest interactions can ever be the INP, so the rest are not kept
+const MAX_TRACKED_INTERACTIONS = 10;
+// Lowest duration Event Timing reports, shorter interactions are always "good"
+const DURATION_THRESHOLD = 40;
+
+type Interaction = {
+  id: number;
+  duration: number;
+  entry: EventTimingEntry;
+};
+
+/**
+ * Interaction to Next Paint, roughly the 98th percentile interaction latency:
+ * one slow interaction is ignored for every 50 on the page.
+ */
+export const observeINP: WebVitalObserver = ({ report }) => {
+  if (
+    !supportsEntryType("event") ||
+    typeof PerformanceEventTiming === "undefined" ||
+    !("interactionId" in PerformanceEventTiming.prototype)
+  ) {
+    return null;
+  }
+
+  let longestInteractions: Interaction[] = [];
+  let minInteractionId = Infinity;
+  let maxInteractionId = 0;
+  let reportedValue: number | null = null;
+
+  // Browsers without performance.interactionCount assign IDs in steps of 7
+  const getInteractionCount = (): number => {
+    const { interactionCount } = performance as { interactionCount?: number };
+    if (typeof interactionCount === "number") {
+      return interactionCount;
+    }
+    return maxInteractionId > 0
+      ? (maxInteractionId - minInteractionId) / 7 + 1
+      : 0;
+  };
+
+  const handleEntries = (entries: PerformanceEntryList) => {
+    for (const entry of entries as EventTimingEntry[]) {
+      const id = entry.interactionId;
+      if (!id) {
+        continue;
+      }
+      minInteractionId = Math.min(minInteractionId, id);
+      maxInteractionId = Math.max(maxInteractionId, id);
+
+      // Several events (pointerdown, pointerup, click) share one interaction
+      const existing = longestInteractions.find(item => item.id === id);
+      if (existing) {
+        if (entry.duration > existing.duration) {
+          existing.duration = entry.duration;
+          existing.entry = entry;
+        }
+        continue;
+      }
+      longestInteractions.push({ id, duration: entry.duration, entry });
+    }
+    longestInteractions = longestInteractions
+      .sort((a, b) => b.duration - a.duration)
+      .slice(0, MAX_TRACKED_INTERACTIONS);
+  };
+
+  const observer = new PerformanceObserver(list => {
+    handleEntries(list.getEntries());
+  });
+  observer.observe({
+    type: "event",
+    buffered: true,
+    durationThreshold: DURATION_THRESHOLD,
+  } as PerformanceObserverInit);
+  // first-input covers a first interaction shorter than the threshold
+  if (supportsEntryType("first-input")) {
+    observer.observe({ type: "first-input", buffered: true });
+  }
+
+  const removeHiddenListener = onHidden(() => {
+    handleEntries(observer.takeRecords());
+    const index = Math.min(
+      longestInteractions.length - 1,
+      Math.floor(getInteractionCount() / 50)
+    );
+    const interaction = longestInteractions[index];
+    if (!interaction || interaction.duration === reportedValue) {
+      return;
+    }
+
+    const { entry } = interaction;
+    report({
+      name: "INP",
+      value: interaction.duration,
+      delta: interaction.duration - (reportedValue ?? 0),
+      attribution: {
+        target: getElementSelector(entry.target) || null,
+        loadState: getLoadState(entry.startTime),
+        eventType: entry.name,
+        inputDelay: entry.processingStart - entry.startTime,
+        processingDuration: entry.processingEnd - entry.processingStart,
+        presentationDelay: Math.max(
+          entry.startTime + entry.duration - entry.processingEnd,
+          0
+        ),
+      },
+    });
+    reportedValue = interaction.duration;
+  });
+
+  return () => {
+    observer.disconnect();
+    removeHiddenListener();
+  };
+};
@@ -0,0 +1,77 @@
+import { getElementSelector } from "../../../../utils/getElementSelector";
+import { getLoadState, onHidden } from "./lifecycle";
+import { supportsEntryType } from "../initialization";
+import type { WebVitalObserver } from "./types";
+
+const INPUT_EVENTS = ["keydown", "click"];
+
+/**
+ * Largest Contentful Paint. The browser stops emitting candidates once the user
+ * interacts, so the latest candidate is reported on first input or when the page is hidden.
+ */
+export const observeLCP: WebVitalObserver = ({ report }) => {
+  if (!supportsEntryType("largest-contentful-paint")) {
+    return null;
+  }
+  // A page loaded in a background tab has no meaningful LCP
+  if (document.visibilityState === "hidden") {
+    return null;
+  }
+
+  let candidate: LargestContentfulPaint | null = null;
+  let isFinal = false;
+
+  const handleEntries = (entries: PerformanceEntryList) => {
+    const lastEntry = entries[entries.length - 1] as
+      | LargestContentfulPaint
+      | undefined;
+    if (lastEntry) {
+      candidate = lastEntry;
+    }
+  };
+
+  const observer = new PerformanceObserver(list => {
+    handleEntries(list.getEntries());
+  });
+  observer.observe({ type: "largest-contentful-paint", buffered: true });
+
+  const cleanup = () => {
+    observer.disconnect();
+    INPUT_EVENTS.forEach(type =>
+      document.removeEventListener(type, finalize, true)
+    );
+    removeHiddenListener();
+  };
+
+  const finalize = () => {
+    if (isFinal) {
+      return;
+    }
+    isFinal = true;
+    handleEntries(observer.takeRecords());
+    cleanup();
+
+    if (!candidate) {
+      return;
+    }
+    const value = candidate.startTime;
+    report({
+      name: "LCP",
+      value,
+      delta: value,
+      attribution: {
+        target: getElementSelector(candidate.element) || null,
+        loadState: getLoadState(value),
+        url: candidate.url || null,
+        size: candidate.size,
+        renderTime: candidate.renderTime,
+        loadTime: candidate.loadTime,
+      },
+    });
+  };
+
+  INPUT_EVENTS.forEach(type => document.addEventListener(type, finalize, true));
+  const removeHiddenListener = onHidden(finalize);
+
+  return cleanup;
+};
@@ -0,0 +1,247 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { setupWebVitals } from "./setupWebVitals";
+import {
+  MockPerformanceObserver,
+  createMockDocument,
+  emitEntries,
+  hidePage,
+  queueEntries,
+} from "../mockPerformanceObserver";
+import type { WebVitalEvent } from "../../types";
+
+let document: ReturnType<typeof createMockDocument>;
+let performance: { getEntriesByType: () => []; interactionCount?: number };
+let events: WebVitalEvent[];
+let cleanup: () => void;
+
+const start = () => {
+  cleanup = setupWebVitals({
+    safeCapture: event => events.push(event),
+    logger: { warn: () => {} },
+  });
+};
+
+const metrics = (name: string) =>
+  events.map(event => event.payload).filter(payload => payload.name === name);
+
+beforeEach(() => {
+  MockPerformanceObserver.install([
+    "largest-contentful-paint",
+    "layout-shift",
+    "event",
+    "first-input",
+  ]);
+  document = createMockDocument();
+  performance = { getEntriesByType: () => [] };
+  events = [];
+  vi.stubGlobal("PerformanceObserver", MockPerformanceObserver);
+  vi.stubGlobal("PerformanceEventTiming", {
+    prototype: { interactionId: 0 },
+  });
+  vi.stubGlobal("document", document);
+  vi.stubGlobal("window", new EventTarget());
+  vi.stubGlobal("performance", performance);
+});
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+});
+
+describe("LCP", () => {
+  const candidate = (startTime: number, url: string) => ({
+    startTime,
+    url,
+    size: 1000,
+    renderTime: startTime,
+    loadTime: startTime - 50,
+    element: null,
+  });
+
+  it("reports the latest candidate on the first input", () => {
+    start();
+    emitEntries("largest-contentful-paint", [
+      candidate(800, "https://cdn.example.com/logo.png"),
+    ]);
+    emitEntries("largest-contentful-paint", [
+      candidate(1800, "https://cdn.example.com/hero.jpg"),
+    ]);
+
+    document.dispatchEvent(new Event("keydown"));
+    // Later candidates and input are ignored
+    emitEntries("largest-contentful-paint", [
+      candidate(3000, "https://cdn.example.com/footer.png"),
+    ]);
+    document.dispatchEvent(new Event("click"));
+    hidePage(document);
+
+    const reports = metrics("LCP");
+    expect(reports).toHaveLength(1);
+    expect(reports[0]).toMatchObject({
+      value: 1800,
+      delta: 1800,
+      rating: "good",
+      attribution: { url: "https://cdn.example.com/hero.jpg" },
+    });
+  });
+
+  it("reports the queued candidate when the page is hidden", () => {
+    start();
+    emitEntries("largest-contentful-paint", [candidate(1200, "")]);
+    queueEntries("largest-contentful-paint", [candidate(4200, "")]);
+
+    hidePage(document);
+
+    const reports = metrics("LCP");
+    expect(reports).toHaveLength(1);
+    expect(reports[0]).toMatchObject({
+      value: 4200,
+      rating: "poor",
+      attribution: { url: null },
+    });
+    expect(
+      MockPerformanceObserver.observing("largest-contentful-paint")
+    ).toEqual([]);
+  });
+
+  it("isn't reported for pages loaded in a background tab", () => {
+    document.visibilityState = "hidden";
+    start();
+    emitEntries("largest-contentful-paint", [candidate(1200, "")]);
+
+    document.dispatchEvent(new Event("visibilitychange"));
+
+    expect(metrics("LCP")).toEqual([]);
+  });
+});
+
+describe("CLS", () => {
+  const shift = (startTime: number, value: number, hadRecentInput = false) => ({
+    startTime,
+    value,
+    hadRecentInput,
+    sources: [],
+  });
+
+  it("reports the largest session window", () => {
+    start();
+    emitEntries("layout-shift", [
+      shift(0, 0.1),
+      shift(500, 0.1),
+      // More than a second later, so a new window
+      shift(2000, 0.15),
+      // Right after input, so not counted
+      shift(2100, 0.5, true),
+    ]);
+
+    hidePage(document);
+
+    const [cls] = metrics("CLS");
+    expect(cls.value).toBeCloseTo(0.2);
+    expect(cls.rating).toBe("needs-improvement");
+    expect(cls.attribution).toMatchObject({
+      shiftCount: 2,
+      largestShiftTime: 0,
+    });
+  });
+
+  it("starts a new window once a window spans five seconds", () => {
+    start();
+    // Every 900ms, so the gaps alone never close a window
+    emitEntries(
+      "layout-shift",
+      Array.from({ length: 8 }, (_, i) => shift(i * 900, 0.05))
+    );
+
+    hidePage(document);
+
+    const [cls] = metrics("CLS");
+    expect(cls.value).toBeCloseTo(0.3);
+    expect(cls.attribution).toMatchObject({ shiftCount: 6 });
+  });
+
+  it("reports again on hide only when the score grew", () => {
+    start();
+    emitEntries("layout-shift", [shift(0, 0.05)]);
+    hidePage(document);
+    hidePage(document);
+    emitEntries("layout-shift", [shift(300, 0.1)]);
+    hidePage(document);
+
+    const reports = metrics("CLS");
+    expect(reports).toHaveLength(2);
+    expect(reports[1].value).toBeCloseTo(0.15);
+    expect(reports[1].delta).toBeCloseTo(0.1);
+  });
+});
+
+describe("INP", () => {
+  const eventEntry = (
+    interactionId: number,
+    duration: number,
+    name = "click"
+  ) => ({
+    interactionId,
+    duration,
+    name,
+    startTime: 1000,
+    processingStart: 1010,
+    processingEnd: 1010 + duration / 2,
+    target: null,
+  });
+
+  it("reports the longest event of the slowest interaction", () => {
+    start();
+    emitEntries("event", [
+      eventEntry(7, 80, "pointerdown"),
+      eventEntry(7, 320, "click"),
+      eventEntry(14, 120),
+      // Not an interaction, e.g. a mouseover
+      { ...eventEntry(0, 900), name: "mouseover" },
+    ]);
+
+    hidePage(document);
+
+    const reports = metrics("INP");
+    expect(reports).toHaveLength(1);
+    expect(reports[0]).toMatchObject({
+      value: 320,
+      rating: "needs-improvement",
+      attribution: {
+        eventType: "click",
+        inputDelay: 10,
+        processingDuration: 160,
+        presentationDelay: 150,
+      },
+    });
+  });
+
+  it("skips one slow interaction for every 50 on the page", () => {
+    performance.interactionCount = 120;
+    start();
+    emitEntries(
+      "event",
+      [600, 500, 400, 300, 200].map((duration, i) =>
+        eventEntry((i + 1) * 7, duration)
+      )
+    );
+
+    hidePage(document);
+
+    expect(metrics("INP").map(inp => inp.value)).toEqual([400]);
+  });
+
+  it("estimates the interaction count from interaction IDs", () => {
+    start();
+    // IDs 7 to 357 in steps of 7 are 51 interactions
+    emitEntries("event", [
+      eventEntry(7, 600),
+      eventEntry(14, 300),
+      eventEntry(357, 100),
+    ]);
+
+    hidePage(document);
+
+    expect(metrics("INP").map(inp => inp.value)).toEqual([300]);
+  });
+});
@@ -0,0 +1,64 @@
+import type { WebVitalEvent, WebVitalMetric } from "../../types";
+import { getNavigationType } from "./lifecycle";
+import { getRating } from "./thresholds";
+import { observeLCP } from "./observeLCP";
+import { observeCLS } from "./observeCLS";
+import { observeINP } from "./observeINP";
+import type { WebVitalObserver } from "./types";
+
+export type WebVitalsContext = {
+  safeCapture: (event: WebVitalEvent) => void;
+  logger: {
+    warn: (message: string, meta?: Record<string, unknown>) => void;
+  };
+};
+
+const OBSERVERS: Record<string, WebVitalObserver> = {
+  LCP: observeLCP,
+  CLS: observeCLS,
+  INP: observeINP,
+};
+
+/**
+ * Starts buffered observers for LCP, CLS and INP that emit web_vital events
+ * @returns A function that disconnects every observer
+ */
+export const setupWebVitals = (context: WebVitalsContext): (() => void) => {
+  const { safeCapture, logger } = context;
+
+  const observerContext = {
+    logger,
+    report: (metric: WebVitalMetric) => {
+      const evt: WebVitalEvent = {
+        eventType: "performance",
+        eventName: "web_vital",
+        payload: {
+          ...metric,
+          rating: getRating(metric.name, metric.value),
+          navigationType: getNavigationType(),
+        },
+        timestamp: new Date().toISOString(),
+      };
+      safeCapture(evt);
+    },
+  };
+
+  const cleanups: (() => void)[] = [];
+  for (const [name, observe] of Object.entries(OBSERVERS)) {
+    try {
+      const cleanup = observe(observerContext);
+      if (cleanup) {
+        cleanups.push(cleanup);
+      }
+    } catch (error) {
+      logger.warn("Web vital monitoring not supported", {
+        metric: name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return () => {
+    cleanups.forEach(cleanup => cleanup());
+  };
+};
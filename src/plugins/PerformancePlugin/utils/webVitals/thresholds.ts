@@ -0,0 +1,19 @@
+import type { WebVitalName, WebVitalRating } from "../../types";
+
+// [good, poor] boundaries from https://web.dev/articles/vitals
+export const WEB_VITAL_THRESHOLDS: Record<WebVitalName, [number, number]> = {
+  LCP: [2500, 4000],
+  CLS: [0.1, 0.25],
+  INP: [200, 500],
+};
+
+export const getRating = (
+  name: WebVitalName,
+  value: number
+): WebVitalRating => {
+  const [good, poor] = WEB_VITAL_THRESHOLDS[name];
+  if (value <= good) {
+    return "good";
+  }
+  return value <= poor ? "needs-improvement" : "poor";
+};
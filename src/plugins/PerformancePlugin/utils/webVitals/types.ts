@@ -0,0 +1,13 @@
+import type { WebVitalMetric } from "../../types";
+
+export type WebVitalObserverContext = {
+  report: (metric: WebVitalMetric) => void;
+  logger: {
+    warn: (message: string, meta?: Record<string, unknown>) => void;
+  };
+};
+
+// Returns a cleanup function, or null when the browser lacks the entry type
+export type WebVitalObserver = (
+  context: WebVitalObserverContext
+) => (() => void) | null;
@@ -21,6 +21,7 @@ export class SessionReplayPlugin extends BasePlugin {
   };
   private config: SessionReplayConfig;
   private sessionId: string;
+  private unsubscribeSessionChange: (() => void) | null = null;
   private maxEvents: number;
   private maxDuration: number;
 
@@ -56,6 +57,12 @@ export class SessionReplayPlugin extends BasePlugin {
     });
 
     try {
+      // Record under the manager's session so replays line up with other events
+      this.sessionId = this.manager.getSessionId();
+      this.unsubscribeSessionChange = this.manager.onSessionChange(sessionId =>
+        this.handleSessionChange(sessionId)
+      );
+
       // Get configuration from telemetry manager
       this.config = this.manager.getConfig().sessionReplay || {};
 
@@ -76,6 +83,15 @@ export class SessionReplayPlugin extends BasePlugin {
         maxDuration: this.maxDuration,
       });
 
+      // Deterministic sampling drops whole sessions, so don't record partial replays
+      if (!this.manager.isSessionSampled()) {
+        this.logger.info("SessionReplayPlugin skipped, session not sampled", {
+          sessionId: this.sessionId,
+          samplingMode: this.manager.getConfig().samplingMode,
+        });
+        return;
+      }
+
       // Start recording
       this.startRecording();
 
@@ -202,6 +218,44 @@ export class SessionReplayPlugin extends BasePlugin {
     }
   }
 
+  /**
+   * Close the replay of the ended session and start a new recording for the next one
+   */
+  private handleSessionChange(sessionId: string): void {
+    this.logger.info("SessionReplayPlugin session changed", {
+      previousSessionId: this.sessionId,
+      sessionId,
+      isRecording: this.state.isRecording,
+    });
+
+    if (this.state.isRecording) {
+      this.stopRecording();
+    }
+
+    this.sessionId = sessionId;
+    this.events = [];
+    this.state = {
+      isRecording: false,
+      isPaused: false,
+      startTime: 0,
+      eventCount: 0,
+      lastEventTime: 0,
+    };
+
+    if (!this.isPluginEnabled() || !this.manager.isSessionSampled()) {
+      return;
+    }
+
+    try {
+      this.startRecording();
+    } catch (error) {
+      this.logger.error("SessionReplayPlugin failed to restart recording", {
+        sessionId: this.sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
   private handleRrwebEvent(event: unknown): void {
     try {
       // Type guard to ensure it's a valid rrweb event
@@ -283,6 +337,7 @@ export class SessionReplayPlugin extends BasePlugin {
           config: this.config,
         },
         timestamp: new Date().toISOString(),
+        sessionId: this.sessionId,
         userId: this.manager.getUserId() || "",
       };
 
@@ -390,6 +445,7 @@ export class SessionReplayPlugin extends BasePlugin {
         config: this.config,
       },
       timestamp: new Date().toISOString(),
+      sessionId: this.sessionId,
       userId: this.manager.getUserId() || "",
     };
 
@@ -427,6 +483,7 @@ export class SessionReplayPlugin extends BasePlugin {
         config: this.config,
       },
       timestamp: new Date().toISOString(),
+      sessionId: this.sessionId,
       userId: this.manager.getUserId() || "",
     };
 
@@ -597,6 +654,11 @@ export class SessionReplayPlugin extends BasePlugin {
       timestamp: new Date().toISOString(),
     });
 
+    if (this.unsubscribeSessionChange) {
+      this.unsubscribeSessionChange();
+      this.unsubscribeSessionChange = null;
+    }
+
     // Always send session end event via beacon, even if no events were captured
     // This ensures UI consistency by reliably marking session as complete
     if (this.state.isRecording || this.events.length > 0) {
@@ -646,6 +708,7 @@ export class SessionReplayPlugin extends BasePlugin {
         config: this.config,
       },
       timestamp: new Date().toISOString(),
+      sessionId: this.sessionId,
       userId: this.manager.getUserId() || "",
     };
 
@@ -687,6 +750,7 @@ export class SessionReplayPlugin extends BasePlugin {
         config: this.config,
       },
       timestamp: new Date().toISOString(),
+      sessionId: this.sessionId,
       userId: this.manager.getUserId() || "",
     };
 
@@ -757,6 +821,7 @@ export class SessionReplayPlugin extends BasePlugin {
         config: this.config,
       },
       timestamp: new Date().toISOString(),
+      sessionId: this.sessionId,
       userId: this.manager.getUserId() || "",
     };
 
@@ -4,6 +4,7 @@ export { CustomEventsPlugin } from "./CustomEventsPlugin";
 export { ErrorPlugin } from "./ErrorPlugin";
 export { LogPlugin } from "./LogPlugin";
 export { NetworkPlugin } from "./NetworkPlugin";
+export { NodeRuntimePlugin } from "./NodeRuntimePlugin";
 export { PerformancePlugin } from "./PerformancePlugin";
 export { PageViewPlugin } from "./PageViewPlugin";
 export { SessionReplayPlugin } from "./SessionReplayPlugin";
@@ -0,0 +1,89 @@
+import type { OriginalPosition, RawSourceMap } from "./types";
+import { decodeMappings, type MappingSegment } from "./decodeMappings";
+
+const resolveSource = (source: string, sourceRoot?: string): string => {
+  if (!sourceRoot || /^[a-z][a-z0-9+.-]*:|^\//i.test(source)) {
+    return source;
+  }
+  return `${sourceRoot.replace(/\/?$/, "/")}${source}`;
+};
+
+/**
+ * A parsed source map that maps generated positions back to original ones
+ */
+export class SourceMap {
+  private lines: MappingSegment[][];
+  private sources: string[];
+  private names: string[];
+
+  constructor(raw: RawSourceMap | string) {
+    const map = (typeof raw === "string" ? JSON.parse(raw) : raw) as
+      | (RawSourceMap & { sections?: unknown })
+      | null;
+
+    // Validate the map
+    if (!map || typeof map !== "object") {
+      throw new Error("Source map must be an object");
+    }
+    if (map.version !== 3) {
+      throw new Error(`Unsupported source map version ${String(map.version)}`);
+    }
+    if (map.sections !== undefined) {
+      throw new Error("Indexed source maps are not supported");
+    }
+    if (typeof map.mappings !== "string" || !Array.isArray(map.sources)) {
+      throw new Error("Source map must have mappings and sources");
+    }
+
+    this.lines = decodeMappings(map.mappings);
+    this.sources = map.sources.map(source =>
+      resolveSource(source ?? "", map.sourceRoot)
+    );
+    this.names = Array.isArray(map.names) ? map.names : [];
+  }
+
+  /**
+   * Find the original position of a generated one
+   * @param line - 1-based generated line, as in stack traces
+   * @param column - 1-based generated column, as in stack traces
+   * @returns The original position, or null when the position isn't mapped
+   */
+  originalPositionFor(line: number, column: number): OriginalPosition | null {
+    const segments = this.lines[line - 1];
+    if (!segments || segments.length === 0) {
+      return null;
+    }
+
+    // Last segment starting at or before the column
+    const target = Math.max(column - 1, 0);
+    let low = 0;
+    let high = segments.length - 1;
+    let match: MappingSegment | undefined;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      const segment = segments[mid];
+      if (segment[0] <= target) {
+        match = segment;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    if (!match || match.length < 4) {
+      return null;
+    }
+    const [, sourceIndex, originalLine, originalColumn, nameIndex] = match;
+    const source = this.sources[sourceIndex];
+    if (source === undefined) {
+      return null;
+    }
+    const name = nameIndex !== undefined ? this.names[nameIndex] : undefined;
+    return {
+      source,
+      line: originalLine + 1,
+      column: originalColumn + 1,
+      ...(name && { name }),
+    };
+  }
+}
@@ -0,0 +1,167 @@
+import type { StackFrame } from "../plugins/ErrorPlugin/types";
+import { parseStack } from "../plugins/ErrorPlugin/utils/parseStack";
+import { getLogger } from "../logger";
+import type { Logger } from "../types";
+import type {
+  OriginalPosition,
+  SourceMapFetcher,
+  SymbolicatedFrame,
+  SymbolicatorOptions,
+} from "./types";
+import { SourceMap } from "./SourceMap";
+import { createDirectoryFetcher } from "./directoryFetcher";
+
+type FramesHolder = { frames?: unknown };
+
+const hasFrames = (value: unknown): value is { frames: StackFrame[] } =>
+  !!value &&
+  typeof value === "object" &&
+  Array.isArray((value as FramesHolder).frames);
+
+/**
+ * Resolves minified stack frames to original sources, function names and
+ * positions using source maps. Parsed maps are cached per script file.
+ */
+export class Symbolicator {
+  private logger: Logger;
+  private fetcher: SourceMapFetcher;
+  private maxCachedMaps: number;
+  private cache = new Map<string, Promise<SourceMap | null>>();
+
+  constructor(options: SymbolicatorOptions) {
+    const maxCachedMaps = options.maxCachedMaps ?? 50;
+
+    // Validate parameters
+    if (!options.fetcher && !options.directory) {
+      throw new Error("Either fetcher or directory is required");
+    }
+    if (maxCachedMaps < 1) {
+      throw new Error("maxCachedMaps must be at least 1");
+    }
+
+    this.logger = getLogger();
+    this.fetcher =
+      options.fetcher ?? createDirectoryFetcher(options.directory ?? "");
+    this.maxCachedMaps = maxCachedMaps;
+  }
+
+  /**
+   * Symbolicate a raw stack string, e.g. the stack of an ErrorPlugin event
+   */
+  async symbolicateStack(stack: string): Promise<SymbolicatedFrame[]> {
+    return this.symbolicateFrames(parseStack(stack));
+  }
+
+  /**
+   * Symbolicate parsed frames, innermost first. A minified frame's original
+   * function name comes from the identifier at its caller's call site.
+   */
+  async symbolicateFrames(frames: StackFrame[]): Promise<SymbolicatedFrame[]> {
+    const positions = await Promise.all(
+      frames.map(frame => this.resolvePosition(frame))
+    );
+
+    return frames.map((frame, index) => {
+      const position = positions[index];
+      if (!position) {
+        return { ...frame, symbolicated: false };
+      }
+      const name = positions[index + 1]?.name ?? frame.function;
+      return {
+        ...(name && { function: name }),
+        file: position.source,
+        line: position.line,
+        column: position.column,
+        inApp: frame.inApp && !position.source.includes("/node_modules/"),
+        symbolicated: true,
+        generated: {
+          ...(frame.function && { function: frame.function }),
+          ...(frame.file && { file: frame.file }),
+          ...(frame.line !== undefined && { line: frame.line }),
+          ...(frame.column !== undefined && { column: frame.column }),
+        },
+      };
+    });
+  }
+
+  /**
+   * Symbolicate the frames of an error payload, its causes and aggregate
+   * members. Payloads without frames are returned unchanged.
+   */
+  async symbolicatePayload<T extends Record<string, unknown>>(
+    payload: T
+  ): Promise<T> {
+    const result: Record<string, unknown> = { ...payload };
+    if (hasFrames(payload)) {
+      result.frames = await this.symbolicateFrames(payload.frames);
+    }
+    for (const key of ["causes", "errors"]) {
+      const nested = payload[key];
+      if (Array.isArray(nested)) {
+        result[key] = await Promise.all(
+          nested.map(async (details: unknown) =>
+            hasFrames(details)
+              ? {
+                  ...details,
+                  frames: await this.symbolicateFrames(details.frames),
+                }
+              : details
+          )
+        );
+      }
+    }
+    return result as T;
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private async resolvePosition(
+    frame: StackFrame
+  ): Promise<OriginalPosition | null> {
+    if (!frame.file || frame.line === undefined) {
+      return null;
+    }
+    const sourceMap = await this.getSourceMap(frame.file);
+    return sourceMap
+      ? sourceMap.originalPositionFor(frame.line, frame.column ?? 1)
+      : null;
+  }
+
+  private getSourceMap(file: string): Promise<SourceMap | null> {
+    const cached = this.cache.get(file);
+    if (cached) {
+      // Move to the end so the least recently used map is evicted first
+      this.cache.delete(file);
+      this.cache.set(file, cached);
+      return cached;
+    }
+
+    const loading = this.loadSourceMap(file);
+    this.cache.set(file, loading);
+    while (this.cache.size > this.maxCachedMaps) {
+      const oldest = this.cache.keys().next();
+      if (oldest.done) {
+        break;
+      }
+      this.cache.delete(oldest.value);
+    }
+    return loading;
+  }
+
+  private async loadSourceMap(file: string): Promise<SourceMap | null> {
+    try {
+      const raw = await this.fetcher(file);
+      return raw ? new SourceMap(raw) : null;
+    } catch (error) {
+      // Don't cache failures, the next lookup retries
+      this.cache.delete(file);
+      this.logger.warn("Failed to load source map", {
+        file,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+}
@@ -0,0 +1,109 @@
+#!/usr/bin/env node
+import { readFile, writeFile } from "fs/promises";
+import { Symbolicator } from "./Symbolicator";
+
+const USAGE = `Usage: hyperlook-symbolicate --maps <dir> [--out <file>] <events.json>
+
+Symbolicates the error event frames in an exported events JSON file (an array
+of events, an object with an "events" array, or a single event) using the .map
+files in <dir>. Writes the result to <file> or stdout.`;
+
+type CliArgs = {
+  maps: string;
+  input: string;
+  out?: string;
+};
+
+const parseArgs = (argv: string[]): CliArgs | null => {
+  let maps: string | undefined;
+  let out: string | undefined;
+  let input: string | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--maps" || arg === "-m") {
+      maps = argv[++i];
+    } else if (arg === "--out" || arg === "-o") {
+      out = argv[++i];
+    } else if (arg === "--help" || arg === "-h") {
+      return null;
+    } else if (arg && !arg.startsWith("-")) {
+      input = arg;
+    }
+  }
+  if (!maps || !input) {
+    return null;
+  }
+  return { maps, input, ...(out && { out }) };
+};
+
+// Hyperlook exports keep the payload under properties, SDK events under payload
+const symbolicateEvent = async (
+  symbolicator: Symbolicator,
+  event: unknown
+): Promise<unknown> => {
+  if (!event || typeof event !== "object") {
+    return event;
+  }
+  const result: Record<string, unknown> = { ...event };
+  for (const key of ["payload", "properties"]) {
+    const value = result[key];
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      result[key] = await symbolicator.symbolicatePayload(
+        value as Record<string, unknown>
+      );
+    }
+  }
+  return result;
+};
+
+const run = async (argv: string[]): Promise<number> => {
+  const args = parseArgs(argv);
+  if (!args) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  const symbolicator = new Symbolicator({ directory: args.maps });
+  const data = JSON.parse(await readFile(args.input, "utf8")) as unknown;
+
+  let output: unknown;
+  if (Array.isArray(data)) {
+    output = await Promise.all(
+      data.map(event => symbolicateEvent(symbolicator, event))
+    );
+  } else if (
+    data &&
+    typeof data === "object" &&
+    Array.isArray((data as { events?: unknown }).events)
+  ) {
+    const events = (data as { events: unknown[] }).events;
+    output = {
+      ...data,
+      events: await Promise.all(
+        events.map(event => symbolicateEvent(symbolicator, event))
+      ),
+    };
+  } else {
+    output = await symbolicateEvent(symbolicator, data);
+  }
+
+  const json = JSON.stringify(output, null, 2);
+  if (args.out) {
+    await writeFile(args.out, `${json}\n`, "utf8");
+  } else {
+    process.stdout.write(`${json}\n`);
+  }
+  return 0;
+};
+
+run(process.argv.slice(2))
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch((error: unknown) => {
+    console.error(
+      "Symbolication failed:",
+      error instanceof Error ? error.message : String(error)
+    );
+    process.exitCode = 1;
+  });
@@ -0,0 +1,85 @@
+const BASE64_CHARS =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const BASE64_VALUES = new Map(
+  Array.from(BASE64_CHARS, (char, index) => [char, index])
+);
+
+// [generatedColumn, sourceIndex, originalLine, originalColumn, nameIndex],
+// all 0-based; only the generated column is present for unmapped segments
+export type MappingSegment = number[];
+
+const decodeVLQ = (segment: string): number[] => {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (const char of segment) {
+    const digit = BASE64_VALUES.get(char);
+    if (digit === undefined) {
+      throw new Error(`Invalid base64 character '${char}' in mappings`);
+    }
+    value += (digit & 31) * 2 ** shift;
+    if (digit & 32) {
+      shift += 5;
+      continue;
+    }
+    // The lowest bit carries the sign
+    values.push(value % 2 === 1 ? -Math.floor(value / 2) : value / 2);
+    value = 0;
+    shift = 0;
+  }
+  return values;
+};
+
+/**
+ * Decodes the Base64 VLQ mappings string of a source map
+ * @returns Segments per generated line, sorted by generated column
+ */
+export function decodeMappings(mappings: string): MappingSegment[][] {
+  const lines: MappingSegment[][] = [];
+  // Everything but the generated column is relative across the whole string
+  let sourceIndex = 0;
+  let originalLine = 0;
+  let originalColumn = 0;
+  let nameIndex = 0;
+
+  for (const line of mappings.split(";")) {
+    const segments: MappingSegment[] = [];
+    let generatedColumn = 0;
+
+    for (const encoded of line.split(",")) {
+      if (!encoded) {
+        continue;
+      }
+      const values = decodeVLQ(encoded);
+      generatedColumn += values[0];
+      if (values.length < 4) {
+        segments.push([generatedColumn]);
+        continue;
+      }
+      sourceIndex += values[1];
+      originalLine += values[2];
+      originalColumn += values[3];
+      if (values.length >= 5) {
+        nameIndex += values[4];
+        segments.push([
+          generatedColumn,
+          sourceIndex,
+          originalLine,
+          originalColumn,
+          nameIndex,
+        ]);
+      } else {
+        segments.push([
+          generatedColumn,
+          sourceIndex,
+          originalLine,
+          originalColumn,
+        ]);
+      }
+    }
+
+    lines.push(segments.sort((a, b) => a[0] - b[0]));
+  }
+
+  return lines;
+}
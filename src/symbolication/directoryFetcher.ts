@@ -0,0 +1,33 @@
+import { readFile } from "fs/promises";
+import { basename, join } from "path";
+import type { SourceMapFetcher } from "./types";
+
+const getFileName = (file: string): string => {
+  try {
+    return basename(new URL(file).pathname);
+  } catch {
+    // Not a URL, e.g. a path from a Node.js stack
+    return basename(file.replace(/[?#].*$/, ""));
+  }
+};
+
+/**
+ * Looks up `<script file name>.map` in a local directory, e.g. the build
+ * output. Only the file name is used, so frames can't read outside directory.
+ */
+export function createDirectoryFetcher(directory: string): SourceMapFetcher {
+  return async file => {
+    const fileName = getFileName(file);
+    if (!fileName) {
+      return null;
+    }
+    try {
+      return await readFile(join(directory, `${fileName}.map`), "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  };
+}
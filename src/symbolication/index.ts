@@ -0,0 +1,18 @@
+export { Symbolicator } from "./Symbolicator";
+export { SourceMap } from "./SourceMap";
+export { decodeMappings } from "./decodeMappings";
+export type { MappingSegment } from "./decodeMappings";
+export { createDirectoryFetcher } from "./directoryFetcher";
+export type {
+  RawSourceMap,
+  OriginalPosition,
+  SourceMapFetcher,
+  SymbolicatorOptions,
+  SymbolicatedFrame,
+} from "./types";
+export { parseStack } from "../plugins/ErrorPlugin/utils/parseStack";
+export type {
+  StackFrame,
+  ErrorDetails,
+  ErrorEventPayload,
+} from "../plugins/ErrorPlugin/types";
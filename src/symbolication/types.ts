@@ -0,0 +1,36 @@
+import type { StackFrame } from "../plugins/ErrorPlugin/types";
+
+// Source Map Revision 3, https://tc39.es/source-map/
+export type RawSourceMap = {
+  version: number;
+  file?: string;
+  sourceRoot?: string;
+  sources: (string | null)[];
+  sourcesContent?: (string | null)[];
+  names?: string[];
+  mappings: string;
+};
+
+export type OriginalPosition = {
+  source: string;
+  line: number; // 1-based, like stack traces
+  column: number; // 1-based, like stack traces
+  name?: string; // Original identifier at this position
+};
+
+// Resolves the source map for a script URL or path, null when there is none
+export type SourceMapFetcher = (
+  file: string
+) => Promise<RawSourceMap | string | null>;
+
+export type SymbolicatorOptions = {
+  directory?: string; // Local directory with .map files, looked up by script file name
+  fetcher?: SourceMapFetcher; // Custom lookup, e.g. from object storage, takes precedence over directory
+  maxCachedMaps?: number; // Parsed maps kept in memory, least recently used are dropped first
+};
+
+export type SymbolicatedFrame = StackFrame & {
+  symbolicated: boolean; // False when no source map covered the frame
+  // Minified position the frame was resolved from
+  generated?: Pick<StackFrame, "function" | "file" | "line" | "column">;
+};
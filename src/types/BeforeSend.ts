@@ -0,0 +1,21 @@
+import type { TelemetryEvent } from "./TelemetryEvent";
+
+/**
+ * Inspects an event before it is sampled and buffered.
+ * Return the (possibly modified) event to keep it, or null to drop it.
+ */
+export type BeforeSendHook = (
+  event: TelemetryEvent
+) => TelemetryEvent | null | Promise<TelemetryEvent | null>;
+
+// What happens to an event when a hook throws, rejects or times out
+export type BeforeSendErrorMode = "drop" | "pass";
+
+export type BeforeSendStats = {
+  name: string; // Hook function name, or its position in the chain
+  invocations: number;
+  dropped: number; // Events the hook returned null for
+  errors: number; // Throws, rejections, timeouts and invalid return values
+  totalDuration: number; // Milliseconds spent in the hook, including awaited time
+  maxDuration: number;
+};
@@ -0,0 +1,29 @@
+export type BreadcrumbCategory =
+  | "click"
+  | "navigation"
+  | "console"
+  | "network"
+  | "custom";
+
+export type BreadcrumbLevel = "debug" | "info" | "warning" | "error";
+
+export type Breadcrumb = {
+  category: BreadcrumbCategory;
+  message: string;
+  level: BreadcrumbLevel;
+  timestamp: string;
+  data?: Record<string, unknown>;
+};
+
+// What apps pass to addBreadcrumb, category defaults to "custom" and level to "info"
+export type BreadcrumbInput = {
+  message: string;
+  category?: BreadcrumbCategory;
+  level?: BreadcrumbLevel;
+  data?: Record<string, unknown>;
+};
+
+export type BreadcrumbConfig = {
+  maxBreadcrumbs?: number; // Oldest breadcrumbs are dropped once this many are kept
+  categories?: BreadcrumbCategory[]; // Categories to record, all when unset
+};
@@ -0,0 +1,16 @@
+import type { NodeIntegrations } from "./NodeRuntime";
+
+// Content-Encoding of compressed request bodies, "deflate" is the zlib format
+export type CompressionAlgorithm = "gzip" | "deflate";
+
+export type CompressionConfig = {
+  algorithm?: CompressionAlgorithm; // Defaults to "gzip"
+  threshold?: number; // Minimum serialized payload size in bytes worth compressing, defaults to 1024
+  zlib?: NodeIntegrations["zlib"]; // Node.js zlib, set from nodeIntegrations by initTelemetry
+};
+
+export type EncodedPayload = {
+  body: string | Uint8Array;
+  contentEncoding?: CompressionAlgorithm; // Unset when the body is sent as is
+  size: number; // Bytes on the wire
+};
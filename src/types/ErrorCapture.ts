@@ -0,0 +1,8 @@
+export type SeverityLevel = "fatal" | "error" | "warning" | "info" | "debug";
+
+export type CaptureExceptionOptions = {
+  level?: SeverityLevel; // Defaults to "error"
+  tags?: Record<string, string>; // Short indexed values to filter errors by, e.g. feature or tenant
+  extra?: Record<string, unknown>; // Arbitrary debugging context
+  fingerprint?: string[]; // Parts hashed into the grouping fingerprint instead of the stack
+};
@@ -1,6 +1,11 @@
 export enum ExporterType {
   HYPERLOOK = "hyperlook",
   HTTP = "http",
+  OTLP = "otlp",
 }
 
 export type ExporterTypeArray = ExporterType[];
+
+// When a flush counts as delivered: any exporter, every exporter, or the first
+// exporter with the others best-effort
+export type DeliveryPolicy = "any" | "all" | "primary";
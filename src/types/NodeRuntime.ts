@@ -0,0 +1,19 @@
+import type * as http from "http";
+import type * as https from "https";
+import type { syncBuiltinESMExports } from "module";
+import type { monitorEventLoopDelay } from "perf_hooks";
+import type * as zlib from "zlib";
+
+export type NodeRuntimeConfig = {
+  metricsInterval?: number; // Milliseconds between runtime_metrics samples, 0 disables them
+  captureWarnings?: boolean; // Report process warnings, e.g. deprecations and MaxListenersExceeded
+};
+
+// Node.js built-ins the browser bundle cannot import, supplied by "@hyperlook/telemetry-sdk/node"
+export type NodeIntegrations = {
+  monitorEventLoopDelay?: typeof monitorEventLoopDelay; // Event loop lag in runtime_metrics
+  http?: typeof http; // Outbound request events from the NetworkPlugin
+  https?: typeof https;
+  syncBuiltinESMExports?: typeof syncBuiltinESMExports; // Lets named ES module imports see the http/https patch
+  zlib?: Pick<typeof zlib, "gzip" | "deflate">; // Request body compression, used instead of CompressionStream
+};
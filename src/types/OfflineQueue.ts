@@ -0,0 +1,26 @@
+import type { TelemetryEvent } from "./TelemetryEvent";
+
+export type PersistedBatch = {
+  id: string;
+  events: TelemetryEvent[];
+  createdAt: number; // Epoch milliseconds when the batch was persisted
+  size: number; // Serialized size of the events in bytes
+};
+
+export type EventStorage = {
+  /** Returns true if the backing store is available in the current environment */
+  isSupported(): boolean;
+  load(): Promise<PersistedBatch[]>;
+  save(batch: PersistedBatch): Promise<void>;
+  remove(ids: string[]): Promise<void>;
+  clear(): Promise<void>;
+};
+
+export type OfflineStorageType = "auto" | "indexeddb" | "localstorage";
+
+export type OfflineQueueConfig = {
+  storage?: OfflineStorageType | EventStorage; // Backend to use, "auto" picks the best available browser store
+  ttl?: number; // Time to keep undelivered batches in milliseconds
+  maxBytes?: number; // Maximum total size of persisted batches in bytes
+  storageKey?: string; // IndexedDB database name or localStorage key
+};
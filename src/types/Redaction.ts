@@ -0,0 +1,21 @@
+export type RedactionDetector =
+  | "email"
+  | "creditCard"
+  | "jwt"
+  | "bearerToken"
+  | "ipAddress";
+
+export type RedactionRule = {
+  name?: string; // Used in logs only
+  pattern: RegExp | string; // Matched against every string value, always applied globally
+  replacement?: string; // Defaults to "[REDACTED]"
+};
+
+export type RedactionConfig = {
+  detectors?: Partial<Record<RedactionDetector, boolean>>; // Built-in detectors, all enabled by default
+  allowKeys?: string[]; // Keys whose values are never redacted
+  denyKeys?: string[]; // Keys whose values are always redacted, added to the defaults
+  rules?: RedactionRule[]; // Custom patterns applied after the built-in detectors
+  sensitiveQueryParams?: string[]; // Query parameters whose values are redacted, added to the defaults
+  replacement?: string; // Replacement for denied keys and custom rules
+};
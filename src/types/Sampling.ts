@@ -0,0 +1,9 @@
+export type SamplingRule = {
+  eventType?: string; // Matches any event type when omitted
+  eventName?: string; // Matches any event name when omitted
+  rate: number; // Probability (0.0-1.0) of keeping a matching event
+};
+
+// "random" samples each event independently, "session" and "user" keep or drop
+// whole sessions (or users) by hashing their ID
+export type SamplingMode = "random" | "session" | "user";
@@ -0,0 +1,17 @@
+export type SessionConfig = {
+  inactivityTimeout?: number; // Start a new session after this many milliseconds without events
+  maxDuration?: number; // Start a new session once the current one is this old, in milliseconds
+  rotateAtMidnight?: boolean; // Start a new session when the local calendar day changes
+  storageKey?: string; // localStorage key the session is kept under
+};
+
+export type SessionEndReason =
+  | "inactivity"
+  | "max_duration"
+  | "midnight"
+  | "manual";
+
+export type SessionChangeListener = (
+  sessionId: string,
+  previousSessionId: string
+) => void;
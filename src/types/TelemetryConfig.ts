@@ -1,11 +1,23 @@
 import type { LoggerConfig } from "./Logger";
-import type { ExporterType } from "./ExporterTypes";
+import type { ExporterType, DeliveryPolicy } from "./ExporterTypes";
 import type { SessionReplayConfig } from "./SessionReplay";
+import type { OfflineQueueConfig } from "./OfflineQueue";
+import type { BeforeSendErrorMode, BeforeSendHook } from "./BeforeSend";
+import type { RedactionConfig } from "./Redaction";
+import type { SamplingRule, SamplingMode } from "./Sampling";
+import type { SessionConfig } from "./Session";
+import type { BreadcrumbConfig } from "./Breadcrumb";
+import type { NodeRuntimeConfig, NodeIntegrations } from "./NodeRuntime";
+import type { CompressionConfig } from "./Compression";
+import type { TelemetryExporter } from "./TelemetryExporter";
+
+// Origin or URL prefix string, or a pattern tested against the full request URL
+export type TracePropagationTarget = string | RegExp;
 
 export type TelemetryConfig = {
   endpoint?: string; // Optional since we use hardcoded Hyperlook URL
   hyperlookApiKey?: string; // API key for Hyperlook exporter
-  exporters?: ExporterType[]; // Array of enabled exporters
+  exporters?: (ExporterType | TelemetryExporter)[]; // Enabled exporters, built-in types or exporter instances
   enablePageViews?: boolean; // Enable page view tracking
   enableClicks?: boolean;
   enableLogs?: boolean;
@@ -13,17 +25,37 @@ export type TelemetryConfig = {
   enablePerformance?: boolean;
   enableErrors?: boolean; // Enable error tracking
   enableSessionReplay?: boolean; // Enable session replay recording
+  enableNodeRuntime?: boolean; // Capture Node.js process errors, warnings and runtime metrics
   batchSize?: number;
+  maxBatchBytes?: number; // Serialized size in bytes at which a batch is flushed and split, defaults to 100KB
   flushInterval?: number;
   maxRetries?: number;
   retryDelay?: number; // Base retry delay for exponential backoff
   maxRetryDelay?: number; // Maximum retry delay cap
-  samplingRate?: number;
+  samplingRate?: number; // Default rate for events no sampling rule matches
+  samplingRules?: SamplingRule[]; // Per event type/name rates, the first matching rule wins
+  samplingMode?: SamplingMode; // Sample per event, or keep/drop whole sessions or users
   logging?: LoggerConfig;
-  sessionId?: string;
+  sessionId?: string; // Fixed session ID, disables session management
   userId?: string;
+  anonymousId?: string; // Fixed anonymous ID, otherwise one is generated and kept in localStorage
+  globalContext?: Record<string, unknown>; // Properties added to every event payload, e.g. app version or tenant
   enableCustomEvents?: boolean;
   captureStreamingMessages?: boolean; // Enable capturing individual streaming messages/chunks
+  enableTracePropagation?: boolean; // Inject W3C traceparent/tracestate headers into fetch and XHR requests
+  tracePropagationTargets?: TracePropagationTarget[]; // Origins/URL prefixes or patterns that may receive trace headers, same-origin only if unset
+
+  // Session settings
+  enableSessionManagement?: boolean; // Keep the session across page loads and rotate it on inactivity, age or midnight
+  session?: SessionConfig;
+
+  // Breadcrumb settings
+  enableBreadcrumbs?: boolean; // Keep a trail of recent clicks, navigations, console calls and requests for error events
+  breadcrumbs?: BreadcrumbConfig;
+
+  // Node.js runtime settings
+  nodeRuntime?: NodeRuntimeConfig;
+  nodeIntegrations?: NodeIntegrations; // Node.js built-ins from "@hyperlook/telemetry-sdk/node", features needing them are off without it
 
   // Session Replay settings
   sessionReplay?: SessionReplayConfig;
@@ -34,8 +66,33 @@ export type TelemetryConfig = {
   circuitBreakerMaxFailures?: number; // Max consecutive failures before opening circuit
   circuitBreakerTimeout?: number; // Time to wait before attempting half-open
   circuitBreakerFailureThreshold?: number; // Failure rate threshold (0.0-1.0)
+  deliveryPolicy?: DeliveryPolicy; // Which exporters must accept a batch, defaults to "any"
+  maxPendingEventsPerExporter?: number; // Events kept for an exporter that failed while others succeeded
+
+  // Transport settings
+  enableCompression?: boolean; // Compress request and beacon bodies with gzip or deflate
+  compression?: CompressionConfig;
+
+  // Event processing hooks
+  beforeSend?: BeforeSendHook | BeforeSendHook[]; // Inspect, modify or drop events before sampling and buffering
+  beforeSendTimeout?: number; // Max time in milliseconds an async beforeSend hook may take
+  beforeSendOnError?: BeforeSendErrorMode; // Drop (default) or pass on events whose hook failed
+
+  // Privacy settings
+  enableRedaction?: boolean; // Redact PII and secrets from event payloads before buffering
+  redaction?: RedactionConfig;
+
+  // Offline persistence settings
+  enableOfflineQueue?: boolean; // Persist undelivered batches and replay them on next init
+  offlineQueue?: OfflineQueueConfig;
 
   // Hyperlook-specific settings
   hyperlookMaxBatchSize?: number; // Maximum events per batch for Hyperlook
   hyperlookMaxPayloadSize?: number; // Maximum payload size in bytes for Hyperlook
+
+  // OTLP-specific settings
+  otlpEndpoint?: string; // Collector base URL, falls back to endpoint
+  otlpHeaders?: Record<string, string>; // Extra headers, e.g. collector auth
+  otlpServiceName?: string; // service.name resource attribute
+  otlpResourceAttributes?: Record<string, string | number | boolean>;
 };
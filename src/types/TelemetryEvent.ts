@@ -6,6 +6,7 @@ export type TelemetryEvent<T = Record<string, unknown>> = {
   event_id?: string; // Optional event ID - will be assigned by ExportManager
   sessionId?: string;
   userId?: string;
+  anonymousId?: string; // Stable per-device ID, present before and after identify()
   sdkMetadata?: {
     version: string;
     [key: string]: unknown;
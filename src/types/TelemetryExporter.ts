@@ -1,6 +1,10 @@
 import type { TelemetryEvent } from "./TelemetryEvent";
 
 export type TelemetryExporter = {
+  /**
+   * Optionally label the exporter in logs and exporter states, defaults to its class name.
+   */
+  readonly name?: string;
   export(events: TelemetryEvent[], endpoint?: string): Promise<void>;
   /**
    * Optionally resolve an endpoint for this exporter.
@@ -9,6 +13,16 @@ export type TelemetryExporter = {
   /**
    * Optionally transform events into a transport payload.
    * If forBeacon is true, the exporter can tailor the payload for sendBeacon.
+   * Strings are sent as they are, anything else is JSON encoded.
    */
   transformPayload?(events: TelemetryEvent[], forBeacon?: boolean): unknown;
+  /**
+   * Optionally set the Content-Type of beacons, defaults to application/json.
+   */
+  readonly contentType?: string;
+  /**
+   * Optionally take over sendBeacon delivery, e.g. when events are split across several URLs.
+   * Returns true if every beacon was queued by the browser.
+   */
+  exportWithBeacon?(events: TelemetryEvent[], endpoint?: string): boolean;
 };
@@ -5,3 +5,12 @@ export * from "./TelemetryExporter";
 export * from "./TelemetryPlugin";
 export * from "./TelemetryConfig";
 export * from "./SessionReplay";
+export * from "./OfflineQueue";
+export * from "./BeforeSend";
+export * from "./Redaction";
+export * from "./Sampling";
+export * from "./Session";
+export * from "./Breadcrumb";
+export * from "./ErrorCapture";
+export * from "./NodeRuntime";
+export * from "./Compression";
@@ -0,0 +1,82 @@
+import zlib, { gunzipSync, inflateSync } from "zlib";
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { compress, encodePayload } from "./encodePayload";
+
+const json = JSON.stringify({
+  events: Array.from({ length: 100 }, () => ({ eventName: "checkout" })),
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("compress", () => {
+  it("uses CompressionStream where it is available", async () => {
+    const data = new TextEncoder().encode(json);
+
+    expect(gunzipSync(await compress(data, "gzip")).toString()).toBe(json);
+    expect(inflateSync(await compress(data, "deflate")).toString()).toBe(json);
+  });
+
+  it("prefers Node.js zlib when supplied", async () => {
+    vi.stubGlobal("CompressionStream", undefined);
+    const gzip = vi.spyOn(zlib, "gzip");
+    const data = new TextEncoder().encode(json);
+
+    expect(gunzipSync(await compress(data, "gzip", zlib)).toString()).toBe(
+      json
+    );
+    expect(inflateSync(await compress(data, "deflate", zlib)).toString()).toBe(
+      json
+    );
+    expect(gzip).toHaveBeenCalledOnce();
+  });
+});
+
+describe("encodePayload", () => {
+  it("sends the payload as is without compression settings", async () => {
+    expect(await encodePayload(json, undefined)).toEqual({
+      body: json,
+      size: json.length,
+    });
+  });
+
+  it("compresses payloads at or over the threshold", async () => {
+    const encoded = await encodePayload(json, { algorithm: "gzip" });
+
+    expect(encoded.contentEncoding).toBe("gzip");
+    expect(encoded.size).toBe((encoded.body as Uint8Array).length);
+    expect(gunzipSync(encoded.body as Uint8Array).toString()).toBe(json);
+  });
+
+  it("measures the threshold and size in bytes, not characters", async () => {
+    // 400 characters, 1196 bytes in UTF-8
+    const text = JSON.stringify("€".repeat(398));
+
+    const plain = await encodePayload(text, { threshold: 2048 });
+    expect(plain).toEqual({ body: text, size: 1196 });
+
+    const compressed = await encodePayload(text, { threshold: 1024 });
+    expect(compressed.contentEncoding).toBe("gzip");
+  });
+
+  it("sends plain JSON where no compressor is available", async () => {
+    vi.stubGlobal("CompressionStream", undefined);
+
+    expect(await encodePayload(json, { algorithm: "gzip" })).toEqual({
+      body: json,
+      size: json.length,
+    });
+  });
+
+  it("keeps payloads that compression would not shrink", async () => {
+    // Shorter than the gzip header and trailer
+    const text = '{"a":1}';
+
+    expect(await encodePayload(text, { threshold: 0 })).toEqual({
+      body: text,
+      size: text.length,
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import type {
+  CompressionAlgorithm,
+  CompressionConfig,
+  EncodedPayload,
+} from "../../types";
+
+const DEFAULT_ALGORITHM: CompressionAlgorithm = "gzip";
+const DEFAULT_THRESHOLD = 1024;
+
+const compressWithStream = async (
+  data: Uint8Array,
+  algorithm: CompressionAlgorithm
+): Promise<Uint8Array> => {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new CompressionStream(algorithm));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const compressWithZlib = (
+  zlib: NonNullable<CompressionConfig["zlib"]>,
+  data: Uint8Array,
+  algorithm: CompressionAlgorithm
+): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    const callback = (error: Error | null, result: Uint8Array) =>
+      error ? reject(error) : resolve(result);
+    if (algorithm === "gzip") {
+      zlib.gzip(data, callback);
+    } else {
+      zlib.deflate(data, callback);
+    }
+  });
+
+/**
+ * Compresses data with Node.js zlib when supplied, otherwise with
+ * CompressionStream (browsers, Node.js 18+)
+ * @throws When neither is available
+ */
+export const compress = async (
+  data: Uint8Array,
+  algorithm: CompressionAlgorithm,
+  zlib?: CompressionConfig["zlib"]
+): Promise<Uint8Array> => {
+  if (zlib) {
+    return compressWithZlib(zlib, data, algorithm);
+  }
+  if (typeof CompressionStream === "function") {
+    return compressWithStream(data, algorithm);
+  }
+  throw new Error("Compression is not available in this runtime");
+};
+
+/**
+ * Serializes a request body, compressing it when compression is configured,
+ * the payload is at least the threshold size and compression makes it smaller
+ * @param json - The JSON payload
+ * @param config - Compression settings, undefined to send the payload as is
+ * @returns The body with its Content-Encoding and size in bytes, compression failures fall back to plain JSON
+ */
+export const encodePayload = async (
+  json: string,
+  config: CompressionConfig | undefined
+): Promise<EncodedPayload> => {
+  const bytes = new TextEncoder().encode(json);
+  const plain: EncodedPayload = { body: json, size: bytes.length };
+  if (!config || bytes.length < (config.threshold ?? DEFAULT_THRESHOLD)) {
+    return plain;
+  }
+  const algorithm = config.algorithm ?? DEFAULT_ALGORITHM;
+  try {
+    const compressed = await compress(bytes, algorithm, config.zlib);
+    if (compressed.length < bytes.length) {
+      return {
+        body: compressed,
+        contentEncoding: algorithm,
+        size: compressed.length,
+      };
+    }
+  } catch {
+    // Send uncompressed rather than not at all
+  }
+  return plain;
+};
@@ -0,0 +1 @@
+export { compress, encodePayload } from "./encodePayload";
@@ -0,0 +1,61 @@
+import type { TelemetryEvent } from "../types";
+
+/**
+ * Remembers the events an exporter already sent from a batch that failed as
+ * a whole, so retrying the batch only sends the rest. Events without an
+ * event_id are always sent.
+ */
+export class DeliveredEvents {
+  private ids = new Set<string>();
+  private maxIds: number;
+
+  constructor(maxIds: number = 10000) {
+    // Validate parameters
+    if (maxIds < 1) {
+      throw new Error("maxIds must be at least 1");
+    }
+
+    this.maxIds = maxIds;
+  }
+
+  /**
+   * @returns The events that have not been sent yet
+   */
+  remaining(events: TelemetryEvent[]): TelemetryEvent[] {
+    if (this.ids.size === 0) {
+      return events;
+    }
+    return events.filter(
+      event => !event.event_id || !this.ids.has(event.event_id)
+    );
+  }
+
+  add(events: TelemetryEvent[]): void {
+    events.forEach(event => {
+      if (event.event_id) {
+        this.ids.add(event.event_id);
+      }
+    });
+    // Batches that are never retried would otherwise be remembered forever
+    for (const id of this.ids) {
+      if (this.ids.size <= this.maxIds) {
+        break;
+      }
+      this.ids.delete(id);
+    }
+  }
+
+  /**
+   * Forget a batch once all of it has been delivered
+   */
+  forget(events: TelemetryEvent[]): void {
+    if (this.ids.size === 0) {
+      return;
+    }
+    events.forEach(event => {
+      if (event.event_id) {
+        this.ids.delete(event.event_id);
+      }
+    });
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Generates a random lowercase hex identifier (e.g. W3C/OTLP trace and span IDs)
+ * @param byteLength - Number of random bytes, the result has twice as many characters
+ * @returns A non-zero hex string
+ */
+export function generateHexId(byteLength: number): string {
+  const bytes = new Uint8Array(byteLength);
+  if (
+    typeof globalThis.crypto !== "undefined" &&
+    typeof globalThis.crypto.getRandomValues === "function"
+  ) {
+    globalThis.crypto.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < byteLength; i++) {
+      bytes[i] = Math.floor(Math.random() * 256);
+    }
+  }
+
+  // An all-zero ID is invalid for both trace and span IDs
+  if (bytes.every(byte => byte === 0)) {
+    bytes[byteLength - 1] = 1;
+  }
+
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,46 @@
+const MAX_CLASSES = 2;
+
+const escapeIdentifier = (value: string): string =>
+  typeof CSS !== "undefined" && typeof CSS.escape === "function"
+    ? CSS.escape(value)
+    : value.replace(/[^a-zA-Z0-9_-]/g, "\\$&");
+
+/**
+ * Builds a short CSS selector for an element, stopping at the nearest ancestor with an ID
+ * @param node - The element (or text node) to describe
+ * @param maxDepth - Maximum number of ancestors to include
+ * @returns A selector such as "main > div.card > button#buy", or "" if there is no element
+ */
+export function getElementSelector(
+  node: Node | null | undefined,
+  maxDepth: number = 5
+): string {
+  let element: Element | null =
+    node && node.nodeType === 1
+      ? (node as Element)
+      : (node?.parentElement ?? null);
+  const parts: string[] = [];
+
+  while (element && parts.length < maxDepth) {
+    const tagName = element.tagName.toLowerCase();
+    if (tagName === "html" || tagName === "body") {
+      parts.unshift(tagName);
+      break;
+    }
+
+    if (element.id) {
+      parts.unshift(`${tagName}#${escapeIdentifier(element.id)}`);
+      break;
+    }
+
+    // className is an SVGAnimatedString on SVG elements, classList works for both
+    const classes = Array.from(element.classList)
+      .slice(0, MAX_CLASSES)
+      .map(name => `.${escapeIdentifier(name)}`)
+      .join("");
+    parts.unshift(`${tagName}${classes}`);
+    element = element.parentElement;
+  }
+
+  return parts.join(" > ");
+}
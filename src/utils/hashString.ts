@@ -0,0 +1,13 @@
+/**
+ * Hashes a string to a stable number in [0, 1) using 32-bit FNV-1a
+ * @param input - The string to hash, e.g. a session or user ID
+ * @returns The same value for the same input across page loads and runtimes
+ */
+export function hashString(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
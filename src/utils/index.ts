@@ -2,3 +2,9 @@ export { isSupabaseUrl } from "./isSupabaseUrl";
 export { initialTelemetryConfig } from "./initialTelemetryConfig";
 export * from "./earlyInitialization";
 export * from "./versionUtils";
+export { generateHexId } from "./generateHexId";
+export * from "./traceContext";
+export { hashString } from "./hashString";
+export { getElementSelector } from "./getElementSelector";
+export * from "./compression";
+export * from "./retryAfter";
@@ -14,7 +14,23 @@ export const initialTelemetryConfig: TelemetryConfig = {
   enableErrors: true,
   enableCustomEvents: false, // Disabled by default to avoid noise
   enableSessionReplay: false, // Disabled by default - requires explicit opt-in
+  enableNodeRuntime: true, // Only runs in Node.js
   captureStreamingMessages: true,
+  enableSessionManagement: true, // Keep sessions across page loads
+  enableBreadcrumbs: true, // Attach recent activity to error events
+  enableCompression: false, // Opt-in - the endpoint must accept Content-Encoding
+
+  // Session settings - only used when enableSessionManagement is true
+  session: {
+    inactivityTimeout: 30 * 60 * 1000, // 30 minutes
+    maxDuration: 24 * 60 * 60 * 1000, // 24 hours
+    rotateAtMidnight: true,
+  },
+
+  // Breadcrumb settings - only used when enableBreadcrumbs is true
+  breadcrumbs: {
+    maxBreadcrumbs: 30,
+  },
 
   // Session Replay settings - only used when enableSessionReplay is true
   sessionReplay: {
@@ -70,6 +86,7 @@ export const initialTelemetryConfig: TelemetryConfig = {
   circuitBreakerMaxFailures: 10, // Conservative failure threshold
   circuitBreakerTimeout: 60000, // 1 minute before recovery
   circuitBreakerFailureThreshold: 0.5, // 50% failure rate threshold
+  deliveryPolicy: "any", // Delivered once one exporter accepts the batch
 
   // Hyperlook-specific settings
   hyperlookMaxBatchSize: 25, // Match batch size for consistency
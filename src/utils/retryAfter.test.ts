@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import {
+  getRetryAfter,
+  parseRateLimitBody,
+  parseRetryAfter,
+} from "./retryAfter";
+import { MAX_RETRY_AFTER_MS } from "../constants";
+
+const now = Date.parse("2026-01-01T00:00:00.000Z");
+
+describe("parseRetryAfter", () => {
+  it("reads delays in seconds", () => {
+    expect(parseRetryAfter("120", now)).toBe(120000);
+    expect(parseRetryAfter(" 1.5 ", now)).toBe(1500);
+  });
+
+  it("reads HTTP dates relative to now", () => {
+    expect(parseRetryAfter("Thu, 01 Jan 2026 00:00:30 GMT", now)).toBe(30000);
+    // Dates in the past mean retry now
+    expect(parseRetryAfter("Wed, 31 Dec 2025 23:59:00 GMT", now)).toBe(0);
+  });
+
+  it("caps delays at one hour", () => {
+    expect(parseRetryAfter("86400", now)).toBe(MAX_RETRY_AFTER_MS);
+  });
+
+  it("ignores missing and invalid values", () => {
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+    expect(parseRetryAfter("", now)).toBeUndefined();
+    expect(parseRetryAfter("-5", now)).toBeUndefined();
+    expect(parseRetryAfter("soon", now)).toBeUndefined();
+  });
+});
+
+describe("parseRateLimitBody", () => {
+  it("reads retry_after and retryAfter, top-level or under error", () => {
+    expect(parseRateLimitBody('{"retry_after": 30}')).toBe(30000);
+    expect(parseRateLimitBody('{"error": {"retryAfter": 2}}')).toBe(2000);
+    expect(parseRateLimitBody('{"retry_after": "10"}')).toBe(10000);
+  });
+
+  it("ignores bodies without a delay", () => {
+    expect(parseRateLimitBody("Too Many Requests")).toBeUndefined();
+    expect(parseRateLimitBody('{"error": "slow down"}')).toBeUndefined();
+    expect(parseRateLimitBody("null")).toBeUndefined();
+  });
+});
+
+describe("getRetryAfter", () => {
+  const response = (status: number, headers: Record<string, string> = {}) =>
+    new Response(null, { status, headers });
+
+  it("prefers the header over the body", () => {
+    expect(
+      getRetryAfter(response(429, { "Retry-After": "5" }), '{"retry_after":60}')
+    ).toBe(5000);
+    expect(getRetryAfter(response(503), '{"retry_after":60}')).toBe(60000);
+  });
+
+  it("only applies to 429 and 503 responses", () => {
+    expect(
+      getRetryAfter(response(500, { "Retry-After": "5" }), "")
+    ).toBeUndefined();
+  });
+});
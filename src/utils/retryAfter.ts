@@ -0,0 +1,77 @@
+import { MAX_RETRY_AFTER_MS } from "../constants";
+
+const clampDelay = (delay: number): number | undefined =>
+  Number.isFinite(delay)
+    ? Math.min(Math.max(0, Math.ceil(delay)), MAX_RETRY_AFTER_MS)
+    : undefined;
+
+/**
+ * Parses a Retry-After header, given either in seconds or as an HTTP date
+ * @returns The delay in milliseconds, or undefined when the header is missing or invalid
+ */
+export const parseRetryAfter = (
+  value: string | null | undefined,
+  now: number = Date.now()
+): number | undefined => {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return clampDelay(parseFloat(trimmed) * 1000);
+  }
+  // HTTP dates name the day and month, Date.parse would take "-5" as a year
+  if (!/[a-z]/i.test(trimmed)) {
+    return undefined;
+  }
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : clampDelay(date - now);
+};
+
+/**
+ * Reads the retry delay from a rate limit response body such as
+ * {"retry_after": 30} or {"error": {"retryAfter": 30}}, in seconds
+ * @returns The delay in milliseconds, or undefined when the body has none
+ */
+export const parseRateLimitBody = (body: string): number | undefined => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return undefined;
+  }
+
+  const candidates = [parsed, (parsed as { error?: unknown } | null)?.error];
+  for (const candidate of candidates) {
+    if (!candidate || typeof candidate !== "object") {
+      continue;
+    }
+    const { retry_after, retryAfter } = candidate as Record<string, unknown>;
+    const seconds = retry_after ?? retryAfter;
+    if (typeof seconds === "number") {
+      return clampDelay(seconds * 1000);
+    }
+    if (typeof seconds === "string") {
+      return parseRetryAfter(seconds);
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Delay a throttling (429) or unavailable (503) response asks clients to wait,
+ * preferring the Retry-After header over the body
+ * @returns The delay in milliseconds, or undefined for other statuses or when the server gave none
+ */
+export const getRetryAfter = (
+  response: Response,
+  body: string
+): number | undefined => {
+  if (response.status !== 429 && response.status !== 503) {
+    return undefined;
+  }
+  return (
+    parseRetryAfter(response.headers.get("retry-after")) ??
+    (body ? parseRateLimitBody(body) : undefined)
+  );
+};
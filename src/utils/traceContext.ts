@@ -0,0 +1,115 @@
+import type { TracePropagationTarget } from "../types";
+import { generateHexId } from "./generateHexId";
+
+export type TraceContext = {
+  traceId: string;
+  spanId: string;
+};
+
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/;
+
+// Trace contexts of requests that are currently in flight, most recent last
+const activeTraceContexts: TraceContext[] = [];
+
+/**
+ * Creates a new W3C trace context for an outgoing request
+ */
+export function createTraceContext(): TraceContext {
+  return {
+    traceId: generateHexId(16),
+    spanId: generateHexId(8),
+  };
+}
+
+/**
+ * Formats a trace context as a sampled W3C traceparent header value
+ */
+export function formatTraceparent(context: TraceContext): string {
+  return `00-${context.traceId}-${context.spanId}-01`;
+}
+
+/**
+ * Parses a W3C traceparent header value
+ * @returns The trace context, or null if the header is malformed
+ */
+export function parseTraceparent(header: string | null): TraceContext | null {
+  const match = header ? TRACEPARENT_PATTERN.exec(header.trim()) : null;
+  if (!match) {
+    return null;
+  }
+  return { traceId: match[1], spanId: match[2] };
+}
+
+/**
+ * Formats a tracestate list member for this SDK, dropping characters the spec disallows
+ * @returns The tracestate value, or undefined if nothing valid is left
+ */
+export function formatTracestate(sessionId?: string): string | undefined {
+  const value = sessionId?.replace(/[^\x20-\x2b\x2d-\x3c\x3e-\x7e]/g, "");
+  return value ? `hyperlook=${value.slice(0, 256)}` : undefined;
+}
+
+/**
+ * Checks whether trace headers may be sent to a URL.
+ * Strings match an origin or URL prefix, regular expressions are tested against the full URL.
+ * Without targets, only same-origin requests receive trace headers.
+ */
+export function shouldPropagateTraceContext(
+  url: string,
+  targets?: TracePropagationTarget[]
+): boolean {
+  let requestUrl: URL;
+  try {
+    requestUrl = new URL(
+      url,
+      typeof window !== "undefined" ? window.location.origin : undefined
+    );
+  } catch {
+    return false;
+  }
+
+  if (!targets || targets.length === 0) {
+    return (
+      typeof window !== "undefined" &&
+      requestUrl.origin === window.location.origin
+    );
+  }
+
+  const href = requestUrl.toString();
+  return targets.some(target => {
+    if (target instanceof RegExp) {
+      return target.test(href);
+    }
+    return href === target || href.startsWith(target.replace(/\/?$/, "/"));
+  });
+}
+
+/**
+ * Marks a trace context as active while its request is in flight
+ * @returns A function that deactivates the context
+ */
+export function activateTraceContext(context: TraceContext): () => void {
+  activeTraceContexts.push(context);
+  let released = false;
+  return () => {
+    if (released) {
+      return;
+    }
+    released = true;
+    // Deactivate on the next task so response handlers chained on the request still see it
+    setTimeout(() => {
+      const index = activeTraceContexts.lastIndexOf(context);
+      if (index !== -1) {
+        activeTraceContexts.splice(index, 1);
+      }
+    }, 0);
+  };
+}
+
+/**
+ * Returns the trace context of the most recently started in-flight request.
+ * Browsers have no async context, so with concurrent requests this is a best-effort match.
+ */
+export function getActiveTraceContext(): TraceContext | null {
+  return activeTraceContexts[activeTraceContexts.length - 1] ?? null;
+}
@@ -1,15 +1,47 @@
 import { defineConfig } from "tsup";
 
-export default defineConfig({
-  entry: ["src/index.ts"],
-  format: ["esm", "cjs"],
-  dts: true,
-  clean: true,
-  sourcemap: true,
-  minify: true,
-  treeshake: true,
-  splitting: false,
-  target: "es2020",
-  outDir: "dist",
-  onSuccess: "echo 'Build completed successfully!'",
-});
+export default defineConfig([
+  {
+    entry: ["src/index.ts"],
+    format: ["esm", "cjs"],
+    dts: true,
+    sourcemap: true,
+    minify: true,
+    treeshake: true,
+    splitting: false,
+    target: "es2020",
+    outDir: "dist",
+    onSuccess: "echo 'Build completed successfully!'",
+  },
+  {
+    // Node.js-only source map symbolication, kept out of the browser bundle
+    entry: { symbolication: "src/symbolication/index.ts" },
+    format: ["esm", "cjs"],
+    dts: true,
+    sourcemap: true,
+    treeshake: true,
+    splitting: false,
+    platform: "node",
+    target: "node18",
+    outDir: "dist",
+  },
+  {
+    // Node.js built-ins (file storage, http, perf_hooks), kept out of the browser bundle
+    entry: { node: "src/node/index.ts" },
+    format: ["esm", "cjs"],
+    dts: true,
+    sourcemap: true,
+    treeshake: true,
+    splitting: false,
+    platform: "node",
+    target: "node18",
+    outDir: "dist",
+  },
+  {
+    entry: { "symbolicate-cli": "src/symbolication/cli.ts" },
+    format: ["cjs"],
+    platform: "node",
+    target: "node18",
+    outDir: "dist",
+  },
+]);